@@ -2,6 +2,7 @@ import { useEffect } from "react";
 import { Theme } from "@radix-ui/themes";
 import { Toaster } from "react-hot-toast";
 import { usePlayerStore } from "./stores/playerStore";
+import { useShadowingStore } from "./stores/shadowingStore";
 import { AppRouter } from "./router/AppRouter";
 import "@radix-ui/themes/styles.css";
 import "./index.css";
@@ -13,6 +14,14 @@ function App() {
     document.documentElement.className = theme;
   }, [theme]);
 
+  // Empty the shadowing trash of takes past their retention, now and hourly
+  useEffect(() => {
+    const purge = () => void useShadowingStore.getState().purgeExpiredTrash();
+    purge();
+    const interval = window.setInterval(purge, 60 * 60 * 1000);
+    return () => window.clearInterval(interval);
+  }, []);
+
   // Parse URL parameters for shared loop settings
   useEffect(() => {
     const params = new URLSearchParams(window.location.search);
@@ -25,6 +34,11 @@ function App() {
       setIsLooping(true);
     }
 
+    const pitch = parseFloat(params.get("pitch") ?? "");
+    if (!isNaN(pitch)) {
+      usePlayerStore.getState().setTranspose(pitch);
+    }
+
     // Note: YouTube ID handling is implemented in the PlayerLayout component
   }, []);
 
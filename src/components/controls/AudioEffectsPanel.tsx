@@ -0,0 +1,303 @@
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useShallow } from "zustand/react/shallow";
+import { Save, Trash2 } from "lucide-react";
+import { usePlayerStore } from "../../stores/playerStore";
+import {
+  AudioEffectsSettings,
+  BUILT_IN_EFFECT_PRESETS,
+  CENTER_CHANNEL_MODES,
+  CenterChannelMode,
+  EQ_GAIN_RANGE,
+} from "../../utils/audioEffects";
+import { Slider } from "../ui/slider";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+
+const selectClassName =
+  "w-full h-9 px-3 py-1 text-sm bg-transparent border border-gray-200 dark:border-gray-700 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 dark:bg-gray-800";
+
+interface SliderRowProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+  onChange: (value: number) => void;
+  disabled?: boolean;
+}
+
+const SliderRow = ({ label, value, min, max, step, format, onChange, disabled }: SliderRowProps) => (
+  <div className="space-y-1.5">
+    <div className="flex items-center justify-between text-xs">
+      <span className="text-gray-600 dark:text-gray-300">{label}</span>
+      <span className="tabular-nums text-gray-500 dark:text-gray-400">{format(value)}</span>
+    </div>
+    <Slider
+      value={[value]}
+      min={min}
+      max={max}
+      step={step}
+      onValueChange={(values) => onChange(values[0])}
+      disabled={disabled}
+    />
+  </div>
+);
+
+const formatDb = (value: number) => `${value > 0 ? "+" : ""}${value} dB`;
+
+/**
+ * EQ, center channel, compressor and normalization controls for local media,
+ * with built-in and user presets.
+ */
+export const AudioEffectsPanel = () => {
+  const { t } = useTranslation();
+  const [presetName, setPresetName] = useState("");
+  const [selectedPresetId, setSelectedPresetId] = useState("");
+
+  const {
+    audioEffects,
+    audioEffectPresets,
+    mediaLoudness,
+    isYouTube,
+    setAudioEffects,
+    saveAudioEffectsPreset,
+    applyAudioEffectsPreset,
+    deleteAudioEffectsPreset,
+  } = usePlayerStore(
+    useShallow((state) => ({
+      audioEffects: state.audioEffects,
+      audioEffectPresets: state.audioEffectPresets,
+      mediaLoudness: state.mediaLoudness,
+      isYouTube: !!state.currentYouTube,
+      setAudioEffects: state.setAudioEffects,
+      saveAudioEffectsPreset: state.saveAudioEffectsPreset,
+      applyAudioEffectsPreset: state.applyAudioEffectsPreset,
+      deleteAudioEffectsPreset: state.deleteAudioEffectsPreset,
+    }))
+  );
+
+  const { enabled, eq, center, compressor, normalize } = audioEffects;
+  const updateEq = (changes: Partial<AudioEffectsSettings["eq"]>) =>
+    setAudioEffects({ eq: { ...eq, ...changes } });
+  const updateCompressor = (changes: Partial<AudioEffectsSettings["compressor"]>) =>
+    setAudioEffects({ compressor: { ...compressor, ...changes } });
+
+  const isUserPreset = audioEffectPresets.some((preset) => preset.id === selectedPresetId);
+
+  const handleSavePreset = () => {
+    if (!presetName.trim()) return;
+    saveAudioEffectsPreset(presetName);
+    setPresetName("");
+  };
+
+  return (
+    <div className="space-y-4">
+      <label className="flex items-center justify-between gap-3 text-sm text-gray-700 dark:text-gray-200">
+        <span>{t("audioEffects.enable")}</span>
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => setAudioEffects({ enabled: e.target.checked })}
+          className="h-4 w-4 accent-purple-600"
+        />
+      </label>
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        {isYouTube ? t("audioEffects.unavailableForYouTube") : t("audioEffects.help")}
+      </p>
+
+      {/* Presets */}
+      <div className="space-y-2">
+        <div className="flex items-center gap-2">
+          <select
+            value={selectedPresetId}
+            onChange={(e) => {
+              setSelectedPresetId(e.target.value);
+              if (e.target.value) applyAudioEffectsPreset(e.target.value);
+            }}
+            className={selectClassName}
+            aria-label={t("audioEffects.preset")}
+          >
+            <option value="">{t("audioEffects.choosePreset")}</option>
+            {BUILT_IN_EFFECT_PRESETS.map((preset) => (
+              <option key={preset.id} value={preset.id}>
+                {t(`audioEffects.presets.${preset.id}`)}
+              </option>
+            ))}
+            {audioEffectPresets.map((preset) => (
+              <option key={preset.id} value={preset.id}>
+                {preset.name}
+              </option>
+            ))}
+          </select>
+          {isUserPreset && (
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => {
+                deleteAudioEffectsPreset(selectedPresetId);
+                setSelectedPresetId("");
+              }}
+              className="h-9 w-9 shrink-0"
+              aria-label={t("audioEffects.deletePreset")}
+              title={t("audioEffects.deletePreset")}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <Input
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleSavePreset()}
+            placeholder={t("audioEffects.presetName")}
+            className="h-9"
+          />
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={handleSavePreset}
+            disabled={!presetName.trim()}
+            className="h-9 w-9 shrink-0"
+            aria-label={t("audioEffects.savePreset")}
+            title={t("audioEffects.savePreset")}
+          >
+            <Save className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {/* Parametric EQ */}
+      <div className="space-y-3">
+        <h4 className="text-xs font-medium text-gray-400 uppercase tracking-wider">{t("audioEffects.eq")}</h4>
+        <SliderRow
+          label={t("audioEffects.lowGain")}
+          value={eq.lowGain}
+          min={-EQ_GAIN_RANGE}
+          max={EQ_GAIN_RANGE}
+          step={0.5}
+          format={formatDb}
+          onChange={(lowGain) => updateEq({ lowGain })}
+        />
+        <SliderRow
+          label={t("audioEffects.midGain")}
+          value={eq.midGain}
+          min={-EQ_GAIN_RANGE}
+          max={EQ_GAIN_RANGE}
+          step={0.5}
+          format={formatDb}
+          onChange={(midGain) => updateEq({ midGain })}
+        />
+        <SliderRow
+          label={t("audioEffects.midFrequency")}
+          value={eq.midFrequency}
+          min={200}
+          max={8000}
+          step={50}
+          format={(value) => (value >= 1000 ? `${(value / 1000).toFixed(2)} kHz` : `${value} Hz`)}
+          onChange={(midFrequency) => updateEq({ midFrequency })}
+        />
+        <SliderRow
+          label={t("audioEffects.midQ")}
+          value={eq.midQ}
+          min={0.3}
+          max={8}
+          step={0.1}
+          format={(value) => value.toFixed(1)}
+          onChange={(midQ) => updateEq({ midQ })}
+        />
+        <SliderRow
+          label={t("audioEffects.highGain")}
+          value={eq.highGain}
+          min={-EQ_GAIN_RANGE}
+          max={EQ_GAIN_RANGE}
+          step={0.5}
+          format={formatDb}
+          onChange={(highGain) => updateEq({ highGain })}
+        />
+      </div>
+
+      {/* Center channel (mid/side) */}
+      <div className="space-y-3">
+        <h4 className="text-xs font-medium text-gray-400 uppercase tracking-wider">{t("audioEffects.center")}</h4>
+        <select
+          value={center.mode}
+          onChange={(e) =>
+            setAudioEffects({ center: { ...center, mode: e.target.value as CenterChannelMode } })
+          }
+          className={selectClassName}
+        >
+          {CENTER_CHANNEL_MODES.map((mode) => (
+            <option key={mode} value={mode}>
+              {t(`audioEffects.centerModes.${mode}`)}
+            </option>
+          ))}
+        </select>
+        <SliderRow
+          label={t("audioEffects.centerAmount")}
+          value={center.amount}
+          min={0}
+          max={1}
+          step={0.05}
+          format={(value) => `${Math.round(value * 100)}%`}
+          onChange={(amount) => setAudioEffects({ center: { ...center, amount } })}
+          disabled={center.mode === "off"}
+        />
+        <p className="text-xs text-gray-500 dark:text-gray-400">{t("audioEffects.centerHelp")}</p>
+      </div>
+
+      {/* Dynamics */}
+      <div className="space-y-3">
+        <label className="flex items-center justify-between gap-3">
+          <h4 className="text-xs font-medium text-gray-400 uppercase tracking-wider">{t("audioEffects.compressor")}</h4>
+          <input
+            type="checkbox"
+            checked={compressor.enabled}
+            onChange={(e) => updateCompressor({ enabled: e.target.checked })}
+            className="h-4 w-4 accent-purple-600"
+          />
+        </label>
+        <SliderRow
+          label={t("audioEffects.threshold")}
+          value={compressor.threshold}
+          min={-60}
+          max={0}
+          step={1}
+          format={(value) => `${value} dB`}
+          onChange={(threshold) => updateCompressor({ threshold })}
+          disabled={!compressor.enabled}
+        />
+        <SliderRow
+          label={t("audioEffects.ratio")}
+          value={compressor.ratio}
+          min={1}
+          max={20}
+          step={0.5}
+          format={(value) => `${value}:1`}
+          onChange={(ratio) => updateCompressor({ ratio })}
+          disabled={!compressor.enabled}
+        />
+      </div>
+
+      {/* Normalization */}
+      <div className="space-y-1">
+        <label className="flex items-center justify-between gap-3 text-sm text-gray-700 dark:text-gray-200">
+          <span>{t("audioEffects.normalize")}</span>
+          <input
+            type="checkbox"
+            checked={normalize}
+            onChange={(e) => setAudioEffects({ normalize: e.target.checked })}
+            className="h-4 w-4 accent-purple-600"
+          />
+        </label>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {mediaLoudness !== null
+            ? t("audioEffects.measuredLoudness", { level: mediaLoudness.toFixed(1) })
+            : t("audioEffects.loudnessUnknown")}
+        </p>
+      </div>
+    </div>
+  );
+};
@@ -1,7 +1,9 @@
 import { useState, useEffect, useRef } from "react";
-import { usePlayerStore } from "../../stores/playerStore";
+import { createPortal } from "react-dom";
+import { MAX_TRANSPOSE, usePlayerStore } from "../../stores/playerStore";
 import { useTranslation } from "react-i18next";
 import { formatTime } from "../../utils/formatTime";
+import { formatTranspose, splitTranspose } from "../../utils/formatTranspose";
 import {
   Play,
   Pause,
@@ -17,9 +19,15 @@ import {
   ChevronLeft,
   ChevronRight,
   RotateCcw,
+  Music2,
+  Minus,
+  Plus,
+  SlidersVertical,
 } from "lucide-react";
 import { Slider } from "../ui/slider";
 import { Button } from "../ui/button";
+import { SettingsDrawer } from "../layout/SettingsDrawer";
+import { useLayoutSettings } from "../../contexts/LayoutSettingsContext";
 
 export const CombinedControls = () => {
   const { t } = useTranslation();
@@ -30,6 +38,8 @@ export const CombinedControls = () => {
     volume,
     muted,
     playbackRate,
+    transpose,
+    currentYouTube,
     loopStart,
     loopEnd,
     isLooping,
@@ -38,6 +48,7 @@ export const CombinedControls = () => {
     setVolume,
     setMuted,
     setPlaybackRate,
+    setTranspose,
     setLoopPoints,
     setIsLooping,
     seekForward: storeSeekForward,
@@ -50,7 +61,9 @@ export const CombinedControls = () => {
     setMaxLoops,
     loopDelay,
     setLoopDelay,
+    audioEffects,
   } = usePlayerStore();
+  const { layoutSettings, setLayoutSettings } = useLayoutSettings();
 
   const [rangeValues, setRangeValues] = useState<[number, number]>([0, 100]);
   const [showABControls, setShowABControls] = useState(false);
@@ -58,6 +71,9 @@ export const CombinedControls = () => {
   const stepDropdownRef = useRef<HTMLDivElement>(null);
   const [showLoopDropdown, setShowLoopDropdown] = useState(false);
   const loopDropdownRef = useRef<HTMLDivElement>(null);
+  const [showPitchDropdown, setShowPitchDropdown] = useState(false);
+  const pitchDropdownRef = useRef<HTMLDivElement>(null);
+  const [isSettingsDrawerOpen, setIsSettingsDrawerOpen] = useState(false);
 
   // Close dropdowns when clicking outside
   useEffect(() => {
@@ -68,6 +84,9 @@ export const CombinedControls = () => {
       if (loopDropdownRef.current && !loopDropdownRef.current.contains(e.target as Node)) {
         setShowLoopDropdown(false);
       }
+      if (pitchDropdownRef.current && !pitchDropdownRef.current.contains(e.target as Node)) {
+        setShowPitchDropdown(false);
+      }
     };
     document.addEventListener("mousedown", handleClickOutside);
     return () => document.removeEventListener("mousedown", handleClickOutside);
@@ -129,6 +148,10 @@ export const CombinedControls = () => {
     setPlaybackRate(newRate);
   };
 
+  // Transpose is kept as semitones with cents as the fraction
+  const { semitones: transposeSemitones, cents: transposeCents } = splitTranspose(transpose);
+  const canTranspose = !currentYouTube;
+
   // Toggle mute
   const toggleMute = () => {
     if (muted) {
@@ -179,11 +202,11 @@ export const CombinedControls = () => {
     if (duration === 0) return;
     if (loopEnd !== null && currentTime >= loopEnd) {
       // Start fresh: A=current, clear B, and stop looping until B is set
-      setLoopPoints(currentTime, null);
+      setLoopPoints(currentTime, null, { snap: true });
       setIsLooping(false);
     } else {
       // Just move A; keep B as-is (may be null)
-      setLoopPoints(currentTime, loopEnd);
+      setLoopPoints(currentTime, loopEnd, { snap: true });
       if (loopEnd !== null) {
         // Valid A-B range remains; keep looping state
         if (!isLooping) setIsLooping(true);
@@ -195,7 +218,7 @@ export const CombinedControls = () => {
   const setLoopEndAtCurrentTime = () => {
     const start = loopStart !== null ? loopStart : 0;
     if (currentTime > start) {
-      setLoopPoints(start, currentTime);
+      setLoopPoints(start, currentTime, { snap: true });
       // Enable looping when points are set
       if (!isLooping) {
         setIsLooping(true);
@@ -343,6 +366,73 @@ export const CombinedControls = () => {
               </button>
             </div>
 
+            {/* Pitch / transpose dropdown */}
+            <div className="relative" ref={pitchDropdownRef}>
+              <Button
+                variant={transpose !== 0 && canTranspose ? "default" : "outline"}
+                size="sm"
+                onClick={() => setShowPitchDropdown(!showPitchDropdown)}
+                disabled={!canTranspose}
+                className="gap-1 py-1 px-3 h-8 text-xs font-medium whitespace-nowrap"
+                title={canTranspose ? t("player.transpose") : t("player.transposeUnavailable")}
+              >
+                <Music2 size={13} className="sm:w-[14px] sm:h-[14px]" />
+                {formatTranspose(transpose)}
+              </Button>
+              {showPitchDropdown && canTranspose && (
+                <div className="absolute left-0 bottom-full mb-1 z-[60] w-52 rounded-md border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 shadow-lg p-3 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <label className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">{t("player.semitones")}</label>
+                    <div className="flex items-center gap-1">
+                      <button
+                        onClick={() => setTranspose(transpose - 1)}
+                        disabled={transpose - 1 < -MAX_TRANSPOSE}
+                        className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-300 disabled:opacity-30"
+                        aria-label={t("player.transposeDown")}
+                      >
+                        <Minus size={12} />
+                      </button>
+                      <span className="w-8 text-center text-xs font-medium tabular-nums text-gray-700 dark:text-gray-300">
+                        {transposeSemitones > 0 ? `+${transposeSemitones}` : transposeSemitones}
+                      </span>
+                      <button
+                        onClick={() => setTranspose(transpose + 1)}
+                        disabled={transpose + 1 > MAX_TRANSPOSE}
+                        className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-300 disabled:opacity-30"
+                        aria-label={t("player.transposeUp")}
+                      >
+                        <Plus size={12} />
+                      </button>
+                    </div>
+                  </div>
+                  <div className="flex items-center justify-between gap-2">
+                    <label className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">{t("player.cents")}</label>
+                    <input
+                      type="number"
+                      min={-50}
+                      max={50}
+                      step={1}
+                      value={transposeCents}
+                      onChange={(e) => {
+                        const cents = Math.max(-50, Math.min(50, parseInt(e.target.value, 10) || 0));
+                        setTranspose(transposeSemitones + cents / 100);
+                      }}
+                      className="w-16 h-7 rounded border border-gray-200 dark:border-gray-600 bg-transparent px-2 text-xs text-gray-700 dark:text-gray-300 focus:outline-none focus:ring-2 focus:ring-purple-500 dark:bg-gray-700"
+                    />
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setTranspose(0)}
+                    disabled={transpose === 0}
+                    className="w-full h-7 text-xs"
+                  >
+                    {t("player.resetTranspose")}
+                  </Button>
+                </div>
+              )}
+            </div>
+
             {/* Loop button + dropdown */}
             <div className="relative flex items-stretch rounded-lg border border-gray-200 dark:border-gray-700 shadow-sm" ref={loopDropdownRef}>
               <Button
@@ -399,6 +489,18 @@ export const CombinedControls = () => {
               )}
             </div>
 
+            {/* Audio effects live in the settings drawer */}
+            <Button
+              variant={audioEffects.enabled && canTranspose ? "default" : "outline"}
+              size="sm"
+              onClick={() => setIsSettingsDrawerOpen(true)}
+              className="py-1 px-2.5 h-8"
+              aria-label={t("audioEffects.open")}
+              title={t("audioEffects.open")}
+            >
+              <SlidersVertical size={13} className="sm:w-[14px] sm:h-[14px]" />
+            </Button>
+
             {/* Step settings dropdown */}
             <div className="relative" ref={stepDropdownRef}>
               <Button
@@ -542,6 +644,17 @@ export const CombinedControls = () => {
           </div>
         )}
       </div>
+
+      {/* Portaled out of the control bar so it stacks above the page header */}
+      {createPortal(
+        <SettingsDrawer
+          isOpen={isSettingsDrawerOpen}
+          onClose={() => setIsSettingsDrawerOpen(false)}
+          layoutSettings={layoutSettings}
+          setLayoutSettings={setLayoutSettings}
+        />,
+        document.body
+      )}
     </div>
   );
 };
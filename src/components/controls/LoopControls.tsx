@@ -6,6 +6,8 @@ import {
   RepeatIcon,
   ArrowLeftIcon,
   ArrowRightIcon,
+  GaugeIcon,
+  DrumIcon,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Slider } from "@/components/ui/slider";
@@ -23,6 +25,7 @@ import {
   PopoverTrigger,
 } from "@/components/ui/popover";
 import { cn } from "@/utils/cn";
+import { metronome } from "@/utils/metronome";
 
 export const LoopControls = () => {
   const { t } = useTranslation();
@@ -31,6 +34,14 @@ export const LoopControls = () => {
   const [bpmInput, setBpmInput] = useState("");
   const [sliderValue, setSliderValue] = useState<[number, number]>([0, 0]);
   const [isDragging, setIsDragging] = useState(false);
+  const [trainerInputs, setTrainerInputs] = useState({
+    startRate: 0.6,
+    targetRate: 1,
+    increment: 0.05,
+    repsPerStep: 3,
+  });
+  // Beat currently flashing, cleared shortly after each click
+  const [flash, setFlash] = useState<"downbeat" | "beat" | null>(null);
 
   const {
     currentTime,
@@ -46,10 +57,74 @@ export const LoopControls = () => {
 
     scaleLoop,
     setBpm,
+    beatGrid,
     setQuantizeLoop,
     quantizeCurrentLoop,
+    playbackRate,
+    speedTrainer,
+    speedTrainerReps,
+    startSpeedTrainer,
+    stopSpeedTrainer,
+    stepDownSpeedTrainer,
+    metronomeEnabled,
+    metronomeVolume,
+    countInBars,
+    beatsPerBar,
+    setMetronomeEnabled,
+    setMetronomeVolume,
+    setCountInBars,
+    setBeatsPerBar,
   } = usePlayerStore();
 
+  // Flash in time with the clicks as they are heard
+  useEffect(() => {
+    let timeoutId: number | undefined;
+    const unsubscribe = metronome.onBeat((_beat, isDownbeat) => {
+      setFlash(isDownbeat ? "downbeat" : "beat");
+      window.clearTimeout(timeoutId);
+      timeoutId = window.setTimeout(() => setFlash(null), 100);
+    });
+    return () => {
+      unsubscribe();
+      window.clearTimeout(timeoutId);
+    };
+  }, []);
+
+  // Fill the drill form from the active drill (e.g. a resumed bookmark)
+  useEffect(() => {
+    if (speedTrainer) {
+      setTrainerInputs({
+        startRate: speedTrainer.startRate,
+        targetRate: speedTrainer.targetRate,
+        increment: speedTrainer.increment,
+        repsPerStep: speedTrainer.repsPerStep,
+      });
+    }
+  }, [speedTrainer]);
+
+  // Stage 1 is the start rate; the last stage is the target rate
+  const trainerTotalStages = speedTrainer
+    ? Math.ceil(
+        (speedTrainer.targetRate - speedTrainer.startRate) / speedTrainer.increment - 1e-6
+      ) + 1
+    : 0;
+  const trainerStage = speedTrainer
+    ? Math.min(
+        trainerTotalStages,
+        Math.round((speedTrainer.currentRate - speedTrainer.startRate) / speedTrainer.increment) + 1
+      )
+    : 0;
+
+  const handleTrainerInputChange = (
+    key: keyof typeof trainerInputs,
+    value: string
+  ) => {
+    const parsed = parseFloat(value);
+    if (!isNaN(parsed)) {
+      setTrainerInputs((prev) => ({ ...prev, [key]: parsed }));
+    }
+  };
+
   // Update sliders when loop points change
   useEffect(() => {
     if (loopStart !== null && loopEnd !== null && !isDragging) {
@@ -185,7 +260,7 @@ export const LoopControls = () => {
 
   // Handle BPM input blur
   const handleBpmInputBlur = () => {
-    const parsedBpm = parseInt(bpmInput, 10);
+    const parsedBpm = parseFloat(bpmInput);
 
     if (!isNaN(parsedBpm) && parsedBpm > 0 && parsedBpm <= 300) {
       setBpm(parsedBpm);
@@ -423,8 +498,22 @@ export const LoopControls = () => {
                   type="number"
                   min="1"
                   max="300"
+                  step="0.1"
                 />
               </div>
+              {beatGrid && (
+                <div className="flex items-center justify-between rounded-md bg-gray-100 dark:bg-gray-700 px-3 py-2 text-sm">
+                  <span>{t("loop.detectedBpm", { bpm: beatGrid.bpm })}</span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setBpm(beatGrid.bpm)}
+                    disabled={bpm === beatGrid.bpm}
+                  >
+                    {t("loop.useDetectedBpm")}
+                  </Button>
+                </div>
+              )}
               <div className="flex items-center space-x-2">
                 <input
                   type="checkbox"
@@ -440,11 +529,187 @@ export const LoopControls = () => {
                 variant="default"
                 onClick={quantizeCurrentLoop}
                 disabled={
-                  bpm === null || loopStart === null || loopEnd === null
+                  (bpm === null && !beatGrid) || loopStart === null || loopEnd === null
                 }
               >
                 {t("loop.quantizeNow")}
               </Button>
+              {beatGrid && (
+                <p className="text-xs text-gray-500 dark:text-gray-400">{t("loop.quantizeToBeats")}</p>
+              )}
+            </div>
+          </PopoverContent>
+        </Popover>
+
+        {/* Metronome and count-in */}
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button
+              variant="outline"
+              size="sm"
+              className={metronomeEnabled || countInBars > 0 ? "border-primary" : ""}
+              title={t("loop.metronome")}
+            >
+              <DrumIcon className="mr-1 h-4 w-4" />
+              <span
+                className={cn(
+                  "h-2 w-2 rounded-full transition-colors duration-75",
+                  flash === "downbeat"
+                    ? "bg-red-500"
+                    : flash === "beat"
+                      ? "bg-purple-500"
+                      : "bg-gray-300 dark:bg-gray-600"
+                )}
+              />
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-80">
+            <div className="grid gap-4">
+              <div className="space-y-2">
+                <h4 className="font-medium">{t("loop.metronome")}</h4>
+                <p className="text-sm text-muted-foreground">
+                  {bpm === null ? t("loop.metronomeNeedsBpm") : t("loop.metronomeDesc")}
+                </p>
+              </div>
+              <div className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  id="metronome-checkbox"
+                  checked={metronomeEnabled}
+                  onChange={(e) => setMetronomeEnabled(e.target.checked)}
+                  className="rounded border-gray-300"
+                  disabled={bpm === null}
+                />
+                <Label htmlFor="metronome-checkbox">{t("loop.metronomeClickAlong")}</Label>
+              </div>
+              <div className="grid grid-cols-3 items-center gap-4">
+                <Label htmlFor="count-in-select">{t("loop.countIn")}</Label>
+                <select
+                  id="count-in-select"
+                  value={countInBars}
+                  onChange={(e) => setCountInBars(parseInt(e.target.value, 10))}
+                  className="col-span-2 h-9 rounded-md border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-800 px-2 text-sm"
+                  disabled={bpm === null}
+                >
+                  <option value={0}>{t("loop.countInOff")}</option>
+                  <option value={1}>{t("loop.countInOneBar")}</option>
+                  <option value={2}>{t("loop.countInTwoBars")}</option>
+                </select>
+              </div>
+              <div className="grid grid-cols-3 items-center gap-4">
+                <Label htmlFor="beats-per-bar-input">{t("loop.beatsPerBar")}</Label>
+                <Input
+                  id="beats-per-bar-input"
+                  type="number"
+                  min="1"
+                  max="12"
+                  value={beatsPerBar}
+                  onChange={(e) => setBeatsPerBar(parseInt(e.target.value, 10) || 1)}
+                  className="col-span-2"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>{t("loop.metronomeVolume")}</Label>
+                <Slider
+                  value={[metronomeVolume]}
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  onValueChange={(value) => setMetronomeVolume(value[0])}
+                />
+              </div>
+            </div>
+          </PopoverContent>
+        </Popover>
+
+        {/* Progressive speed trainer */}
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button
+              variant="outline"
+              size="sm"
+              className={speedTrainer ? "border-primary" : ""}
+              disabled={loopStart === null || loopEnd === null}
+            >
+              <GaugeIcon className="mr-1 h-4 w-4" />
+              {speedTrainer
+                ? `${playbackRate.toFixed(2)}x`
+                : t("loop.speedTrainer")}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-80">
+            <div className="grid gap-4">
+              <div className="space-y-2">
+                <h4 className="font-medium">{t("loop.speedTrainer")}</h4>
+                <p className="text-sm text-muted-foreground">{t("loop.speedTrainerDesc")}</p>
+              </div>
+              {speedTrainer && (
+                <div className="rounded-md bg-gray-100 dark:bg-gray-700 px-3 py-2 text-sm">
+                  <div className="flex items-center justify-between font-medium">
+                    <span>
+                      {t("loop.trainerStage", {
+                        stage: trainerStage,
+                        total: trainerTotalStages,
+                      })}
+                    </span>
+                    <span>{speedTrainer.currentRate.toFixed(2)}x</span>
+                  </div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {speedTrainer.currentRate >= speedTrainer.targetRate
+                      ? t("loop.trainerAtTarget")
+                      : t("loop.trainerReps", {
+                          count: speedTrainerReps,
+                          total: speedTrainer.repsPerStep,
+                        })}
+                  </p>
+                </div>
+              )}
+              <div className="grid grid-cols-2 gap-3">
+                {(
+                  [
+                    ["startRate", t("loop.trainerStartRate"), 0.25, 2, 0.05],
+                    ["targetRate", t("loop.trainerTargetRate"), 0.25, 2, 0.05],
+                    ["increment", t("loop.trainerIncrement"), 0.01, 0.5, 0.01],
+                    ["repsPerStep", t("loop.trainerRepsPerStep"), 1, 20, 1],
+                  ] as const
+                ).map(([key, label, min, max, step]) => (
+                  <div key={key} className="space-y-1">
+                    <Label htmlFor={`trainer-${key}`}>{label}</Label>
+                    <Input
+                      id={`trainer-${key}`}
+                      type="number"
+                      min={min}
+                      max={max}
+                      step={step}
+                      value={trainerInputs[key]}
+                      onChange={(e) => handleTrainerInputChange(key, e.target.value)}
+                      disabled={!!speedTrainer}
+                    />
+                  </div>
+                ))}
+              </div>
+              {speedTrainer ? (
+                <div className="grid grid-cols-2 gap-2">
+                  <Button
+                    variant="outline"
+                    onClick={stepDownSpeedTrainer}
+                    disabled={speedTrainer.currentRate <= speedTrainer.startRate}
+                  >
+                    {t("loop.trainerStepDown")}
+                  </Button>
+                  <Button variant="default" onClick={stopSpeedTrainer}>
+                    {t("loop.trainerStop")}
+                  </Button>
+                </div>
+              ) : (
+                <Button
+                  variant="default"
+                  onClick={() => startSpeedTrainer(trainerInputs)}
+                  disabled={trainerInputs.targetRate < trainerInputs.startRate}
+                >
+                  {t("loop.trainerStart")}
+                </Button>
+              )}
             </div>
           </PopoverContent>
         </Popover>
@@ -185,7 +185,7 @@ export const MobileControls = () => {
     const { currentTime } = usePlayerStore.getState();
     const end = loopEnd !== null ? loopEnd : duration;
     if (currentTime < end) {
-      setLoopPoints(currentTime, end);
+      setLoopPoints(currentTime, end, { snap: true });
       // Enable looping when points are set
       if (!isLooping) {
         setIsLooping(true);
@@ -198,7 +198,7 @@ export const MobileControls = () => {
     const { currentTime } = usePlayerStore.getState();
     const start = loopStart !== null ? loopStart : 0;
     if (currentTime > start) {
-      setLoopPoints(start, currentTime);
+      setLoopPoints(start, currentTime, { snap: true });
       // Enable looping when points are set
       if (!isLooping) {
         setIsLooping(true);
@@ -1,5 +1,6 @@
-import { usePlayerStore } from '../../stores/playerStore'
+import { MAX_TRANSPOSE, usePlayerStore } from '../../stores/playerStore'
 import { formatTime } from '../../utils/formatTime'
+import { formatTranspose } from '../../utils/formatTranspose'
 import { useTranslation } from 'react-i18next'
 import { Slider } from '@radix-ui/react-slider'
 import { 
@@ -10,7 +11,9 @@ import {
   Volume2, 
   VolumeX,
   Rewind,
-  FastForward
+  FastForward,
+  Minus,
+  Plus
 } from 'lucide-react'
 
 export const PlaybackControls = () => {
@@ -21,10 +24,13 @@ export const PlaybackControls = () => {
     duration,
     volume,
     playbackRate,
+    transpose,
+    currentYouTube,
     setIsPlaying,
     setCurrentTime,
     setVolume,
     setPlaybackRate,
+    setTranspose,
     seekForward: storeSeekForward,
     seekBackward: storeSeekBackward,
     seekStepSeconds
@@ -153,6 +159,32 @@ export const PlaybackControls = () => {
           >
             <FastForward size={20} />
           </button>
+
+          {/* Transpose in semitones; YouTube playback can't be pitch shifted */}
+          <button
+            onClick={() => setTranspose(transpose - 1)}
+            disabled={!!currentYouTube || transpose - 1 < -MAX_TRANSPOSE}
+            className="p-2 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-30"
+            aria-label={t("player.transposeDown")}
+          >
+            <Minus size={16} />
+          </button>
+
+          <span
+            className="text-sm font-medium"
+            title={currentYouTube ? t("player.transposeUnavailable") : t("player.transpose")}
+          >
+            {formatTranspose(transpose)}
+          </span>
+
+          <button
+            onClick={() => setTranspose(transpose + 1)}
+            disabled={!!currentYouTube || transpose + 1 > MAX_TRANSPOSE}
+            className="p-2 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-30"
+            aria-label={t("player.transposeUp")}
+          >
+            <Plus size={16} />
+          </button>
         </div>
       </div>
     </div>
@@ -2,8 +2,9 @@ import { useState, Dispatch, SetStateAction } from "react";
 import { useNavigate } from "react-router-dom";
 import { useTranslation } from "react-i18next";
 import { usePlayerStore } from "../../stores/playerStore";
+import { useReviewQueue } from "../../hooks/useReviewQueue";
 import { useShallow } from "zustand/react/shallow";
-import { Moon, Sun, Info, Settings, Layout, Eye, EyeOff, Music, Video, Youtube } from "lucide-react";
+import { Moon, Sun, Info, Settings, Layout, Eye, EyeOff, Music, Video, Youtube, GraduationCap } from "lucide-react";
 import * as Dialog from "@radix-ui/react-dialog";
 import * as Popover from "@radix-ui/react-popover";
 
@@ -29,6 +30,7 @@ export const AppLayout = ({
   const navigate = useNavigate();
   const [showKeyboardShortcuts, setShowKeyboardShortcuts] = useState(false);
   const [isLayoutPopoverOpen, setIsLayoutPopoverOpen] = useState(false);
+  const dueReviewCount = useReviewQueue().length;
 
   const {
     currentFile,
@@ -293,6 +295,21 @@ export const AppLayout = ({
             )}
           </button>
 
+          {/* Review Button - badge shows bookmarks due for review */}
+          <button
+            onClick={() => navigate("/review")}
+            className="relative p-1.5 sm:p-2 rounded-md hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-600 dark:text-gray-300 transition-colors"
+            aria-label={t("review.open")}
+            title={t("review.open")}
+          >
+            <GraduationCap className="h-4 w-4 sm:h-5 sm:w-5" />
+            {dueReviewCount > 0 && (
+              <span className="absolute -top-0.5 -right-0.5 min-w-[16px] h-4 px-1 rounded-full bg-purple-600 text-[10px] font-semibold leading-4 text-white text-center">
+                {dueReviewCount > 99 ? "99+" : dueReviewCount}
+              </span>
+            )}
+          </button>
+
           {/* Settings Button */}
           <button
             onClick={() => navigate("/settings")}
@@ -18,6 +18,7 @@ import {
 } from "lucide-react";
 import { Input } from "../ui/input";
 import { LanguageSelector } from "../ui/LanguageSelector";
+import { AudioEffectsPanel } from "../controls/AudioEffectsPanel";
 
 interface LayoutSettings {
   showPlayer: boolean;
@@ -234,6 +235,14 @@ export const SettingsDrawer: React.FC<SettingsDrawerProps> = ({
                 </div>
               </div>
             </div>
+            {/* Audio Effects */}
+            <div>
+              <h3 className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-2 px-1">
+                {t("audioEffects.title")}
+              </h3>
+              <AudioEffectsPanel />
+            </div>
+
             {/* Language Settings */}
             <div>
               <h3 className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-2 px-1">
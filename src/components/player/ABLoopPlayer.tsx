@@ -112,13 +112,13 @@ export const ABLoopPlayer = () => {
         // Loop control - Set A point (start) - , key (comma)
         case ',': 
           e.preventDefault()
-          store.setLoopPoints(store.currentTime, store.loopEnd)
+          store.setLoopPoints(store.currentTime, store.loopEnd, { snap: true })
           break
           
         // Loop control - Set B point (end) - . key (period)
         case '.':
           e.preventDefault()
-          store.setLoopPoints(store.loopStart, store.currentTime)
+          store.setLoopPoints(store.loopStart, store.currentTime, { snap: true })
           break
           
         // Toggle loop on/off - / key (forward slash)
@@ -50,6 +50,7 @@ export const BookmarkDrawer = () => {
     loopStart,
     loopEnd,
     playbackRate,
+    transpose,
     getCurrentMediaBookmarks,
     selectedBookmarkId,
     addBookmark: storeAddBookmark,
@@ -208,6 +209,7 @@ export const BookmarkDrawer = () => {
       loopEnd,
       youtubeId: currentYouTube?.id,
       playbackRate,
+      transpose,
     });
 
     // Copy to clipboard
@@ -47,6 +47,7 @@ export const BookmarkManager = () => {
     loopStart,
     loopEnd,
     playbackRate,
+    transpose,
     getCurrentMediaBookmarks,
     selectedBookmarkId,
     addBookmark: storeAddBookmark,
@@ -198,6 +199,7 @@ export const BookmarkManager = () => {
       loopEnd,
       youtubeId: currentYouTube?.id,
       playbackRate,
+      transpose,
     });
 
     // Copy to clipboard
@@ -3,6 +3,11 @@ import { usePlayerStore } from "../../stores/playerStore";
 import { toast } from "react-hot-toast";
 import { Play, Pause } from "lucide-react";
 import { useShallow } from "zustand/react/shallow";
+import { useAudioProcessor } from "../../hooks/useAudioProcessor";
+import { useMediaElementGraph } from "../../hooks/useMediaElementGraph";
+import { useAudioEffects } from "../../hooks/useAudioEffects";
+import { scheduleLoopCountIn, useMetronome } from "../../hooks/useMetronome";
+import { metronome } from "../../utils/metronome";
 
 interface MediaPlayerProps {
   hiddenMode?: boolean;
@@ -25,6 +30,7 @@ export const MediaPlayer = ({ hiddenMode = false }: MediaPlayerProps) => {
     currentTime,
     volume: masterVolume,
     mediaVolume,
+    isMediaSilenced,
     muted: masterMuted,
     playbackRate,
     loopStart,
@@ -41,6 +47,7 @@ export const MediaPlayer = ({ hiddenMode = false }: MediaPlayerProps) => {
       currentTime: state.currentTime,
       volume: state.volume,
       mediaVolume: state.mediaVolume,
+      isMediaSilenced: state.isMediaSilenced,
       muted: state.muted,
       playbackRate: state.playbackRate,
       loopStart: state.loopStart,
@@ -78,6 +85,27 @@ export const MediaPlayer = ({ hiddenMode = false }: MediaPlayerProps) => {
     [setIsPlaying]
   );
 
+  // Local audio files loop through the Web Audio engine for sample-accurate boundaries
+  const { engineActiveRef, getEnginePosition } = useAudioProcessor(audioRef, safePlay);
+
+  // Click along with whichever side is producing sound
+  const getPlaybackPosition = useCallback(() => {
+    const enginePosition = getEnginePosition();
+    if (enginePosition !== null) return enginePosition;
+    const mediaElement = currentFile?.type.includes("video")
+      ? videoRef.current
+      : audioRef.current;
+    return mediaElement && !mediaElement.paused ? mediaElement.currentTime : null;
+  }, [getEnginePosition, currentFile]);
+  useMetronome(getPlaybackPosition);
+
+  // Transpose and effects for playback the loop engine doesn't handle
+  useAudioEffects();
+  useMediaElementGraph(
+    currentFile?.type.includes("video") ? videoRef : audioRef,
+    currentFile?.url
+  );
+
   // Reset pending play when the media source changes
   useEffect(() => {
     pendingPlayRef.current = false;
@@ -132,12 +160,13 @@ export const MediaPlayer = ({ hiddenMode = false }: MediaPlayerProps) => {
 
     if (isPlaying) {
       if (isDelayingRef.current) return; // Don't interfere if delaying
+      if (engineActiveRef.current) return; // The loop engine is producing sound
       safePlay(mediaElement);
     } else {
       pendingPlayRef.current = false;
       mediaElement.pause();
     }
-  }, [isPlaying, currentFile, setIsPlaying, safePlay]);
+  }, [isPlaying, currentFile, setIsPlaying, safePlay, engineActiveRef]);
 
   // Keep the global playback state aligned with actual media element state.
   // This is required for features like shadowing recording that react to store playback.
@@ -154,7 +183,7 @@ export const MediaPlayer = ({ hiddenMode = false }: MediaPlayerProps) => {
     };
 
     const handlePause = () => {
-      if (isDelayingRef.current || mediaElement.ended) return;
+      if (isDelayingRef.current || engineActiveRef.current || mediaElement.ended) return;
       if (usePlayerStore.getState().isPlaying) {
         setIsPlaying(false);
       }
@@ -167,7 +196,7 @@ export const MediaPlayer = ({ hiddenMode = false }: MediaPlayerProps) => {
       mediaElement.removeEventListener("play", handlePlay);
       mediaElement.removeEventListener("pause", handlePause);
     };
-  }, [currentFile, setIsPlaying]);
+  }, [currentFile, setIsPlaying, engineActiveRef]);
 
   // Handle volume changes
   useEffect(() => {
@@ -177,9 +206,9 @@ export const MediaPlayer = ({ hiddenMode = false }: MediaPlayerProps) => {
     if (!mediaElement) return;
 
     // Calculate effective volume
-    const effectiveVolume = masterMuted ? 0 : (masterVolume * mediaVolume);
+    const effectiveVolume = masterMuted || isMediaSilenced ? 0 : (masterVolume * mediaVolume);
     mediaElement.volume = effectiveVolume;
-  }, [masterVolume, mediaVolume, masterMuted, currentFile]);
+  }, [masterVolume, mediaVolume, masterMuted, isMediaSilenced, currentFile]);
 
   // Handle playback rate changes
   useEffect(() => {
@@ -189,6 +218,15 @@ export const MediaPlayer = ({ hiddenMode = false }: MediaPlayerProps) => {
     if (!mediaElement) return;
 
     mediaElement.playbackRate = playbackRate;
+    // Keep the pitch steady at any speed; transpose is applied separately.
+    // Some browsers default to resampling or only know the prefixed property.
+    const element = mediaElement as HTMLMediaElement & {
+      mozPreservesPitch?: boolean;
+      webkitPreservesPitch?: boolean;
+    };
+    element.preservesPitch = true;
+    element.mozPreservesPitch = true;
+    element.webkitPreservesPitch = true;
   }, [playbackRate, currentFile]);
 
   // Handle manual seeking when UI slider is moved
@@ -202,6 +240,8 @@ export const MediaPlayer = ({ hiddenMode = false }: MediaPlayerProps) => {
 
     // Add listener for manual seeking from UI controls
     const handleUserSeeking = () => {
+      // The loop engine follows store seeks on its own
+      if (engineActiveRef.current) return;
       if (document.body.classList.contains("user-seeking")) {
         // Cancel any active delay
         isDelayingRef.current = false;
@@ -244,7 +284,7 @@ export const MediaPlayer = ({ hiddenMode = false }: MediaPlayerProps) => {
       observer.disconnect();
       unsubscribe();
     };
-  }, [currentFile, isPlaying]);
+  }, [currentFile, isPlaying, engineActiveRef]);
 
   // Handle A-B loop
   useEffect(() => {
@@ -254,6 +294,8 @@ export const MediaPlayer = ({ hiddenMode = false }: MediaPlayerProps) => {
     if (!mediaElement) return;
 
     const handleTimeUpdate = () => {
+      // The loop engine reports time and handles loop boundaries itself
+      if (engineActiveRef.current) return;
       const currentTimeValue = mediaElement.currentTime;
       if (Math.abs(currentTimeValue - lastReportedTimeRef.current) >= 0.05) {
         lastReportedTimeRef.current = currentTimeValue;
@@ -263,72 +305,60 @@ export const MediaPlayer = ({ hiddenMode = false }: MediaPlayerProps) => {
       // Handle A-B looping
       if (isLooping && loopStart !== null && loopEnd !== null) {
         const startBuffer = 0.02; // 20ms buffer for start boundary only
+        // Pre/post-roll pad each pass; crossfades need the loop engine
+        const { preRoll, postRoll } = usePlayerStore.getState().getLoopShaping();
 
         // Only jump back when we actually exceed the end time
         // Use a small tolerance to account for timing precision
-        if (currentTimeValue >= loopEnd + 0.005) {
+        if (currentTimeValue >= loopEnd + postRoll + 0.005) {
           if (isDelayingRef.current) return;
 
-          const state = usePlayerStore.getState();
-          const {
-            autoAdvanceBookmarks, selectedBookmarkId, getCurrentMediaBookmarks, loadBookmark,
-            maxLoops, loopCount, setLoopCount, setIsLooping, loopDelay
-          } = state;
-
-          // Increment loop counter
-          const nextCount = (loopCount || 0) + 1;
-          setLoopCount(nextCount);
-
-          // Check if we reached max loops
-          const isDone = maxLoops > 0 && nextCount >= maxLoops;
-
-          if (isDone) {
-            // If auto-advance enabled, move to next bookmark
-            if (autoAdvanceBookmarks && selectedBookmarkId) {
-              const list = (getCurrentMediaBookmarks?.() || []).slice().sort((a, b) => a.start - b.start);
-              const idx = list.findIndex((b) => b.id === selectedBookmarkId);
-              if (list.length > 0) {
-                const next = list[(idx + 1 + list.length) % list.length];
-                if (next) {
-                  loadBookmark?.(next.id);
-                  mediaElement.currentTime = next.start;
-                  return;
-                }
-              }
-            }
-            // Otherwise just stop looping and continue playing linear
-            setIsLooping(false);
+          // Count the pass and let the store decide what happens next
+          const pass = usePlayerStore.getState().completeLoopPass();
+
+          if (pass.action === "release") return;
+          if (pass.action === "stop") {
+            setIsPlaying(false);
             return;
           }
 
-          // Continue looping (infinite or not yet reached max)
           // Handle delay if set
-          if (loopDelay > 0) {
+          if (pass.delay > 0) {
             isDelayingRef.current = true;
             mediaElement.pause();
+            if (pass.countIn > 0) {
+              scheduleLoopCountIn(metronome.now() + pass.delay, pass.countIn);
+            }
 
             setTimeout(() => {
               // Valid check: ensuring we are still meant to loop
               const currentState = usePlayerStore.getState();
               if (currentState.isLooping && currentState.loopStart !== null) {
-                mediaElement.currentTime = currentState.loopStart;
+                mediaElement.currentTime = Math.max(
+                  0,
+                  currentState.loopStart - currentState.getLoopShaping().preRoll
+                );
                 mediaElement.play().catch(e => console.error("Play after gap failed", e));
               }
               isDelayingRef.current = false;
-            }, loopDelay * 1000);
+            }, pass.delay * 1000);
             return;
           }
 
-          mediaElement.currentTime = loopStart;
+          // Shaping is read again since the pass may have moved to another bookmark
+          mediaElement.currentTime = Math.max(
+            0,
+            pass.start - usePlayerStore.getState().getLoopShaping().preRoll
+          );
           // keep looping current A-B by default
         } else if (
-          currentTimeValue < loopStart - startBuffer &&
+          currentTimeValue < loopStart - preRoll - startBuffer &&
           currentTimeValue > 0
         ) {
           // If somehow we're before the start point (e.g., user dragged the slider)
           // Don't jump if delaying or seeking
           if (!isDelayingRef.current && !document.body.classList.contains("user-seeking")) {
-            mediaElement.currentTime = loopStart;
+            mediaElement.currentTime = Math.max(0, loopStart - preRoll);
             console.log("Loop: Jumping to start point", loopStart);
           }
         }
@@ -341,7 +371,7 @@ export const MediaPlayer = ({ hiddenMode = false }: MediaPlayerProps) => {
     return () => {
       mediaElement.removeEventListener("timeupdate", handleTimeUpdate);
     };
-  }, [currentFile, isLooping, loopStart, loopEnd, setCurrentTime]);
+  }, [currentFile, isLooping, loopStart, loopEnd, setCurrentTime, setIsPlaying, engineActiveRef]);
 
   // Add a listener for seeking to handle manual seeking
   useEffect(() => {
@@ -352,6 +382,7 @@ export const MediaPlayer = ({ hiddenMode = false }: MediaPlayerProps) => {
 
     // Create a variable to track the last time we showed a toast
     const handleSeeking = () => {
+      if (engineActiveRef.current) return;
       // When user manually seeks, check if we need to enforce loop boundaries
       if (isLooping && loopStart !== null && loopEnd !== null) {
         const currentTimeValue = mediaElement.currentTime;
@@ -369,7 +400,7 @@ export const MediaPlayer = ({ hiddenMode = false }: MediaPlayerProps) => {
     return () => {
       mediaElement.removeEventListener("seeking", handleSeeking);
     };
-  }, [currentFile, isLooping, loopStart, loopEnd]);
+  }, [currentFile, isLooping, loopStart, loopEnd, engineActiveRef]);
 
   // Handle seeking from the store (for rewind/fast forward buttons)
   useEffect(() => {
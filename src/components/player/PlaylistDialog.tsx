@@ -0,0 +1,322 @@
+import { useEffect, useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useShallow } from "zustand/react/shallow";
+import { ArrowDown, ArrowUp, Play, Plus, Square, Trash2 } from "lucide-react";
+import { usePlayerStore, PlaylistItem } from "../../stores/playerStore";
+import { formatTime } from "../../utils/formatTime";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "../ui/dialog";
+import { cn } from "../../utils/cn";
+
+interface PlaylistDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const selectClassName =
+  "h-9 rounded-md border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-800 px-2 text-sm text-gray-700 dark:text-gray-300 focus:outline-none focus:ring-2 focus:ring-purple-500";
+
+export const PlaylistDialog = ({ open, onOpenChange }: PlaylistDialogProps) => {
+  const { t } = useTranslation();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [newName, setNewName] = useState("");
+
+  const {
+    mediaId,
+    mediaPlaylists,
+    mediaBookmarks,
+    activePlaylist,
+    createPlaylist,
+    renamePlaylist,
+    deletePlaylist,
+    setPlaylistItems,
+    startPlaylist,
+    stopPlaylist,
+  } = usePlayerStore(
+    useShallow((state) => ({
+      mediaId: state.getCurrentMediaId(),
+      mediaPlaylists: state.mediaPlaylists,
+      mediaBookmarks: state.mediaBookmarks,
+      activePlaylist: state.activePlaylist,
+      createPlaylist: state.createPlaylist,
+      renamePlaylist: state.renamePlaylist,
+      deletePlaylist: state.deletePlaylist,
+      setPlaylistItems: state.setPlaylistItems,
+      startPlaylist: state.startPlaylist,
+      stopPlaylist: state.stopPlaylist,
+    }))
+  );
+
+  const playlists = useMemo(
+    () => (mediaId ? mediaPlaylists[mediaId] || [] : []),
+    [mediaId, mediaPlaylists]
+  );
+  const bookmarks = useMemo(
+    () => (mediaId ? mediaBookmarks[mediaId] || [] : []),
+    [mediaId, mediaBookmarks]
+  );
+  const playlist = playlists.find((p) => p.id === selectedId) ?? null;
+
+  // Keep a valid selection as playlists are created and deleted
+  useEffect(() => {
+    if (!playlists.some((p) => p.id === selectedId)) {
+      setSelectedId(activePlaylist?.playlistId ?? playlists[0]?.id ?? null);
+    }
+  }, [playlists, selectedId, activePlaylist]);
+
+  const handleCreate = () => {
+    const name = newName.trim() || t("playlists.defaultName", { count: playlists.length + 1 });
+    const id = createPlaylist(name);
+    if (id) {
+      setSelectedId(id);
+      setNewName("");
+    }
+  };
+
+  const updateItem = (index: number, changes: Partial<PlaylistItem>) => {
+    if (!playlist) return;
+    setPlaylistItems(
+      playlist.id,
+      playlist.items.map((item, i) => (i === index ? { ...item, ...changes } : item))
+    );
+  };
+
+  const moveItem = (index: number, offset: number) => {
+    if (!playlist) return;
+    const target = index + offset;
+    if (target < 0 || target >= playlist.items.length) return;
+    const items = playlist.items.slice();
+    [items[index], items[target]] = [items[target], items[index]];
+    setPlaylistItems(playlist.id, items);
+  };
+
+  const addItem = (bookmarkId: string) => {
+    if (!playlist || !bookmarkId) return;
+    setPlaylistItems(playlist.id, [
+      ...playlist.items,
+      { bookmarkId, repeats: 3, preGap: 0, postGap: 1 },
+    ]);
+  };
+
+  const isRunning = !!playlist && activePlaylist?.playlistId === playlist.id;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{t("playlists.title")}</DialogTitle>
+          <DialogDescription>{t("playlists.description")}</DialogDescription>
+        </DialogHeader>
+
+        {/* Playlist picker */}
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={selectedId ?? ""}
+            onChange={(e) => setSelectedId(e.target.value || null)}
+            className={cn(selectClassName, "flex-1 min-w-[140px]")}
+            disabled={playlists.length === 0}
+          >
+            {playlists.length === 0 && <option value="">{t("playlists.none")}</option>}
+            {playlists.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.name}
+              </option>
+            ))}
+          </select>
+          <Input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleCreate()}
+            placeholder={t("playlists.namePlaceholder")}
+            className="h-9 w-40"
+          />
+          <Button variant="outline" size="sm" onClick={handleCreate} className="gap-1">
+            <Plus className="h-4 w-4" />
+            {t("playlists.create")}
+          </Button>
+        </div>
+
+        {playlist && (
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <Input
+                value={playlist.name}
+                onChange={(e) => renamePlaylist(playlist.id, e.target.value)}
+                aria-label={t("playlists.rename")}
+                className="h-9 flex-1"
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => deletePlaylist(playlist.id)}
+                aria-label={t("playlists.delete")}
+                title={t("playlists.delete")}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+
+            {/* Items */}
+            <div className="max-h-[40vh] overflow-y-auto rounded-md border border-gray-200 dark:border-gray-700">
+              <div className="grid grid-cols-[1fr_repeat(4,4.5rem)_auto] items-center gap-2 px-3 py-2 text-xs text-gray-500 dark:text-gray-400 border-b border-gray-100 dark:border-gray-800">
+                <span>{t("playlists.bookmark")}</span>
+                <span>{t("loop.repeats")}</span>
+                <span>{t("playlists.rate")}</span>
+                <span>{t("playlists.preGap")}</span>
+                <span>{t("playlists.postGap")}</span>
+                <span />
+              </div>
+              {playlist.items.length === 0 && (
+                <p className="px-3 py-4 text-sm text-gray-500 dark:text-gray-400">
+                  {t("playlists.noItems")}
+                </p>
+              )}
+              {playlist.items.map((item, index) => {
+                const bookmark = bookmarks.find((b) => b.id === item.bookmarkId);
+                const isCurrent = isRunning && activePlaylist?.itemIndex === index;
+                return (
+                  <div
+                    key={`${item.bookmarkId}-${index}`}
+                    className={cn(
+                      "grid grid-cols-[1fr_repeat(4,4.5rem)_auto] items-center gap-2 px-3 py-1.5",
+                      isCurrent && "bg-purple-50 dark:bg-purple-900/30"
+                    )}
+                  >
+                    <button
+                      type="button"
+                      onClick={() => startPlaylist(playlist.id, index)}
+                      className="truncate text-left text-sm text-gray-800 dark:text-gray-200 hover:text-purple-600"
+                      title={t("playlists.playFromHere")}
+                    >
+                      {bookmark
+                        ? `${bookmark.name} (${formatTime(bookmark.start)}–${formatTime(bookmark.end)})`
+                        : t("playlists.missingBookmark")}
+                    </button>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={99}
+                      value={item.repeats}
+                      onChange={(e) => updateItem(index, { repeats: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                      className="h-8 px-2"
+                      title={t("playlists.repeatsHint")}
+                    />
+                    <Input
+                      type="number"
+                      min={0.25}
+                      max={2}
+                      step={0.05}
+                      value={item.playbackRate ?? ""}
+                      placeholder={bookmark?.playbackRate?.toFixed(2) ?? "—"}
+                      onChange={(e) => {
+                        const rate = parseFloat(e.target.value);
+                        updateItem(index, {
+                          playbackRate: isNaN(rate) ? undefined : Math.max(0.25, Math.min(2, rate)),
+                        });
+                      }}
+                      className="h-8 px-2"
+                    />
+                    <Input
+                      type="number"
+                      min={0}
+                      max={30}
+                      step={0.5}
+                      value={item.preGap}
+                      onChange={(e) => updateItem(index, { preGap: Math.max(0, parseFloat(e.target.value) || 0) })}
+                      className="h-8 px-2"
+                    />
+                    <Input
+                      type="number"
+                      min={0}
+                      max={30}
+                      step={0.5}
+                      value={item.postGap}
+                      onChange={(e) => updateItem(index, { postGap: Math.max(0, parseFloat(e.target.value) || 0) })}
+                      className="h-8 px-2"
+                    />
+                    <div className="flex items-center">
+                      <button
+                        type="button"
+                        onClick={() => moveItem(index, -1)}
+                        disabled={index === 0}
+                        className="p-1 text-gray-500 hover:text-gray-900 disabled:opacity-30 dark:hover:text-gray-100"
+                        aria-label={t("playlists.moveUp")}
+                      >
+                        <ArrowUp className="h-3.5 w-3.5" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => moveItem(index, 1)}
+                        disabled={index === playlist.items.length - 1}
+                        className="p-1 text-gray-500 hover:text-gray-900 disabled:opacity-30 dark:hover:text-gray-100"
+                        aria-label={t("playlists.moveDown")}
+                      >
+                        <ArrowDown className="h-3.5 w-3.5" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setPlaylistItems(
+                            playlist.id,
+                            playlist.items.filter((_, i) => i !== index)
+                          )
+                        }
+                        className="p-1 text-gray-500 hover:text-red-600"
+                        aria-label={t("playlists.removeItem")}
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <select
+                value=""
+                onChange={(e) => addItem(e.target.value)}
+                className={selectClassName}
+                disabled={bookmarks.length === 0}
+              >
+                <option value="">
+                  {bookmarks.length === 0 ? t("playlists.noBookmarks") : t("playlists.addBookmark")}
+                </option>
+                {bookmarks
+                  .slice()
+                  .sort((a, b) => a.start - b.start)
+                  .map((b) => (
+                    <option key={b.id} value={b.id}>
+                      {b.name}
+                    </option>
+                  ))}
+              </select>
+              {isRunning ? (
+                <Button variant="outline" onClick={stopPlaylist} className="gap-2">
+                  <Square className="h-4 w-4" />
+                  {t("playlists.stop")}
+                </Button>
+              ) : (
+                <Button
+                  onClick={() => startPlaylist(playlist.id)}
+                  disabled={playlist.items.length === 0}
+                  className="gap-2"
+                >
+                  <Play className="h-4 w-4" />
+                  {t("playlists.start")}
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
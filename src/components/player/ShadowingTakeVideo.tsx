@@ -0,0 +1,146 @@
+import { ReactNode, useEffect, useRef, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { VideoOff } from "lucide-react";
+import { usePlayerStore } from "../../stores/playerStore";
+import { ShadowingSegment, useShadowingStore } from "../../stores/shadowingStore";
+import { retrieveMediaFile } from "../../utils/mediaStorage";
+import { selectHeardTakes, takeFileTime } from "../../utils/shadowingTakes";
+import { cn } from "../../utils/cn";
+
+const EMPTY_TAKES: ShadowingSegment[] = [];
+const MAX_DRIFT_SECONDS = 0.15; // Re-seek the take video when it is further off the playhead
+
+const videoClassName = "h-full w-full rounded-lg bg-black object-contain";
+
+// Mirrored like a mirror, which is how learners expect to see themselves
+const CameraPreview = ({ stream }: { stream: MediaStream }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.srcObject = stream;
+  }, [stream]);
+
+  return <video ref={videoRef} autoPlay muted playsInline className={cn(videoClassName, "-scale-x-100")} />;
+};
+
+/**
+ * A take's video, kept on the playhead. It plays muted: the take itself is
+ * heard through useShadowingPlayer.
+ */
+const TakeVideo = ({ take }: { take: ShadowingSegment }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!take.videoStorageId) return;
+    let cancelled = false;
+    let objectUrl: string | null = null;
+    retrieveMediaFile(take.videoStorageId)
+      .then((file) => {
+        if (!file || cancelled) return;
+        objectUrl = URL.createObjectURL(file);
+        setUrl(objectUrl);
+      })
+      .catch((error) => console.error("Failed to load take video:", error));
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+      setUrl(null);
+    };
+  }, [take.videoStorageId]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !url) return;
+
+    const sync = () => {
+      const { currentTime, isPlaying, playbackRate } = usePlayerStore.getState();
+      const fileTime = takeFileTime(take, currentTime);
+      if (fileTime === null) {
+        video.pause();
+        return;
+      }
+      video.playbackRate = playbackRate;
+      if (Math.abs(video.currentTime - fileTime) > MAX_DRIFT_SECONDS) {
+        video.currentTime = fileTime;
+      }
+      if (isPlaying && video.paused) {
+        video.play().catch((error) => console.error("Failed to play take video:", error));
+      } else if (!isPlaying && !video.paused) {
+        video.pause();
+      }
+    };
+
+    video.addEventListener("loadedmetadata", sync);
+    sync();
+    const unsubscribe = usePlayerStore.subscribe(sync);
+    return () => {
+      unsubscribe();
+      video.removeEventListener("loadedmetadata", sync);
+      video.pause();
+    };
+  }, [take, url]);
+
+  return url ? <video ref={videoRef} src={url} muted playsInline className={videoClassName} /> : null;
+};
+
+/**
+ * Shows the learner next to the source: the video of the take heard at the
+ * playhead, or the live camera while recording and where no take has video.
+ * Renders the source alone unless the media has video takes or the camera is
+ * open.
+ */
+export const ShadowingVideoLayout = ({ children }: { children: ReactNode }) => {
+  const { t } = useTranslation();
+  const mediaId = usePlayerStore((state) => state.getCurrentMediaId());
+  const takes = useShadowingStore((state) => (mediaId && state.sessions[mediaId]?.segments) || EMPTY_TAKES);
+  const cameraStream = useShadowingStore((state) => state.cameraStream);
+  const isRecording = useShadowingStore((state) => state.isRecording);
+  const layout = useShadowingStore((state) => state.takeVideoLayout);
+  const auditionTakeId = useShadowingStore((state) => state.auditionTakeId);
+  const auditionSource = useShadowingStore((state) => state.auditionSource);
+
+  // Only the id is selected, so the layout re-renders when another take comes up rather than on every tick
+  const takeId = usePlayerStore((state) =>
+    isRecording
+      ? null
+      : (selectHeardTakes(takes, auditionTakeId, auditionSource).find(
+          (take) => take.videoStorageId && takeFileTime(take, state.currentTime) !== null
+        )?.id ?? null)
+  );
+  const take = takes.find((item) => item.id === takeId);
+
+  if (!cameraStream && !takes.some((item) => item.videoStorageId)) {
+    return <>{children}</>;
+  }
+
+  const learner = take ? (
+    <TakeVideo key={take.id} take={take} />
+  ) : cameraStream ? (
+    <CameraPreview stream={cameraStream} />
+  ) : (
+    <div className="flex h-full w-full flex-col items-center justify-center gap-1 rounded-lg bg-black/80 text-xs text-white/50">
+      <VideoOff size={18} />
+      {t("shadowing.noTakeVideo")}
+    </div>
+  );
+
+  if (layout === "pip") {
+    return (
+      <div className="relative">
+        {children}
+        <div className="absolute bottom-14 right-3 z-30 aspect-[4/3] w-1/4 min-w-[120px] overflow-hidden rounded-lg shadow-lg ring-1 ring-white/20">
+          {learner}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-2 items-center gap-2">
+      <div className="min-w-0">{children}</div>
+      <div className="aspect-[4/3] min-w-0">{learner}</div>
+    </div>
+  );
+};
@@ -3,6 +3,8 @@ import { usePlayerStore } from "../../stores/playerStore";
 import { toast } from "react-hot-toast";
 import { useTranslation } from "react-i18next";
 import { useShallow } from "zustand/react/shallow";
+import { scheduleLoopCountIn } from "../../hooks/useMetronome";
+import { metronome } from "../../utils/metronome";
 
 // Define YouTube player interface
 interface YTPlayer {
@@ -70,11 +72,15 @@ export const YouTubePlayer = ({
   const [isSeeking, setIsSeeking] = useState(false);
   const playerRef = useRef<HTMLDivElement>(null);
   const lastSeekTime = useRef<number>(0);
+  // Set while playback waits out the gap between loop passes
+  const isDelayingRef = useRef(false);
+  const delayTimerRef = useRef<number | null>(null);
 
   const {
     isPlaying,
     volume: masterVolume,
     mediaVolume,
+    isMediaSilenced,
     muted: masterMuted,
     playbackRate,
     loopStart,
@@ -89,6 +95,7 @@ export const YouTubePlayer = ({
       isPlaying: state.isPlaying,
       volume: state.volume,
       mediaVolume: state.mediaVolume,
+      isMediaSilenced: state.isMediaSilenced,
       muted: state.muted,
       playbackRate: state.playbackRate,
       loopStart: state.loopStart,
@@ -150,6 +157,8 @@ export const YouTubePlayer = ({
             setCurrentTime(currentTime);
             lastSeekTime.current = Date.now();
           } else if (event.data === window.YT.PlayerState.PAUSED) {
+            // Paused for the gap between loop passes, not by the user
+            if (isDelayingRef.current) return;
             setIsPlaying(false);
             // User may have paused to seek
             setIsSeeking(true);
@@ -203,9 +212,9 @@ export const YouTubePlayer = ({
     if (!player) return;
 
     // Calculate effective volume (0-100 for YouTube)
-    const effectiveVolume = masterMuted ? 0 : (masterVolume * mediaVolume);
+    const effectiveVolume = masterMuted || isMediaSilenced ? 0 : (masterVolume * mediaVolume);
     player.setVolume(effectiveVolume * 100);
-  }, [masterVolume, mediaVolume, masterMuted, player]);
+  }, [masterVolume, mediaVolume, masterMuted, isMediaSilenced, player]);
 
   // Handle playback rate changes
   useEffect(() => {
@@ -269,21 +278,55 @@ export const YouTubePlayer = ({
         loopEnd !== null
       ) {
         const startBuffer = 0.02; // 20ms buffer for start boundary only
+        // Pre/post-roll pad each pass; crossfades need the loop engine
+        const { preRoll, postRoll } = usePlayerStore.getState().getLoopShaping();
 
         // Only jump back when we reach or exceed the end time
         // Use a small tolerance to account for timing precision
-        if (playerTime >= loopEnd + 0.005) {
-          player.seekTo(loopStart, true);
+        if (playerTime >= loopEnd + postRoll + 0.005) {
+          if (isDelayingRef.current) return;
+
+          // Count the pass and let the store decide what happens next
+          const pass = usePlayerStore.getState().completeLoopPass();
+
+          if (pass.action === "release") return;
+          if (pass.action === "stop") {
+            setIsPlaying(false);
+            return;
+          }
+
+          if (pass.delay > 0) {
+            isDelayingRef.current = true;
+            player.pauseVideo();
+            if (pass.countIn > 0) {
+              scheduleLoopCountIn(metronome.now() + pass.delay, pass.countIn);
+            }
+
+            delayTimerRef.current = window.setTimeout(() => {
+              delayTimerRef.current = null;
+              isDelayingRef.current = false;
+              // Still meant to loop, and not paused from the app during the gap
+              const currentState = usePlayerStore.getState();
+              if (currentState.isLooping && currentState.loopStart !== null && currentState.isPlaying) {
+                player.seekTo(Math.max(0, currentState.loopStart - currentState.getLoopShaping().preRoll), true);
+                player.playVideo();
+              }
+            }, pass.delay * 1000);
+            return;
+          }
+
+          // Shaping is read again since the pass may have moved to another bookmark
+          player.seekTo(Math.max(0, pass.start - usePlayerStore.getState().getLoopShaping().preRoll), true);
           console.log(
             `YouTube Loop: Audio reached ${playerTime.toFixed(
               3
             )}s, end was ${loopEnd.toFixed(
               3
-            )}s, jumping back to ${loopStart.toFixed(3)}s`
+            )}s, jumping back to ${pass.start.toFixed(3)}s`
           );
-        } else if (playerTime < loopStart - startBuffer && playerTime > 0) {
+        } else if (playerTime < loopStart - preRoll - startBuffer && playerTime > 0 && !isDelayingRef.current) {
           // If somehow we're before the start point (e.g., user dragged the slider)
-          player.seekTo(loopStart, true);
+          player.seekTo(Math.max(0, loopStart - preRoll), true);
           console.log("YouTube Loop: Jumping to start point", loopStart);
         }
       }
@@ -298,7 +341,12 @@ export const YouTubePlayer = ({
     return () => {
       clearInterval(checkInterval);
     };
-  }, [player, isPlaying, isLooping, isSeeking, loopStart, loopEnd, setCurrentTime]);
+  }, [player, isPlaying, isLooping, isSeeking, loopStart, loopEnd, setCurrentTime, setIsPlaying]);
+
+  // The player is destroyed on unmount, so a pending gap must not resume it
+  useEffect(() => () => {
+    if (delayTimerRef.current !== null) window.clearTimeout(delayTimerRef.current);
+  }, []);
 
   // For hidden mode, render a minimal container but still initialize the player
   if (hiddenMode) {
@@ -0,0 +1,213 @@
+import { Fragment, useEffect, useRef, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Check, Headphones, RotateCcw } from "lucide-react";
+import {
+  usePlayerStore,
+  DictationAttempt,
+  TranscriptSegment,
+} from "../../stores/playerStore";
+import { DictationResult, DictationToken, scoreDictation } from "../../utils/dictationDiff";
+import { Textarea } from "../ui/textarea";
+import { cn } from "../../utils/cn";
+
+const EMPTY_ATTEMPTS: DictationAttempt[] = [];
+// Attempts shown in the progress line
+const RECENT_ATTEMPTS = 5;
+
+const scoreColor = (score: number) =>
+  score >= 90
+    ? "text-green-700 bg-green-100 dark:text-green-300 dark:bg-green-900/30"
+    : score >= 60
+      ? "text-amber-700 bg-amber-100 dark:text-amber-300 dark:bg-amber-900/30"
+      : "text-red-700 bg-red-100 dark:text-red-300 dark:bg-red-900/30";
+
+/**
+ * Dictation attempts for a segment of the current media.
+ */
+const useDictationAttempts = (segmentId: string) =>
+  usePlayerStore((state) => {
+    const mediaId = state.getCurrentMediaId();
+    return (mediaId && state.dictationScores[mediaId]?.[segmentId]) || EMPTY_ATTEMPTS;
+  });
+
+/**
+ * Latest dictation score of a segment, with the recent history as a tooltip.
+ */
+export const DictationScoreBadge = ({ segmentId }: { segmentId: string }) => {
+  const { t } = useTranslation();
+  const attempts = useDictationAttempts(segmentId);
+  if (attempts.length === 0) return null;
+
+  const latest = attempts[attempts.length - 1];
+  return (
+    <span
+      className={cn("rounded px-1.5 py-0.5 text-[10px] font-medium tabular-nums", scoreColor(latest.score))}
+      title={t("dictation.history", {
+        scores: attempts.slice(-RECENT_ATTEMPTS).map((attempt) => `${attempt.score}%`).join(" → "),
+        count: attempts.length,
+      })}
+    >
+      {latest.score}%
+    </span>
+  );
+};
+
+const DiffToken = ({ token }: { token: DictationToken }) => {
+  switch (token.status) {
+    case "correct":
+      return <span className="text-gray-800 dark:text-gray-200">{token.expected}</span>;
+    case "missing":
+      return (
+        <span className="rounded bg-red-100 px-0.5 text-red-700 dark:bg-red-900/30 dark:text-red-300">
+          {token.expected}
+        </span>
+      );
+    case "extra":
+      return <span className="text-gray-400 line-through dark:text-gray-500">{token.actual}</span>;
+    case "misspelled":
+      return (
+        <span>
+          <span className="text-amber-600 line-through dark:text-amber-400">{token.actual}</span>
+          <span className="ml-0.5 text-green-700 dark:text-green-400">{token.expected}</span>
+        </span>
+      );
+  }
+};
+
+/**
+ * Expected text with missing, extra and misspelled words marked.
+ */
+export const DictationDiff = ({ result, className }: { result: DictationResult; className?: string }) => (
+  <p className={cn("leading-relaxed", className)}>
+    {result.tokens.map((token, index) => (
+      <Fragment key={index}>
+        {index > 0 && result.spaced && " "}
+        <DiffToken token={token} />
+      </Fragment>
+    ))}
+  </p>
+);
+
+/**
+ * Listening practice for one transcript segment: the text stays hidden while
+ * the learner plays the range and types what they heard, then the answer is
+ * diffed against the text and the score is recorded for the segment.
+ */
+export const DictationExercise = ({ segment }: { segment: TranscriptSegment }) => {
+  const { t } = useTranslation();
+  const [answer, setAnswer] = useState("");
+  const [result, setResult] = useState<DictationResult | null>(null);
+  const attempts = useDictationAttempts(segment.id);
+  const stopListeningRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => () => stopListeningRef.current?.(), []);
+
+  // Play the segment once, pausing at its end
+  const handleListen = () => {
+    stopListeningRef.current?.();
+    const { setIsLooping, setCurrentTime, setIsPlaying } = usePlayerStore.getState();
+    setIsLooping(false);
+    setCurrentTime(Math.max(0, segment.startTime - 0.15));
+    setIsPlaying(true);
+
+    const unsubscribe = usePlayerStore.subscribe((state) => {
+      if (!state.isPlaying) {
+        stop();
+      } else if (state.currentTime >= segment.endTime) {
+        state.setIsPlaying(false);
+        stop();
+      }
+    });
+    const stop = () => {
+      unsubscribe();
+      stopListeningRef.current = null;
+    };
+    stopListeningRef.current = stop;
+  };
+
+  const handleCheck = () => {
+    if (!answer.trim()) return;
+    const scored = scoreDictation(segment.text, answer);
+    setResult(scored);
+    usePlayerStore.getState().recordDictationAttempt(segment.id, scored.score);
+  };
+
+  const handleRetry = () => {
+    setAnswer("");
+    setResult(null);
+  };
+
+  const recent = attempts.slice(-RECENT_ATTEMPTS);
+
+  return (
+    <div className="space-y-2">
+      {result ? (
+        <>
+          <DictationDiff result={result} />
+          <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+            <span className={cn("rounded px-1.5 py-0.5 font-medium tabular-nums", scoreColor(result.score))}>
+              {result.score}%
+            </span>
+            <span>
+              {t("dictation.summary", {
+                missing: result.missing,
+                extra: result.extra,
+                misspelled: result.misspelled,
+              })}
+            </span>
+            <button
+              onClick={handleRetry}
+              className="ml-auto inline-flex items-center gap-1 rounded px-2 py-1 text-purple-600 hover:bg-purple-50 dark:text-purple-400 dark:hover:bg-purple-900/30"
+            >
+              <RotateCcw size={12} />
+              {t("dictation.tryAgain")}
+            </button>
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">{segment.text}</p>
+        </>
+      ) : (
+        <>
+          <Textarea
+            value={answer}
+            onChange={(e) => setAnswer(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && !e.shiftKey) {
+                e.preventDefault();
+                handleCheck();
+              }
+            }}
+            placeholder={t("dictation.placeholder")}
+            rows={2}
+            className="min-h-0 text-sm"
+          />
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleListen}
+              className="inline-flex items-center gap-1 rounded-md bg-gray-100 px-2 py-1 text-xs font-medium text-gray-600 transition-colors hover:bg-gray-200 dark:bg-gray-800 dark:text-gray-400 dark:hover:bg-gray-700"
+            >
+              <Headphones size={13} />
+              {t("dictation.listen")}
+            </button>
+            <button
+              onClick={handleCheck}
+              disabled={!answer.trim()}
+              className="inline-flex items-center gap-1 rounded-md bg-purple-600 px-2 py-1 text-xs font-medium text-white transition-colors hover:bg-purple-700 disabled:opacity-40"
+            >
+              <Check size={13} />
+              {t("dictation.check")}
+            </button>
+          </div>
+        </>
+      )}
+
+      {recent.length > 0 && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {t("dictation.progress", {
+            scores: recent.map((attempt) => `${attempt.score}%`).join(" → "),
+            best: Math.max(...attempts.map((attempt) => attempt.score)),
+          })}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -16,6 +16,7 @@ import {
   explanationCache,
   setGlobalExplanationState,
   getGlobalExplanationState,
+  extractKeyWords,
 } from "./explanationState";
 
 interface ExplanationDrawerProps {
@@ -157,6 +158,7 @@ export const ExplanationDrawer: React.FC<ExplanationDrawerProps> = ({
         usage: response.usage,
         model: response.model,
         provider: response.provider,
+        keyWords: extractKeyWords(response.content),
       };
 
       explanationCache.set(text, result);
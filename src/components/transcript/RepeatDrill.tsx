@@ -0,0 +1,192 @@
+import { useEffect } from "react";
+import { useTranslation } from "react-i18next";
+import { Pause, Play, Repeat2, SkipBack, SkipForward, X } from "lucide-react";
+import { TranscriptSegment } from "../../stores/playerStore";
+import { useShadowingStore } from "../../stores/shadowingStore";
+import { useRepeatDrill } from "../../hooks/useRepeatDrill";
+import { checkAudioRecordingSupport } from "../../utils/browserCheck";
+import { cn } from "../../utils/cn";
+
+const REPEAT_COUNTS = [1, 2, 3, 5];
+const GAP_FACTORS = [1, 1.5, 2, 3];
+
+const selectClassName =
+  "h-7 rounded-md border border-gray-200 bg-white px-1.5 text-xs text-gray-700 focus:outline-none focus:ring-2 focus:ring-purple-500/30 dark:border-gray-700 dark:bg-gray-900 dark:text-gray-300";
+
+/**
+ * Controls for the listen-and-repeat drill over the shown transcript
+ * segments. While open, Space starts or pauses the drill, the arrow keys move
+ * between segments, R starts the current segment over and Escape closes it.
+ */
+export const RepeatDrillBar = ({
+  segments,
+  onClose,
+}: {
+  segments: TranscriptSegment[];
+  onClose: () => void;
+}) => {
+  const { t } = useTranslation();
+  const settings = useShadowingStore((state) => state.repeatDrill);
+  const setRepeatDrill = useShadowingStore((state) => state.setRepeatDrill);
+  const drill = useRepeatDrill(segments);
+  const canRecord = checkAudioRecordingSupport().supportsAudioRecording;
+  const { start, pause, next, previous, isRunning } = drill;
+
+  // Registered for the capture phase so these keys do not also reach the player shortcuts
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (
+        e.target instanceof HTMLInputElement ||
+        e.target instanceof HTMLTextAreaElement ||
+        e.target instanceof HTMLSelectElement ||
+        e.ctrlKey ||
+        e.metaKey ||
+        e.altKey
+      ) {
+        return;
+      }
+
+      const actions: Record<string, () => void> = {
+        " ": () => (isRunning ? pause() : start()),
+        ArrowLeft: previous,
+        ArrowRight: next,
+        r: start,
+        R: start,
+        Escape: () => {
+          pause();
+          onClose();
+        },
+      };
+      const action = actions[e.key];
+      if (!action) return;
+      e.preventDefault();
+      e.stopPropagation();
+      action();
+    };
+
+    window.addEventListener("keydown", handleKeyDown, true);
+    return () => window.removeEventListener("keydown", handleKeyDown, true);
+  }, [isRunning, start, pause, next, previous, onClose]);
+
+  return (
+    <div className="space-y-2 border-b border-gray-200 bg-purple-50/60 px-3 py-2 text-xs dark:border-gray-700 dark:bg-purple-900/10">
+      <div className="flex items-center gap-2">
+        <Repeat2 size={14} className="shrink-0 text-purple-600 dark:text-purple-400" />
+        <span className="font-medium text-gray-700 dark:text-gray-300">{t("repeatDrill.title")}</span>
+        <span className="tabular-nums text-gray-500 dark:text-gray-400">
+          {t("repeatDrill.position", { index: drill.index + 1, total: drill.total })}
+        </span>
+        {drill.phase && (
+          <span className="rounded bg-purple-100 px-1.5 py-0.5 text-purple-700 dark:bg-purple-900/40 dark:text-purple-300">
+            {t(`repeatDrill.phases.${drill.phase}`)}
+            {settings.repeats > 1 && ` ${drill.repetition}/${settings.repeats}`}
+          </span>
+        )}
+        <button
+          onClick={() => {
+            pause();
+            onClose();
+          }}
+          className="ml-auto rounded-full p-1 text-gray-500 hover:bg-gray-200 dark:text-gray-400 dark:hover:bg-gray-700"
+          aria-label={t("common.close")}
+        >
+          <X size={14} />
+        </button>
+      </div>
+
+      {drill.segment && (
+        <p className="line-clamp-2 text-sm text-gray-800 dark:text-gray-200">{drill.segment.text}</p>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="flex items-center gap-1">
+          <button
+            onClick={previous}
+            disabled={drill.index === 0}
+            className="rounded-full p-1.5 text-gray-600 hover:bg-gray-200 disabled:opacity-40 dark:text-gray-400 dark:hover:bg-gray-700"
+            title={t("repeatDrill.previous")}
+          >
+            <SkipBack size={14} />
+          </button>
+          <button
+            onClick={isRunning ? pause : start}
+            disabled={drill.total === 0}
+            className="inline-flex items-center gap-1 rounded-md bg-purple-600 px-2 py-1 font-medium text-white transition-colors hover:bg-purple-700 disabled:opacity-40"
+          >
+            {isRunning ? <Pause size={13} /> : <Play size={13} />}
+            {t(isRunning ? "repeatDrill.pause" : drill.index > 0 ? "repeatDrill.resume" : "repeatDrill.start")}
+          </button>
+          <button
+            onClick={next}
+            disabled={drill.index >= drill.total - 1}
+            className="rounded-full p-1.5 text-gray-600 hover:bg-gray-200 disabled:opacity-40 dark:text-gray-400 dark:hover:bg-gray-700"
+            title={t("repeatDrill.next")}
+          >
+            <SkipForward size={14} />
+          </button>
+          {drill.index > 0 && !isRunning && (
+            <button
+              onClick={drill.restart}
+              className="rounded px-1.5 py-1 text-purple-600 hover:bg-purple-100 dark:text-purple-400 dark:hover:bg-purple-900/30"
+            >
+              {t("repeatDrill.restart")}
+            </button>
+          )}
+        </div>
+
+        <div className="ml-auto flex flex-wrap items-center gap-2 text-gray-600 dark:text-gray-400">
+          <label className="flex items-center gap-1">
+            {t("repeatDrill.repeats")}
+            <select
+              value={settings.repeats}
+              onChange={(e) => setRepeatDrill({ repeats: Number(e.target.value) })}
+              className={selectClassName}
+            >
+              {REPEAT_COUNTS.map((count) => (
+                <option key={count} value={count}>
+                  ×{count}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-1" title={t("repeatDrill.gapHelp")}>
+            {t("repeatDrill.gap")}
+            <select
+              value={settings.gapFactor}
+              onChange={(e) => setRepeatDrill({ gapFactor: Number(e.target.value) })}
+              className={selectClassName}
+            >
+              {GAP_FACTORS.map((factor) => (
+                <option key={factor} value={factor}>
+                  ×{factor}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className={cn("flex items-center gap-1", !canRecord && "opacity-40")}>
+            <input
+              type="checkbox"
+              checked={canRecord && settings.record}
+              disabled={!canRecord}
+              onChange={(e) => setRepeatDrill({ record: e.target.checked })}
+              className="accent-purple-600"
+            />
+            {t("repeatDrill.record")}
+          </label>
+          <label className={cn("flex items-center gap-1", !(canRecord && settings.record) && "opacity-40")}>
+            <input
+              type="checkbox"
+              checked={settings.playback}
+              disabled={!(canRecord && settings.record)}
+              onChange={(e) => setRepeatDrill({ playback: e.target.checked })}
+              className="accent-purple-600"
+            />
+            {t("repeatDrill.playback")}
+          </label>
+        </div>
+      </div>
+
+      <p className="text-gray-400 dark:text-gray-500">{t("repeatDrill.keys")}</p>
+    </div>
+  );
+};
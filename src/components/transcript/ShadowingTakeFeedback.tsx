@@ -0,0 +1,67 @@
+import { useMemo } from "react";
+import { useTranslation } from "react-i18next";
+import { Loader2, Mic, RotateCcw } from "lucide-react";
+import { usePlayerStore } from "../../stores/playerStore";
+import { ShadowingSegment, useShadowingStore } from "../../stores/shadowingStore";
+import { scoreDictation } from "../../utils/dictationDiff";
+import { DictationDiff } from "./DictationExercise";
+
+/**
+ * What the transcription provider heard in a shadowing take, diffed against
+ * the transcript text the take covers: omitted words are marked red,
+ * inserted ones struck through and substituted ones shown next to the
+ * expected word.
+ */
+export const ShadowingTakeFeedback = ({
+  take,
+  reference,
+}: {
+  take: ShadowingSegment;
+  reference: string;
+}) => {
+  const { t } = useTranslation();
+  const isTranscribing = useShadowingStore((state) => !!state.transcribingSegments[take.id]);
+  const result = useMemo(
+    () => (take.transcription ? scoreDictation(reference, take.transcription.text) : null),
+    [reference, take.transcription]
+  );
+
+  const handleTranscribe = () => {
+    const mediaId = usePlayerStore.getState().getCurrentMediaId();
+    if (mediaId) {
+      void useShadowingStore.getState().transcribeSegment(mediaId, take.id);
+    }
+  };
+
+  return (
+    <div className="mt-2 rounded border border-gray-200 px-2 py-1.5 text-sm dark:border-gray-700">
+      <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+        <Mic size={12} className="shrink-0 text-emerald-500" />
+        <span>{t("shadowing.takeFeedback")}</span>
+        {result && take.transcription?.text && (
+          <span className="tabular-nums">{t("shadowing.intelligibility", { score: result.score })}</span>
+        )}
+        {isTranscribing ? (
+          <span className="ml-auto inline-flex items-center gap-1">
+            <Loader2 size={12} className="animate-spin" />
+            {t("shadowing.transcribing")}
+          </span>
+        ) : (
+          <button
+            onClick={handleTranscribe}
+            className="ml-auto inline-flex items-center gap-1 rounded px-1.5 py-0.5 text-purple-600 hover:bg-purple-50 dark:text-purple-400 dark:hover:bg-purple-900/30"
+          >
+            {take.transcription && <RotateCcw size={12} />}
+            {t(take.transcription ? "shadowing.retranscribe" : "shadowing.transcribe")}
+          </button>
+        )}
+      </div>
+      {result &&
+        (take.transcription?.text ? (
+          <DictationDiff result={result} className="mt-1" />
+        ) : (
+          <p className="mt-1 text-xs text-gray-400 dark:text-gray-500">{t("shadowing.noSpeech")}</p>
+        ))}
+    </div>
+  );
+};
@@ -3,6 +3,7 @@ import { useTranslation } from "react-i18next";
 import { usePlayerStore } from "../../stores/playerStore";
 import { useShallow } from "zustand/react/shallow";
 import { useSegmentState } from "../../hooks/useSegmentState";
+import { useSegmentPlayCounts } from "../../hooks/useSegmentPlayCounts";
 import { useVirtualizer } from "@tanstack/react-virtual";
 import {
   Loader,
@@ -20,16 +21,38 @@ import {
   PanelLeftClose,
   Download,
   Upload,
+  PenLine,
+  Eye,
+  EyeOff,
+  Repeat2,
 } from "lucide-react";
 import { toast } from "react-hot-toast";
 import { transcriptionService } from "../../services/transcriptionService";
 import { TranscriptionProvider } from "../../types/aiService";
 import { TranscriptUploader } from "./TranscriptUploader";
 import { ExplanationDrawer } from "./ExplanationDrawer";
+import { DictationExercise, DictationScoreBadge } from "./DictationExercise";
+import { RepeatDrillBar } from "./RepeatDrill";
+import { TranscriptSegmentText } from "./TranscriptSegmentText";
+import { ShadowingTakeFeedback } from "./ShadowingTakeFeedback";
+import { ShadowingSegment, useShadowingStore } from "../../stores/shadowingStore";
+import { findTakeReference } from "../../utils/shadowingFeedback";
 import { useNavigate } from "react-router-dom";
 import { breakIntoSentences as utilBreakIntoSentences } from "../../utils/sentenceBreaker";
+import {
+  ClozeSource,
+  TRANSCRIPT_DISPLAY_MODES,
+  TranscriptDisplayMode,
+} from "../../utils/transcriptDisplay";
 
-import { TranscriptSegment as TranscriptSegmentType, LoopBookmark } from "../../stores/playerStore";
+import {
+  TranscriptSegment as TranscriptSegmentType,
+  LoopBookmark,
+  LoopShaping,
+  MAX_LOOP_CROSSFADE,
+  MAX_LOOP_ROLL,
+  MAX_TRANSPOSE,
+} from "../../stores/playerStore";
 import { encodeWAV } from "../../utils/wavEncoder";
 import { Button } from "../ui/button";
 import { Input } from "../ui/input";
@@ -45,6 +68,15 @@ import {
 
 const EMPTY_SEGMENTS: TranscriptSegmentType[] = [];
 const EMPTY_BOOKMARKS: LoopBookmark[] = [];
+const EMPTY_TAKES: ShadowingSegment[] = [];
+
+// A shadowing take and the transcript text it covers
+interface TakeFeedback {
+  take: ShadowingSegment;
+  reference: string;
+}
+
+const EMPTY_TAKE_FEEDBACK: TakeFeedback[] = [];
 
 // WhisperSegment/WhisperResponse types moved to transcriptionService.ts
 
@@ -61,9 +93,13 @@ function formatSegmentTime(seconds: number) {
 const TranscriptSegmentItem = memo(({
   segment,
   bookmarks,
+  dictation,
+  takes,
 }: {
   segment: TranscriptSegmentType;
   bookmarks: LoopBookmark[];
+  dictation: boolean;
+  takes: TakeFeedback[];
 }) => {
   const { t } = useTranslation();
   const [showExplanation, setShowExplanation] = useState(false);
@@ -153,9 +189,12 @@ const TranscriptSegmentItem = memo(({
           } transition-colors`}
       >
         <div className="flex justify-between items-start mb-1">
-          <span className="text-xs text-gray-500 dark:text-gray-400 font-mono">
-            {formatSegmentTime(segment.startTime)} - {formatSegmentTime(segment.endTime)}
-          </span>
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-gray-500 dark:text-gray-400 font-mono">
+              {formatSegmentTime(segment.startTime)} - {formatSegmentTime(segment.endTime)}
+            </span>
+            <DictationScoreBadge segmentId={segment.id} />
+          </div>
 
           <div className="flex space-x-1">
             <button
@@ -213,7 +252,16 @@ const TranscriptSegmentItem = memo(({
           </div>
         </div>
 
-        <p className="text-gray-800 dark:text-gray-200">{segment.text}</p>
+        {dictation ? (
+          <DictationExercise segment={segment} />
+        ) : (
+          <TranscriptSegmentText segment={segment} />
+        )}
+
+        {!dictation &&
+          takes.map(({ take, reference }) => (
+            <ShadowingTakeFeedback key={take.id} take={take} reference={reference} />
+          ))}
       </div>
 
       {showExplanation && (
@@ -252,6 +300,9 @@ export const TranscriptPanel = () => {
     isTranscriptLoading,
     transcriptLanguage,
     setTranscriptLanguage,
+    loopShaping,
+    transcriptDisplay,
+    setTranscriptDisplay,
   } = usePlayerStore(
     useShallow((state) => ({
       currentFile: state.currentFile,
@@ -273,6 +324,9 @@ export const TranscriptPanel = () => {
       isTranscriptLoading: state.isTranscriptLoading,
       transcriptLanguage: state.transcriptLanguage,
       setTranscriptLanguage: state.setTranscriptLanguage,
+      loopShaping: state.loopShaping,
+      transcriptDisplay: state.getCurrentTranscriptDisplay(),
+      setTranscriptDisplay: state.setTranscriptDisplay,
     }))
   );
   const transcriptSegments = usePlayerStore(
@@ -281,8 +335,34 @@ export const TranscriptPanel = () => {
   const bookmarks = usePlayerStore(
     (state) => (mediaId ? state.mediaBookmarks[mediaId] ?? EMPTY_BOOKMARKS : EMPTY_BOOKMARKS)
   );
+  const shadowingTakes = useShadowingStore(
+    (state) => (mediaId ? state.sessions[mediaId]?.segments ?? EMPTY_TAKES : EMPTY_TAKES)
+  );
+
+  // Each shadowing take is shown under the first transcript segment it covers
+  const takesBySegment = useMemo(() => {
+    const grouped = new Map<string, TakeFeedback[]>();
+    shadowingTakes.forEach((take) => {
+      const reference = findTakeReference(take.startTime, take.startTime + take.duration, transcriptSegments);
+      if (!reference) return;
+      grouped.set(reference.anchorId, [
+        ...(grouped.get(reference.anchorId) ?? []),
+        { take, reference: reference.text },
+      ]);
+    });
+    return grouped;
+  }, [shadowingTakes, transcriptSegments]);
 
   const [exportOpen, setExportOpen] = useState(false);
+  // Hides segment text behind a typed-answer exercise
+  const [isDictationMode, setIsDictationMode] = useState(false);
+  const [isDrillOpen, setIsDrillOpen] = useState(false);
+  const [displayMenuOpen, setDisplayMenuOpen] = useState(false);
+
+  useSegmentPlayCounts(
+    transcriptSegments,
+    transcriptDisplay.mode === "hidden" && transcriptDisplay.revealAfterPlays > 0
+  );
 
   const LANGUAGE_OPTIONS = [
     { value: "en-US", label: t("transcript.languages.en-US") },
@@ -341,6 +421,9 @@ export const TranscriptPanel = () => {
   const [editStart, setEditStart] = useState<number>(0);
   const [editEnd, setEditEnd] = useState<number>(0);
   const [editAnnotation, setEditAnnotation] = useState("");
+  // Per-bookmark loop shaping; empty fields fall back to the global defaults
+  const [editShaping, setEditShaping] = useState({ crossfade: "", preRoll: "", postRoll: "" });
+  const [editTranspose, setEditTranspose] = useState("");
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
 
   // Sync active tab with selected bookmark from store (e.g. from waveform interactions)
@@ -402,6 +485,15 @@ export const TranscriptPanel = () => {
     setEditStart(bookmark.start);
     setEditEnd(bookmark.end);
     setEditAnnotation(bookmark.annotation || "");
+    setEditShaping({
+      crossfade:
+        bookmark.shaping?.crossfade !== undefined
+          ? String(Math.round(bookmark.shaping.crossfade * 1000))
+          : "",
+      preRoll: bookmark.shaping?.preRoll !== undefined ? String(bookmark.shaping.preRoll) : "",
+      postRoll: bookmark.shaping?.postRoll !== undefined ? String(bookmark.shaping.postRoll) : "",
+    });
+    setEditTranspose(bookmark.transpose !== undefined ? String(bookmark.transpose) : "");
     setIsEditDialogOpen(true);
   };
 
@@ -413,11 +505,28 @@ export const TranscriptPanel = () => {
       return;
     }
 
+    const parseOverride = (value: string, max: number, scale = 1) => {
+      const parsed = parseFloat(value);
+      return isNaN(parsed) ? undefined : Math.max(0, Math.min(max, parsed / scale));
+    };
+    const shaping: Partial<LoopShaping> = {};
+    const crossfade = parseOverride(editShaping.crossfade, MAX_LOOP_CROSSFADE, 1000);
+    const preRoll = parseOverride(editShaping.preRoll, MAX_LOOP_ROLL);
+    const postRoll = parseOverride(editShaping.postRoll, MAX_LOOP_ROLL);
+    if (crossfade !== undefined) shaping.crossfade = crossfade;
+    if (preRoll !== undefined) shaping.preRoll = preRoll;
+    if (postRoll !== undefined) shaping.postRoll = postRoll;
+    const transpose = parseFloat(editTranspose);
+
     updateBookmark(editingBookmarkId, {
       name: editName.trim(),
       start: editStart,
       end: editEnd,
       annotation: editAnnotation.trim(),
+      shaping: Object.keys(shaping).length > 0 ? shaping : undefined,
+      transpose: isNaN(transpose)
+        ? undefined
+        : Math.round(Math.max(-MAX_TRANSPOSE, Math.min(MAX_TRANSPOSE, transpose)) * 100) / 100,
     });
 
     setIsEditDialogOpen(false);
@@ -1271,6 +1380,118 @@ export const TranscriptPanel = () => {
               )}
             </div>
 
+            <div className="relative">
+              <button
+                onClick={() => setDisplayMenuOpen((o) => !o)}
+                disabled={transcriptSegments.length === 0}
+                className={`p-1.5 rounded-full transition-colors disabled:opacity-40 ${transcriptDisplay.mode !== "full"
+                  ? "bg-purple-100 text-purple-600 dark:bg-purple-900/30 dark:text-purple-400"
+                  : "bg-gray-100 text-gray-600 hover:bg-gray-200 dark:bg-gray-800 dark:text-gray-400 dark:hover:bg-gray-700"
+                  }`}
+                title={t("transcriptDisplay.title")}
+              >
+                {transcriptDisplay.mode === "full" ? <Eye size={16} /> : <EyeOff size={16} />}
+              </button>
+              {displayMenuOpen && (
+                <>
+                  <div className="fixed inset-0 z-10" onClick={() => setDisplayMenuOpen(false)} />
+                  <div className="absolute right-0 top-full z-20 mt-1 w-56 space-y-2 rounded-md border border-gray-200 bg-white p-3 text-xs shadow-md dark:border-gray-700 dark:bg-gray-800">
+                    <label className="block space-y-1">
+                      <span className="text-gray-500 dark:text-gray-400">{t("transcriptDisplay.title")}</span>
+                      <select
+                        value={transcriptDisplay.mode}
+                        onChange={(e) =>
+                          setTranscriptDisplay({ mode: e.target.value as TranscriptDisplayMode })
+                        }
+                        className="w-full rounded-md border border-gray-300 bg-white px-2 py-1 text-gray-700 outline-none focus:border-purple-400 dark:border-gray-600 dark:bg-gray-800 dark:text-gray-300"
+                      >
+                        {TRANSCRIPT_DISPLAY_MODES.map((mode) => (
+                          <option key={mode} value={mode}>
+                            {t(`transcriptDisplay.modes.${mode}`)}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                    {transcriptDisplay.mode === "hidden" && (
+                      <label className="flex items-center justify-between gap-2">
+                        <span className="text-gray-500 dark:text-gray-400">{t("transcriptDisplay.revealAfterPlays")}</span>
+                        <Input
+                          type="number"
+                          min={0}
+                          max={20}
+                          value={transcriptDisplay.revealAfterPlays}
+                          onChange={(e) =>
+                            setTranscriptDisplay({
+                              revealAfterPlays: Math.max(0, Math.min(20, Math.round(Number(e.target.value) || 0))),
+                            })
+                          }
+                          className="h-7 w-16 text-xs"
+                        />
+                      </label>
+                    )}
+                    {transcriptDisplay.mode === "cloze" && (
+                      <>
+                        <select
+                          value={transcriptDisplay.clozeSource}
+                          onChange={(e) =>
+                            setTranscriptDisplay({ clozeSource: e.target.value as ClozeSource })
+                          }
+                          className="w-full rounded-md border border-gray-300 bg-white px-2 py-1 text-gray-700 outline-none focus:border-purple-400 dark:border-gray-600 dark:bg-gray-800 dark:text-gray-300"
+                        >
+                          <option value="interval">{t("transcriptDisplay.clozeSources.interval")}</option>
+                          <option value="keyWords">{t("transcriptDisplay.clozeSources.keyWords")}</option>
+                        </select>
+                        <label className="flex items-center justify-between gap-2">
+                          <span className="text-gray-500 dark:text-gray-400">{t("transcriptDisplay.clozeInterval")}</span>
+                          <Input
+                            type="number"
+                            min={2}
+                            max={10}
+                            value={transcriptDisplay.clozeInterval}
+                            onChange={(e) =>
+                              setTranscriptDisplay({
+                                clozeInterval: Math.max(2, Math.min(10, Math.round(Number(e.target.value) || 2))),
+                              })
+                            }
+                            className="h-7 w-16 text-xs"
+                          />
+                        </label>
+                      </>
+                    )}
+                    {transcriptDisplay.mode !== "full" && (
+                      <p className="text-gray-400 dark:text-gray-500">{t("transcriptDisplay.revealHint")}</p>
+                    )}
+                  </div>
+                </>
+              )}
+            </div>
+
+            <button
+              onClick={() => setIsDictationMode((on) => !on)}
+              disabled={transcriptSegments.length === 0}
+              className={`p-1.5 rounded-full transition-colors disabled:opacity-40 ${isDictationMode
+                ? "bg-purple-100 text-purple-600 dark:bg-purple-900/30 dark:text-purple-400"
+                : "bg-gray-100 text-gray-600 hover:bg-gray-200 dark:bg-gray-800 dark:text-gray-400 dark:hover:bg-gray-700"
+                }`}
+              title={t(isDictationMode ? "dictation.exit" : "dictation.start")}
+              aria-pressed={isDictationMode}
+            >
+              <PenLine size={16} />
+            </button>
+
+            <button
+              onClick={() => setIsDrillOpen((open) => !open)}
+              disabled={transcriptSegments.length === 0}
+              className={`p-1.5 rounded-full transition-colors disabled:opacity-40 ${isDrillOpen
+                ? "bg-purple-100 text-purple-600 dark:bg-purple-900/30 dark:text-purple-400"
+                : "bg-gray-100 text-gray-600 hover:bg-gray-200 dark:bg-gray-800 dark:text-gray-400 dark:hover:bg-gray-700"
+                }`}
+              title={t("repeatDrill.title")}
+              aria-pressed={isDrillOpen}
+            >
+              <Repeat2 size={16} />
+            </button>
+
             <button
               onClick={handleOpenAISettings}
               className="p-1.5 rounded-full bg-gray-100 text-gray-600 hover:bg-gray-200 dark:bg-gray-800 dark:text-gray-400 dark:hover:bg-gray-700"
@@ -1290,6 +1511,10 @@ export const TranscriptPanel = () => {
           </div>
         </div>
 
+        {isDrillOpen && filteredSegments.length > 0 && (
+          <RepeatDrillBar segments={filteredSegments} onClose={() => setIsDrillOpen(false)} />
+        )}
+
         <div
           ref={transcriptRef}
           className="flex-1 min-h-0 max-h-[60vh] overflow-y-auto p-3 text-sm"
@@ -1444,7 +1669,12 @@ export const TranscriptPanel = () => {
                     }}
                     className="pb-2"
                   >
-                    <TranscriptSegmentItem segment={segment} bookmarks={bookmarks} />
+                    <TranscriptSegmentItem
+                      segment={segment}
+                      bookmarks={bookmarks}
+                      dictation={isDictationMode}
+                      takes={takesBySegment.get(segment.id) ?? EMPTY_TAKE_FEEDBACK}
+                    />
                   </div>
                 );
               })}
@@ -1511,6 +1741,53 @@ export const TranscriptPanel = () => {
                 className="h-24"
               />
             </div>
+
+            <div className="space-y-2">
+              <label htmlFor="edit-transpose" className="text-sm font-medium">{t("bookmarks.transpose")}</label>
+              <Input
+                id="edit-transpose"
+                type="number"
+                min={-MAX_TRANSPOSE}
+                max={MAX_TRANSPOSE}
+                step={0.01}
+                value={editTranspose}
+                placeholder="0"
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEditTranspose(e.target.value)}
+              />
+              <p className="text-xs text-gray-500 dark:text-gray-400">{t("bookmarks.transposeHint")}</p>
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium">{t("bookmarks.loopShaping")}</p>
+              <div className="grid grid-cols-3 gap-4">
+                {(
+                  [
+                    ["crossfade", t("bookmarks.crossfadeMs"), MAX_LOOP_CROSSFADE * 1000, 5, Math.round(loopShaping.crossfade * 1000)],
+                    ["preRoll", t("bookmarks.preRoll"), MAX_LOOP_ROLL, 0.1, loopShaping.preRoll],
+                    ["postRoll", t("bookmarks.postRoll"), MAX_LOOP_ROLL, 0.1, loopShaping.postRoll],
+                  ] as const
+                ).map(([key, label, max, step, fallback]) => (
+                  <div key={key} className="space-y-1">
+                    <label htmlFor={`edit-${key}`} className="text-xs text-gray-500 dark:text-gray-400">
+                      {label}
+                    </label>
+                    <Input
+                      id={`edit-${key}`}
+                      type="number"
+                      min="0"
+                      max={max}
+                      step={step}
+                      value={editShaping[key]}
+                      placeholder={String(fallback)}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setEditShaping((prev) => ({ ...prev, [key]: e.target.value }))
+                      }
+                    />
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400">{t("bookmarks.loopShapingHint")}</p>
+            </div>
           </div>
 
           <DialogFooter>
@@ -15,6 +15,7 @@ import {
 } from "lucide-react";
 import { useState, useEffect } from "react";
 import { ExplanationDrawer } from "./ExplanationDrawer";
+import { TranscriptSegmentText } from "./TranscriptSegmentText";
 import { toast } from "react-hot-toast";
 import { useTranslation } from "react-i18next";
 import { useSegmentState } from "../../hooks/useSegmentState";
@@ -327,7 +328,7 @@ export const TranscriptSegment = ({ segment }: TranscriptSegmentProps) => {
         </div>
       </div>
 
-      <p className="text-gray-800 dark:text-gray-200">{segment.text}</p>
+      <TranscriptSegmentText segment={segment} />
 
       {showExplanation && (
         <ExplanationDrawer
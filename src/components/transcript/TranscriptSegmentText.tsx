@@ -0,0 +1,129 @@
+import { useEffect, useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useShallow } from "zustand/react/shallow";
+import { EyeOff } from "lucide-react";
+import {
+  usePlayerStore,
+  TranscriptSegment as TranscriptSegmentType,
+} from "../../stores/playerStore";
+import { buildCloze } from "../../utils/transcriptDisplay";
+import { getGlobalExplanationState, subscribeToExplanation } from "./explanationState";
+
+const EMPTY_KEY_WORDS: string[] = [];
+
+// Key words of the segment's AI explanation, once one has been generated
+const useExplanationKeyWords = (text: string) => {
+  const [keyWords, setKeyWords] = useState(
+    () => getGlobalExplanationState(text).result?.keyWords ?? EMPTY_KEY_WORDS
+  );
+
+  useEffect(() => {
+    const update = () =>
+      setKeyWords(getGlobalExplanationState(text).result?.keyWords ?? EMPTY_KEY_WORDS);
+    update();
+    return subscribeToExplanation(text, update);
+  }, [text]);
+
+  return keyWords;
+};
+
+/**
+ * Segment text in the media's listening mode: shown, hidden until revealed by
+ * a click, the reveal shortcut or enough plays, blurred, or with cloze blanks.
+ */
+export const TranscriptSegmentText = ({ segment }: { segment: TranscriptSegmentType }) => {
+  const { t } = useTranslation();
+  const { display, isRevealed, playCount, revealTranscriptSegment } = usePlayerStore(
+    useShallow((state) => ({
+      display: state.getCurrentTranscriptDisplay(),
+      isRevealed: !!state.revealedSegments[segment.id],
+      playCount: state.segmentPlayCounts[segment.id] ?? 0,
+      revealTranscriptSegment: state.revealTranscriptSegment,
+    }))
+  );
+  const keyWords = useExplanationKeyWords(segment.text);
+
+  const hasKeyWords = display.clozeSource === "keyWords" && keyWords.length > 0;
+  const clozeParts = useMemo(
+    () =>
+      display.mode === "cloze"
+        ? buildCloze(segment.text, display.clozeInterval, hasKeyWords ? keyWords : [])
+        : [],
+    [display.mode, display.clozeInterval, segment.text, hasKeyWords, keyWords]
+  );
+
+  const revealed =
+    isRevealed ||
+    (display.mode === "hidden" &&
+      display.revealAfterPlays > 0 &&
+      playCount >= display.revealAfterPlays);
+  const reveal = () => revealTranscriptSegment(segment.id);
+
+  if (display.mode === "full" || (revealed && display.mode !== "cloze")) {
+    return <p className="text-gray-800 dark:text-gray-200">{segment.text}</p>;
+  }
+
+  if (display.mode === "hidden") {
+    return (
+      <button
+        onClick={reveal}
+        className="flex w-full items-center gap-2 rounded border border-dashed border-gray-300 px-2 py-1.5 text-left text-xs text-gray-500 transition-colors hover:border-purple-400 hover:text-purple-600 dark:border-gray-600 dark:text-gray-400 dark:hover:border-purple-500 dark:hover:text-purple-400"
+      >
+        <EyeOff size={14} className="shrink-0" />
+        <span>{t("transcriptDisplay.clickToReveal")}</span>
+        {display.revealAfterPlays > 0 && (
+          <span className="ml-auto tabular-nums">
+            {t("transcriptDisplay.playsUntilReveal", {
+              count: display.revealAfterPlays - playCount,
+            })}
+          </span>
+        )}
+      </button>
+    );
+  }
+
+  if (display.mode === "blur") {
+    return (
+      <p
+        onClick={reveal}
+        className="cursor-pointer select-none text-gray-800 blur-sm transition-[filter] hover:blur-[3px] dark:text-gray-200"
+        title={t("transcriptDisplay.clickToReveal")}
+      >
+        {segment.text}
+      </p>
+    );
+  }
+
+  return (
+    <>
+      <p className="text-gray-800 dark:text-gray-200">
+        {clozeParts.map((part, index) =>
+          !part.blank ? (
+            <span key={index}>{part.text}</span>
+          ) : revealed ? (
+            <span
+              key={index}
+              className="rounded bg-purple-100 px-0.5 text-purple-700 dark:bg-purple-900/30 dark:text-purple-300"
+            >
+              {part.text}
+            </span>
+          ) : (
+            <span
+              key={index}
+              onClick={reveal}
+              className="cursor-pointer select-none rounded bg-gray-200 px-0.5 text-transparent dark:bg-gray-700"
+              title={t("transcriptDisplay.clickToReveal")}
+            >
+              {part.text}
+            </span>
+          )
+        )}
+      </p>
+      {display.clozeSource === "keyWords" && !hasKeyWords && (
+        <p className="mt-1 text-xs text-gray-400 dark:text-gray-500">
+          {t("transcriptDisplay.noKeyWords")}
+        </p>
+      )}
+    </>
+  );
+};
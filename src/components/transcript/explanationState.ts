@@ -9,6 +9,7 @@ export interface ExplanationResult {
   };
   model: string;
   provider: AIProvider;
+  keyWords?: string[]; // Vocabulary picked out by the explanation, used for cloze deletions
 }
 
 export interface ExplanationState {
@@ -56,3 +57,13 @@ export const subscribeToExplanation = (text: string, listener: () => void): () =
     }
   };
 };
+
+/**
+ * Key words from an explanation: the `word` entries of its 📖 vocabulary
+ * bullets, or of the whole reply when it has no such section.
+ */
+export const extractKeyWords = (explanation: string): string[] => {
+  const vocabulary = explanation.match(/📖([\s\S]*?)(?=💬|🔤|$)/u)?.[1] ?? explanation;
+  const words = Array.from(vocabulary.matchAll(/`([^`\n]+)`/g), (match) => match[1].trim());
+  return Array.from(new Set(words.filter(Boolean)));
+};
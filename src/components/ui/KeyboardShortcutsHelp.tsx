@@ -22,10 +22,13 @@ export const KeyboardShortcutsHelp = () => {
       { key: '.', description: t('shortcuts.items.setLoopEnd') },
       { key: '/', description: t('shortcuts.items.toggleLoop') },
       { key: 'M', description: t('shortcuts.items.quickBookmark') },
+      { key: 'R', description: t('shortcuts.items.revealSegment') },
       { key: '↑', description: t('shortcuts.items.increaseVolume') },
       { key: '↓', description: t('shortcuts.items.decreaseVolume') },
       { key: 'Shift + →', description: t('shortcuts.items.increaseSpeed') },
       { key: 'Shift + ←', description: t('shortcuts.items.decreaseSpeed') },
+      { key: 'Ctrl + Z', description: t('shortcuts.items.undo') },
+      { key: 'Ctrl + Shift + Z', description: t('shortcuts.items.redo') },
     ],
     [t]
   )
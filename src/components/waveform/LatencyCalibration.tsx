@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Loader2, Timer } from "lucide-react";
+import { useShadowingStore } from "../../stores/shadowingStore";
+import { LatencyMeasurement, measureRoundTripLatency } from "../../utils/latencyCalibration";
+
+type CalibrationStep =
+  | { step: "idle" }
+  | { step: "intro" }
+  | { step: "measuring" }
+  | { step: "result"; measurement: LatencyMeasurement }
+  | { step: "failed" };
+
+const toMs = (seconds: number) => Math.round(seconds * 1000);
+
+/**
+ * Measures the round-trip latency of the selected input with a click
+ * loopback through the speakers and stores it for that device; new takes are
+ * moved back by it.
+ */
+export const LatencyCalibration = () => {
+  const { t } = useTranslation();
+  const deviceId = useShadowingStore((state) => state.microphone.deviceId);
+  const isRecording = useShadowingStore((state) => state.isRecording);
+  const deviceKey = deviceId ?? "default";
+  const latency = useShadowingStore((state) => state.latencyOffsets[deviceKey]);
+  const [state, setState] = useState<CalibrationStep>({ step: "idle" });
+
+  const measure = async () => {
+    setState({ step: "measuring" });
+    try {
+      const measurement = await measureRoundTripLatency(deviceId ?? undefined);
+      setState(measurement ? { step: "result", measurement } : { step: "failed" });
+    } catch (error) {
+      console.error("Latency calibration failed:", error);
+      setState({ step: "failed" });
+    }
+  };
+
+  const buttonClass = "rounded-full px-2 py-0.5 transition-colors hover:bg-white/10 disabled:opacity-50";
+
+  return (
+    <div className="space-y-1.5 rounded-lg bg-white/5 px-2 py-1.5">
+      <div className="flex items-center gap-2">
+        <Timer size={12} className="shrink-0" />
+        <span className="flex-1">{t("shadowing.latency")}</span>
+        <span className="font-mono tabular-nums text-white/60">
+          {latency !== undefined ? `${toMs(latency)} ms` : t("shadowing.notCalibrated")}
+        </span>
+      </div>
+
+      {state.step === "idle" && (
+        <div className="flex justify-end gap-1">
+          {latency !== undefined && (
+            <button
+              onClick={() => useShadowingStore.getState().setLatencyOffset(deviceKey, null)}
+              className={`${buttonClass} text-white/50`}
+            >
+              {t("shadowing.resetLatency")}
+            </button>
+          )}
+          <button
+            onClick={() => setState({ step: "intro" })}
+            disabled={isRecording}
+            className={`${buttonClass} text-emerald-300`}
+          >
+            {t("shadowing.calibrate")}
+          </button>
+        </div>
+      )}
+
+      {state.step === "intro" && (
+        <>
+          <p className="text-[10px] text-white/60">{t("shadowing.calibrationIntro")}</p>
+          <div className="flex justify-end gap-1">
+            <button onClick={() => setState({ step: "idle" })} className={`${buttonClass} text-white/50`}>
+              {t("common.cancel")}
+            </button>
+            <button onClick={measure} disabled={isRecording} className={`${buttonClass} text-emerald-300`}>
+              {t("shadowing.startCalibration")}
+            </button>
+          </div>
+        </>
+      )}
+
+      {state.step === "measuring" && (
+        <p className="flex items-center gap-1.5 text-white/60">
+          <Loader2 size={12} className="animate-spin" />
+          {t("shadowing.calibrating")}
+        </p>
+      )}
+
+      {state.step === "result" && (
+        <>
+          <p className="text-white/70">
+            {t("shadowing.calibrationResult", { ms: toMs(state.measurement.latency) })}
+          </p>
+          <div className="flex justify-end gap-1">
+            <button onClick={measure} className={`${buttonClass} text-white/50`}>
+              {t("shadowing.retry")}
+            </button>
+            <button
+              onClick={() => {
+                useShadowingStore.getState().setLatencyOffset(deviceKey, state.measurement.latency);
+                setState({ step: "idle" });
+              }}
+              className={`${buttonClass} text-emerald-300`}
+            >
+              {t("common.save")}
+            </button>
+          </div>
+        </>
+      )}
+
+      {state.step === "failed" && (
+        <>
+          <p className="text-[10px] text-red-300">{t("shadowing.calibrationFailed")}</p>
+          <div className="flex justify-end gap-1">
+            <button onClick={() => setState({ step: "idle" })} className={`${buttonClass} text-white/50`}>
+              {t("common.cancel")}
+            </button>
+            <button onClick={measure} className={`${buttonClass} text-emerald-300`}>
+              {t("shadowing.retry")}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
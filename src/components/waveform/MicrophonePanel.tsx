@@ -0,0 +1,272 @@
+import { useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Headphones, Video, X } from "lucide-react";
+import { Slider } from "@/components/ui/slider";
+import {
+  MicrophoneSettings,
+  RecordingTrigger,
+  TakeVideoLayout,
+  useInputLevelStore,
+  useShadowingStore,
+} from "../../stores/shadowingStore";
+import { UniversalAudioRecorder } from "../../utils/audioRecorder";
+import { cn } from "../../utils/cn";
+import { supportsVideoCapture } from "../../utils/videoCapture";
+import { LatencyCalibration } from "./LatencyCalibration";
+
+const METER_FLOOR_DB = -60;
+const MAX_GAIN_DB = 12;
+
+const RECORDING_TRIGGERS: RecordingTrigger[] = ["playback", "voice"];
+const TAKE_VIDEO_LAYOUTS: TakeVideoLayout[] = ["side", "pip"];
+
+// Meter position (0–1) of a linear peak on a -60…0 dB scale
+const meterPosition = (level: number) =>
+  level <= 0 ? 0 : Math.max(0, Math.min(1, 1 - (20 * Math.log10(level)) / METER_FLOOR_DB));
+
+/**
+ * Live microphone level while shadowing mode is on; turns red when the input
+ * clips. With the voice trigger, a tick marks the speech threshold and the
+ * bar turns sky blue while the learner is heard speaking.
+ */
+export const InputLevelMeter = ({ className, showThreshold }: { className?: string; showThreshold?: boolean }) => {
+  const level = useInputLevelStore((state) => state.level);
+  const threshold = useShadowingStore((state) =>
+    showThreshold && state.recordingTrigger === "voice" ? state.voiceActivity.threshold : null
+  );
+  const isVoiceActive = useShadowingStore((state) => state.isVoiceActive);
+  const position = meterPosition(level);
+
+  return (
+    <div className={cn("relative overflow-hidden rounded-full bg-white/15", className)}>
+      <div
+        className={cn(
+          "h-full rounded-full transition-[width] duration-75",
+          level >= 0.99
+            ? "bg-red-500"
+            : position > 0.85
+              ? "bg-amber-400"
+              : threshold !== null && isVoiceActive
+                ? "bg-sky-400"
+                : "bg-emerald-400"
+        )}
+        style={{ width: `${position * 100}%` }}
+      />
+      {threshold !== null && (
+        <div
+          className="absolute inset-y-0 w-px bg-white"
+          style={{ left: `${meterPosition(Math.pow(10, threshold / 20)) * 100}%` }}
+        />
+      )}
+    </div>
+  );
+};
+
+const PROCESSING_OPTIONS = ["echoCancellation", "noiseSuppression", "autoGainControl"] as const;
+
+/**
+ * Input device, browser processing, gain and monitoring for shadowing takes.
+ * Device and processing reopen the microphone, so they are locked while a
+ * take is recording.
+ */
+export const MicrophonePanel = ({ onClose }: { onClose: () => void }) => {
+  const { t } = useTranslation();
+  const microphone = useShadowingStore((state) => state.microphone);
+  const recordingTrigger = useShadowingStore((state) => state.recordingTrigger);
+  const voiceActivity = useShadowingStore((state) => state.voiceActivity);
+  const isRecording = useShadowingStore((state) => state.isRecording);
+  const recordVideo = useShadowingStore((state) => state.recordVideo);
+  const takeVideoLayout = useShadowingStore((state) => state.takeVideoLayout);
+  const canRecordVideo = supportsVideoCapture();
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const loadDevices = () => {
+      UniversalAudioRecorder.listInputDevices()
+        .then((inputs) => {
+          if (!cancelled) setDevices(inputs);
+        })
+        .catch((error) => console.error("Failed to list microphones:", error));
+    };
+
+    loadDevices();
+    navigator.mediaDevices?.addEventListener("devicechange", loadDevices);
+    return () => {
+      cancelled = true;
+      navigator.mediaDevices?.removeEventListener("devicechange", loadDevices);
+    };
+  }, []);
+
+  const update = (changes: Partial<MicrophoneSettings>) => useShadowingStore.getState().setMicrophone(changes);
+  const gainDb = Math.round(20 * Math.log10(microphone.inputGain));
+
+  return (
+    <div className="w-64 max-w-[calc(100vw-4rem)] space-y-2 rounded-xl border border-white/15 bg-black/75 p-2 text-xs text-white/80 shadow-[0_8px_24px_rgba(0,0,0,0.25)] backdrop-blur-md">
+      <div className="flex items-center justify-between px-1">
+        <span className="font-medium text-white">{t("shadowing.microphone")}</span>
+        <button
+          onClick={onClose}
+          className="rounded-full p-0.5 text-white/50 hover:bg-white/10 hover:text-white"
+          aria-label={t("common.close")}
+        >
+          <X size={12} />
+        </button>
+      </div>
+
+      <select
+        value={microphone.deviceId ?? ""}
+        onChange={(e) => update({ deviceId: e.target.value || null })}
+        disabled={isRecording}
+        className="w-full rounded-lg border border-white/15 bg-white/10 px-2 py-1 text-white focus:outline-none disabled:opacity-50"
+        aria-label={t("shadowing.inputDevice")}
+      >
+        <option value="" className="text-gray-900">
+          {t("shadowing.defaultDevice")}
+        </option>
+        {devices
+          .filter((device) => device.deviceId && device.deviceId !== "default")
+          .map((device, index) => (
+            <option key={device.deviceId} value={device.deviceId} className="text-gray-900">
+              {device.label || t("shadowing.deviceFallback", { index: index + 1 })}
+            </option>
+          ))}
+      </select>
+
+      <div className="space-y-1 px-1">
+        {PROCESSING_OPTIONS.map((option) => (
+          <label
+            key={option}
+            className={cn("flex items-center gap-2", isRecording ? "opacity-50" : "cursor-pointer")}
+          >
+            <input
+              type="checkbox"
+              checked={microphone[option]}
+              onChange={(e) => update({ [option]: e.target.checked })}
+              disabled={isRecording}
+              className="accent-emerald-500"
+            />
+            {t(`shadowing.processing.${option}`)}
+          </label>
+        ))}
+      </div>
+
+      <div className="space-y-1.5 px-1">
+        <div className="flex items-center justify-between">
+          <span>{t("shadowing.inputGain")}</span>
+          <span className="font-mono tabular-nums text-white/60">
+            {gainDb > 0 ? "+" : ""}
+            {gainDb} dB
+          </span>
+        </div>
+        <Slider
+          value={[gainDb]}
+          min={-MAX_GAIN_DB}
+          max={MAX_GAIN_DB}
+          step={1}
+          onValueChange={(v) => update({ inputGain: Math.pow(10, v[0] / 20) })}
+          className="cursor-pointer"
+          thumbClassName="!h-3.5 !w-3.5 !border-0 !bg-white !shadow-[0_0_6px_rgba(255,255,255,0.6)]"
+          trackClassName="!h-1 !bg-white/20"
+          rangeClassName="!bg-white"
+        />
+        <InputLevelMeter className="h-1.5" showThreshold />
+      </div>
+
+      <div className="space-y-1.5 px-1">
+        <span>{t("shadowing.recordingTrigger")}</span>
+        <div className="flex rounded-full bg-white/10 p-0.5">
+          {RECORDING_TRIGGERS.map((trigger) => (
+            <button
+              key={trigger}
+              onClick={() => useShadowingStore.getState().setRecordingTrigger(trigger)}
+              className={cn(
+                "flex-1 rounded-full py-0.5 transition-colors",
+                recordingTrigger === trigger ? "bg-white text-gray-900" : "text-white/60 hover:text-white"
+              )}
+              title={t(`shadowing.recordingTriggerHelp.${trigger}`)}
+            >
+              {t(`shadowing.recordingTriggers.${trigger}`)}
+            </button>
+          ))}
+        </div>
+        {recordingTrigger === "voice" && (
+          <>
+            {(
+              [
+                { key: "threshold", min: -60, max: -10, step: 1, format: (value: number) => `${value} dB` },
+                { key: "silence", min: 0.4, max: 3, step: 0.1, format: (value: number) => `${value.toFixed(1)} s` },
+                { key: "minSpeech", min: 0.05, max: 0.5, step: 0.05, format: (value: number) => `${value.toFixed(2)} s` },
+              ] as const
+            ).map(({ key, min, max, step, format }) => (
+              <div key={key} className="space-y-1">
+                <div className="flex items-center justify-between" title={t(`shadowing.voiceActivityHelp.${key}`)}>
+                  <span>{t(`shadowing.voiceActivity.${key}`)}</span>
+                  <span className="font-mono tabular-nums text-white/60">{format(voiceActivity[key])}</span>
+                </div>
+                <Slider
+                  value={[voiceActivity[key]]}
+                  min={min}
+                  max={max}
+                  step={step}
+                  onValueChange={(v) => useShadowingStore.getState().setVoiceActivity({ [key]: v[0] })}
+                  className="cursor-pointer"
+                  thumbClassName="!h-3.5 !w-3.5 !border-0 !bg-white !shadow-[0_0_6px_rgba(255,255,255,0.6)]"
+                  trackClassName="!h-1 !bg-white/20"
+                  rangeClassName="!bg-white"
+                />
+              </div>
+            ))}
+            <p className="text-[10px] text-white/45">{t("shadowing.voiceTriggerHint")}</p>
+          </>
+        )}
+      </div>
+
+      <button
+        onClick={() => useShadowingStore.getState().setRecordVideo(!recordVideo)}
+        disabled={!canRecordVideo || isRecording}
+        aria-pressed={recordVideo}
+        title={canRecordVideo ? t("shadowing.recordVideoHelp") : t("shadowing.recordVideoUnsupported")}
+        className={cn(
+          "flex w-full items-center gap-2 rounded-lg px-2 py-1 text-left transition-colors disabled:opacity-50",
+          recordVideo ? "bg-emerald-500/15 text-emerald-300" : "hover:bg-white/5"
+        )}
+      >
+        <Video size={12} className="shrink-0" />
+        <span className="flex-1">{t("shadowing.recordVideo")}</span>
+      </button>
+      <div className="flex items-center justify-between gap-2 px-1">
+        <span>{t("shadowing.takeVideoLayout")}</span>
+        <div className="flex rounded-full bg-white/10 p-0.5">
+          {TAKE_VIDEO_LAYOUTS.map((layout) => (
+            <button
+              key={layout}
+              onClick={() => useShadowingStore.getState().setTakeVideoLayout(layout)}
+              className={cn(
+                "rounded-full px-2 py-0.5 transition-colors",
+                takeVideoLayout === layout ? "bg-white text-gray-900" : "text-white/60 hover:text-white"
+              )}
+            >
+              {t(`shadowing.takeVideoLayouts.${layout}`)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <LatencyCalibration />
+
+      <button
+        onClick={() => update({ monitor: !microphone.monitor })}
+        aria-pressed={microphone.monitor}
+        className={cn(
+          "flex w-full items-center gap-2 rounded-lg px-2 py-1 text-left transition-colors",
+          microphone.monitor ? "bg-emerald-500/15 text-emerald-300" : "hover:bg-white/5"
+        )}
+      >
+        <Headphones size={12} className="shrink-0" />
+        <span className="flex-1">{t("shadowing.monitor")}</span>
+      </button>
+      <p className="px-1 text-[10px] text-white/45">{t("shadowing.monitorHint")}</p>
+    </div>
+  );
+};
@@ -0,0 +1,244 @@
+import { useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { ChevronDown, ChevronRight, Download, Headphones, Loader2, RotateCcw, Square, Star, Trash2, X } from "lucide-react";
+import { usePlayerStore } from "../../stores/playerStore";
+import { ShadowingSegment, useShadowingStore } from "../../stores/shadowingStore";
+import { useShadowingExport } from "../../hooks/useShadowingExport";
+import { showTakesDeletedToast } from "./TakesDeletedToast";
+import { assignTakeLanes, selectAudibleTakes } from "../../utils/shadowingTakes";
+import { formatTime } from "../../utils/formatTime";
+import { cn } from "../../utils/cn";
+
+/**
+ * Every shadowing take of the current media by lane. A take can be auditioned
+ * on its own while its range loops, switched against the original, starred
+ * as the best take of its region or deleted. Deleted takes stay in the
+ * trash until the retention period runs out and can be restored from there.
+ * The session can be exported as a WAV file from the footer.
+ */
+export const ShadowingTakesPanel = ({
+  mediaId,
+  takes,
+  onClose,
+}: {
+  mediaId: string;
+  takes: ShadowingSegment[];
+  onClose: () => void;
+}) => {
+  const { t } = useTranslation();
+  const auditionTakeId = useShadowingStore((state) => state.auditionTakeId);
+  const auditionSource = useShadowingStore((state) => state.auditionSource);
+  const [confirmingDeleteId, setConfirmingDeleteId] = useState<string | null>(null);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  const trash = useShadowingStore((state) => state.trash);
+  const trashedTakes = useMemo(
+    () => trash.filter((item) => item.mediaId === mediaId).sort((a, b) => b.deletedAt - a.deletedAt),
+    [trash, mediaId]
+  );
+  const hasLocalMedia = usePlayerStore((state) => !!state.currentFile);
+  const hasLoop = usePlayerStore(
+    (state) => state.loopStart !== null && state.loopEnd !== null && state.loopEnd > state.loopStart
+  );
+  const { exportSession, exportingMode } = useShadowingExport();
+
+  const lanes = useMemo(() => assignTakeLanes(takes), [takes]);
+  const audibleIds = useMemo(() => new Set(selectAudibleTakes(takes).map((take) => take.id)), [takes]);
+  const sortedTakes = useMemo(
+    () =>
+      [...takes].sort(
+        (a, b) => a.startTime - b.startTime || (lanes.get(a.id) ?? 0) - (lanes.get(b.id) ?? 0)
+      ),
+    [takes, lanes]
+  );
+
+  // Loop the take's range and hear it alone
+  const handleAudition = (take: ShadowingSegment) => {
+    const { setAudition } = useShadowingStore.getState();
+    if (auditionTakeId === take.id) {
+      setAudition(null);
+      return;
+    }
+
+    setAudition(take.id);
+    const { setLoopPoints, setIsLooping, setCurrentTime, setIsPlaying } = usePlayerStore.getState();
+    setLoopPoints(take.startTime, take.startTime + take.duration);
+    setIsLooping(true);
+    setCurrentTime(take.startTime);
+    setIsPlaying(true);
+  };
+
+  const handleDelete = (take: ShadowingSegment) => {
+    if (confirmingDeleteId !== take.id) {
+      setConfirmingDeleteId(take.id);
+      return;
+    }
+    setConfirmingDeleteId(null);
+    useShadowingStore.getState().deleteTake(mediaId, take.id);
+    showTakesDeletedToast(mediaId, 1);
+  };
+
+  return (
+    <div className="w-72 max-w-[calc(100vw-4rem)] rounded-xl border border-white/15 bg-black/75 p-2 text-xs text-white/80 shadow-[0_8px_24px_rgba(0,0,0,0.25)] backdrop-blur-md">
+      <div className="mb-1 flex items-center justify-between px-1">
+        <span className="font-medium text-white">{t("shadowing.takes", { count: takes.length })}</span>
+        <button
+          onClick={onClose}
+          className="rounded-full p-0.5 text-white/50 hover:bg-white/10 hover:text-white"
+          aria-label={t("common.close")}
+        >
+          <X size={12} />
+        </button>
+      </div>
+
+      <div className="max-h-36 space-y-0.5 overflow-y-auto">
+        {sortedTakes.map((take) => {
+          const isAuditioned = auditionTakeId === take.id;
+          return (
+            <div
+              key={take.id}
+              className={cn(
+                "rounded-lg px-1.5 py-1",
+                isAuditioned ? "bg-emerald-500/15" : "hover:bg-white/5"
+              )}
+            >
+              <div className="flex items-center gap-1.5">
+                <span className="w-9 shrink-0 text-white/45">
+                  {t("shadowing.lane", { lane: (lanes.get(take.id) ?? 0) + 1 })}
+                </span>
+                <span
+                  className={cn(
+                    "flex-1 truncate font-mono tabular-nums",
+                    !audibleIds.has(take.id) && "text-white/45"
+                  )}
+                >
+                  {formatTime(take.startTime)}–{formatTime(take.startTime + take.duration)}
+                </span>
+                {take.analysis && <span className="tabular-nums text-white/60">{take.analysis.score}%</span>}
+                <button
+                  onClick={() => handleAudition(take)}
+                  className={cn(
+                    "rounded-full p-1 transition-colors hover:bg-white/10",
+                    isAuditioned ? "text-emerald-300" : "text-white/60 hover:text-white"
+                  )}
+                  title={t(isAuditioned ? "shadowing.stopAudition" : "shadowing.audition")}
+                >
+                  {isAuditioned ? <Square size={12} /> : <Headphones size={12} />}
+                </button>
+                <button
+                  onClick={() => useShadowingStore.getState().toggleTakeStar(mediaId, take.id)}
+                  className={cn(
+                    "rounded-full p-1 transition-colors hover:bg-white/10",
+                    take.starred ? "text-amber-300" : "text-white/40 hover:text-white"
+                  )}
+                  title={t(take.starred ? "shadowing.unstar" : "shadowing.star")}
+                  aria-pressed={!!take.starred}
+                >
+                  <Star size={12} fill={take.starred ? "currentColor" : "none"} />
+                </button>
+                {confirmingDeleteId === take.id ? (
+                  <button
+                    onClick={() => handleDelete(take)}
+                    className="rounded-full bg-red-600 px-2 py-0.5 text-[10px] leading-none text-white hover:bg-red-700"
+                  >
+                    {t("shadowing.confirmDelete")}
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => handleDelete(take)}
+                    className="rounded-full p-1 text-white/40 transition-colors hover:bg-white/10 hover:text-red-400"
+                    title={t("shadowing.deleteTake")}
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                )}
+              </div>
+
+              {isAuditioned && (
+                <div className="mt-1 flex rounded-full bg-white/10 p-0.5">
+                  {(["original", "take"] as const).map((source) => (
+                    <button
+                      key={source}
+                      onClick={() => useShadowingStore.getState().setAuditionSource(source)}
+                      className={cn(
+                        "flex-1 rounded-full py-0.5 transition-colors",
+                        auditionSource === source ? "bg-white text-gray-900" : "text-white/60 hover:text-white"
+                      )}
+                    >
+                      {t(`shadowing.auditionSources.${source}`)}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {trashedTakes.length > 0 && (
+        <div className="mt-1 border-t border-white/10 pt-1">
+          <div className="flex items-center gap-1 px-1">
+            <button
+              onClick={() => setIsTrashOpen(!isTrashOpen)}
+              className="mr-auto inline-flex items-center gap-1 text-white/60 hover:text-white"
+              aria-expanded={isTrashOpen}
+            >
+              {isTrashOpen ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+              {t("shadowing.trash", { count: trashedTakes.length })}
+            </button>
+            <button
+              onClick={() => useShadowingStore.getState().undoLastDeletion(mediaId)}
+              className="rounded-full px-1.5 py-0.5 text-white/70 transition-colors hover:bg-white/10 hover:text-white"
+              title={t("shadowing.undoDeleteHelp")}
+            >
+              {t("shadowing.undoDelete")}
+            </button>
+            <button
+              onClick={() => void useShadowingStore.getState().emptyTrash(mediaId)}
+              className="rounded-full px-1.5 py-0.5 text-white/50 transition-colors hover:bg-white/10 hover:text-red-400"
+            >
+              {t("shadowing.emptyTrash")}
+            </button>
+          </div>
+
+          {isTrashOpen && (
+            <div className="mt-0.5 max-h-24 space-y-0.5 overflow-y-auto">
+              {trashedTakes.map(({ take, deletedAt }) => (
+                <div key={take.id} className="flex items-center gap-1.5 rounded-lg px-1.5 py-1 text-white/50 hover:bg-white/5">
+                  <span className="flex-1 truncate font-mono tabular-nums">
+                    {formatTime(take.startTime)}–{formatTime(take.startTime + take.duration)}
+                  </span>
+                  <span className="shrink-0">{new Date(deletedAt).toLocaleDateString()}</span>
+                  <button
+                    onClick={() => useShadowingStore.getState().restoreTrashedTake(take.id)}
+                    className="rounded-full p-1 transition-colors hover:bg-white/10 hover:text-white"
+                    title={t("shadowing.restoreTake")}
+                  >
+                    <RotateCcw size={12} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="mt-1 flex items-center gap-1 border-t border-white/10 px-1 pt-1.5">
+        <Download size={12} className="shrink-0 text-white/50" />
+        <span className="mr-auto truncate text-white/60">
+          {t(hasLoop ? "shadowing.exportLoop" : "shadowing.exportAll")}
+        </span>
+        {(["mix", "stereo", "voice"] as const).map((mode) => (
+          <button
+            key={mode}
+            onClick={() => void exportSession(mode)}
+            disabled={exportingMode !== null || takes.length === 0 || (mode !== "voice" && !hasLocalMedia)}
+            className="inline-flex items-center rounded-full px-1.5 py-0.5 text-white/70 transition-colors hover:bg-white/10 hover:text-white disabled:opacity-40 disabled:hover:bg-transparent"
+            title={t(`shadowing.exportModeHelp.${mode}`)}
+          >
+            {exportingMode === mode ? <Loader2 size={12} className="animate-spin" /> : t(`shadowing.exportModes.${mode}`)}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,31 @@
+import { toast } from "react-hot-toast";
+import i18n from "../../i18n";
+import { useShadowingStore } from "../../stores/shadowingStore";
+
+const TAKES_DELETED_TOAST_ID = "takes-deleted";
+
+/**
+ * Confirms that takes went to the trash, with an Undo button that puts the
+ * last deletion of the media back.
+ */
+export const showTakesDeletedToast = (mediaId: string, count: number) => {
+  toast(
+    (current) => (
+      <span className="flex items-center gap-3">
+        <span>{i18n.t("shadowing.takesTrashed", { count })}</span>
+        <button
+          onClick={() => {
+            toast.dismiss(current.id);
+            if (useShadowingStore.getState().undoLastDeletion(mediaId)) {
+              toast.success(i18n.t("shadowing.takesRestored"));
+            }
+          }}
+          className="rounded-md bg-purple-600 px-2 py-1 text-xs font-medium text-white hover:bg-purple-700"
+        >
+          {i18n.t("shadowing.undoDelete")}
+        </button>
+      </span>
+    ),
+    { id: TAKES_DELETED_TOAST_ID, duration: 8000 }
+  );
+};
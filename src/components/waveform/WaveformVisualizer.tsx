@@ -23,16 +23,34 @@ import {
   Trash2,
   Mic,
   Radio,
+  ListOrdered,
+  Drum,
+  Layers,
+  AudioLines,
+  SlidersHorizontal,
 } from "lucide-react";
 import { Slider } from "@/components/ui/slider";
 import { toast } from "react-hot-toast";
 import { useTranslation } from "react-i18next";
 import { checkAudioRecordingSupport, getRecordingUnsupportedMessage } from "../../utils/browserCheck";
 import { useShadowingRecorder } from "../../hooks/useShadowingRecorder";
+import { usePronunciationAnalysis } from "../../hooks/usePronunciationAnalysis";
+import { isAudioFile, useTakeImport } from "../../hooks/useTakeImport";
+import {
+  PITCH_TOLERANCE,
+  PronunciationAnalysis,
+  TIMING_TOLERANCE,
+} from "../../utils/pronunciationAnalysis";
+import { assignTakeLanes, selectAudibleTakes } from "../../utils/shadowingTakes";
+import { PlaylistDialog } from "../player/PlaylistDialog";
+import { ShadowingTakesPanel } from "./ShadowingTakesPanel";
+import { showTakesDeletedToast } from "./TakesDeletedToast";
+import { InputLevelMeter, MicrophonePanel } from "./MicrophonePanel";
 import {
   analyzeAudioFileWaveform,
   buildWaveformMediaKey,
   createPlaceholderWaveform,
+  findNearestBeatIndex,
   shouldUseAdaptiveWaveform,
   shouldUseDetailedWaveform,
   shouldUseProgressiveWaveform,
@@ -46,6 +64,9 @@ const BOOKMARK_TOAST_ID = "bookmark-action-toast";
 const EMPTY_BOOKMARKS: readonly any[] = Object.freeze([]);
 const EMPTY_SEGMENTS: readonly any[] = Object.freeze([]);
 
+// Lane key of the take being recorded
+const RECORDING_TAKE_ID = "recording";
+
 const normalizeCachedWaveform = (
   waveform: CachedWaveformData
 ): CachedWaveformData => ({
@@ -61,6 +82,7 @@ const normalizeCachedWaveform = (
 });
 
 type ShadowWaveform = {
+  id: string;
   start: number;
   data: Float32Array;
   duration: number;
@@ -148,6 +170,7 @@ export const WaveformVisualizer = () => {
     setIsPlaying,
     deleteBookmark,
     autoAdvanceBookmarks,
+    activePlaylist,
     setAutoAdvanceBookmarks,
     updateBookmark,
     mediaVolume,
@@ -157,6 +180,14 @@ export const WaveformVisualizer = () => {
     isPlaying,
     muted,
     toggleMute,
+    metronomeEnabled,
+    metronomeVolume,
+    setMetronomeVolume,
+    bpm,
+    setBpm,
+    beatGrid,
+    setBeatGrid,
+    setMediaLoudness,
   } = usePlayerStore();
 
   const {
@@ -165,6 +196,7 @@ export const WaveformVisualizer = () => {
     currentRecording,
     isShadowingMode, setShadowingMode,
     isRecording,
+    auditionTakeId, auditionSource,
   } = useShadowingStore();
 
   const mediaId = usePlayerStore((state) => state.getCurrentMediaId());
@@ -172,8 +204,19 @@ export const WaveformVisualizer = () => {
     if (!mediaId) return EMPTY_SEGMENTS as any[];
     return state.sessions[mediaId]?.segments || (EMPTY_SEGMENTS as any[]);
   });
+  const voiceTriggers = useShadowingStore((state) => state.voiceTriggers);
+  const isVoiceTriggered = useShadowingStore((state) => state.recordingTrigger === "voice");
+  const hasTrashedTakes = useShadowingStore((state) => !!mediaId && state.trash.some((item) => item.mediaId === mediaId));
   const [shadowingWaveforms, setShadowingWaveforms] = useState<ShadowWaveform[]>([]);
   const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  const [openShadowingPanel, setOpenShadowingPanel] = useState<"takes" | "microphone" | null>(null);
+  // Auditioning is driven from the takes panel, so it ends when that panel closes
+  const toggleShadowingPanel = (panel: "takes" | "microphone") => {
+    if (openShadowingPanel === "takes") {
+      useShadowingStore.getState().setAudition(null);
+    }
+    setOpenShadowingPanel(openShadowingPanel === panel ? null : panel);
+  };
   const [fadingRecording, setFadingRecording] = useState<RecordingOverlay | null>(null);
   const previousCurrentRecordingRef = useRef<typeof currentRecording>(null);
   const [fadeFrame, setFadeFrame] = useState(0);
@@ -183,6 +226,10 @@ export const WaveformVisualizer = () => {
   // Initialize Shadowing Player
   useShadowingPlayer();
   useShadowingRecorder();
+  usePronunciationAnalysis();
+  const { importTake, isImporting } = useTakeImport();
+  // Where a dragged audio file would become a take
+  const [dropTime, setDropTime] = useState<number | null>(null);
 
   // Load shadowing waveforms
   useEffect(() => {
@@ -198,6 +245,7 @@ export const WaveformVisualizer = () => {
           try {
             if (seg.peaks?.length) {
               return {
+                id: seg.id,
                 start: seg.startTime,
                 data: Float32Array.from(seg.peaks),
                 duration: seg.duration,
@@ -233,6 +281,7 @@ export const WaveformVisualizer = () => {
             audioContext.close();
 
             return {
+              id: seg.id,
               start: seg.startTime,
               data,
               duration: segmentDuration
@@ -311,6 +360,7 @@ export const WaveformVisualizer = () => {
 
   // YouTube notice dismissal state
   const [isYoutubeNoticeDismissed, setIsYoutubeNoticeDismissed] = useState(false);
+  const [showPlaylists, setShowPlaylists] = useState(false);
 
   // Reset dismissal when youtube video changes
   useEffect(() => {
@@ -345,6 +395,8 @@ export const WaveformVisualizer = () => {
     ) {
       setWaveformData(null);
       setWaveformLoadState({ status: "idle", progress: 0 });
+      setBeatGrid(null);
+      setMediaLoudness(null);
       return;
     }
 
@@ -357,6 +409,8 @@ export const WaveformVisualizer = () => {
 
       const normalized = normalizeCachedWaveform(waveform);
       setWaveformData(Float32Array.from(normalized.peaks));
+      setBeatGrid(normalized.beatGrid ?? null);
+      setMediaLoudness(normalized.loudness ?? null);
       setWaveformLoadState({
         status: normalized.status ?? "ready",
         progress: normalized.progress ?? 0,
@@ -422,7 +476,13 @@ export const WaveformVisualizer = () => {
 
         if (normalizedCached) {
           setWaveformPreview(normalizedCached);
-          if (normalizedCached.status === "ready" || !canAnalyze) {
+          // Waveforms cached before beat detection or loudness existed are analyzed once more
+          if (
+            (normalizedCached.status === "ready" &&
+              normalizedCached.beatGrid !== undefined &&
+              normalizedCached.loudness !== undefined) ||
+            !canAnalyze
+          ) {
             return;
           }
         }
@@ -532,7 +592,35 @@ export const WaveformVisualizer = () => {
         globalThis.clearTimeout(timeoutId);
       }
     };
-  }, [currentFile, currentYouTube, duration]);
+  }, [currentFile, currentYouTube, duration, setBeatGrid, setMediaLoudness]);
+
+  // Offer the detected tempo once per analysis when it differs from the current BPM
+  const offeredBeatGridRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!beatGrid) return;
+    const key = `${beatGrid.bpm}:${beatGrid.beats.length}:${beatGrid.beats[0]}`;
+    if (offeredBeatGridRef.current === key) return;
+    offeredBeatGridRef.current = key;
+    if (bpm !== null && Math.abs(bpm - beatGrid.bpm) < 0.5) return;
+
+    toast(
+      (item) => (
+        <span className="flex items-center gap-3">
+          {t("loop.tempoDetected", { bpm: beatGrid.bpm })}
+          <button
+            className="rounded bg-purple-600 px-2 py-1 text-xs font-medium text-white hover:bg-purple-700"
+            onClick={() => {
+              setBpm(beatGrid.bpm);
+              toast.dismiss(item.id);
+            }}
+          >
+            {t("loop.useDetectedBpm")}
+          </button>
+        </span>
+      ),
+      { id: "tempo-detected", duration: 8000 }
+    );
+  }, [beatGrid, bpm, setBpm, t]);
 
 
   // Draw waveform
@@ -709,6 +797,21 @@ export const WaveformVisualizer = () => {
       );
     }
 
+    // Draw detected beats in the media lane while they are far enough apart to read
+    if (beatGrid && beatGrid.beats.length > 1) {
+      const beatSpacing = ((60 / beatGrid.bpm) / visibleDuration) * canvas.width;
+      if (beatSpacing >= 6 * dpr) {
+        ctx.fillStyle = "rgba(255, 255, 255, 0.12)";
+        const first = Math.max(0, findNearestBeatIndex(beatGrid.beats, startOffset) - 1);
+        for (let i = first; i < beatGrid.beats.length; i++) {
+          const beatTime = beatGrid.beats[i];
+          if (beatTime > endOffset) break;
+          const x = ((beatTime - startOffset) / visibleDuration) * canvas.width;
+          ctx.fillRect(x, 0, 1 * dpr, canvas.height / 2);
+        }
+      }
+    }
+
     // Draw temporary drag selection (while dragging)
     if (isDragging && dragStart !== null && dragEnd !== null) {
       const start = Math.min(dragStart, dragEnd);
@@ -810,13 +913,71 @@ export const WaveformVisualizer = () => {
       );
       ctx.clip();
 
+      // Each take gets a lane of its own; a recording in progress is drawn in
+      // the lane its take will land in
+      const overlay = currentRecording ?? fadingRecording;
+      const overlayTake =
+        overlay && overlay.peakTimes.length > 0
+          ? {
+            id: RECORDING_TAKE_ID,
+            startTime: overlay.startTime,
+            duration: overlay.peakTimes[overlay.peakTimes.length - 1],
+          }
+          : null;
+      const savedTake =
+        !currentRecording && overlayTake
+          ? shadowingSegments.find((segment) => Math.abs(segment.startTime - overlayTake.startTime) < 0.05)
+          : undefined;
+      const takeLanes = assignTakeLanes(
+        overlayTake && !savedTake ? [...shadowingSegments, overlayTake] : shadowingSegments
+      );
+      if (savedTake) takeLanes.set(RECORDING_TAKE_ID, takeLanes.get(savedTake.id) ?? 0);
+      const laneCount = Math.max(1, ...Array.from(takeLanes.values(), (lane) => lane + 1));
+      const laneHeight = shadowDrawHeight / laneCount;
+      const laneTop = (takeId: string) => shadowTop + shadowPadding + (takeLanes.get(takeId) ?? 0) * laneHeight;
+
+      ctx.fillStyle = "rgba(255, 255, 255, 0.06)";
+      for (let lane = 1; lane < laneCount; lane++) {
+        ctx.fillRect(0, shadowTop + shadowPadding + lane * laneHeight, canvas.width, 1 * dpr);
+      }
+
+      const audibleTakeIds = new Set(
+        auditionTakeId
+          ? auditionSource === "take" ? [auditionTakeId] : []
+          : selectAudibleTakes(shadowingSegments).map((segment) => segment.id)
+      );
+      if (auditionTakeId && takeLanes.has(auditionTakeId)) {
+        ctx.fillStyle = "rgba(52, 211, 153, 0.08)";
+        ctx.fillRect(0, laneTop(auditionTakeId), canvas.width, laneHeight);
+      }
+
+      // Tint each scored region of a take behind its waveform:
+      // red for off intonation, amber for off timing, green when both are close
+      shadowingSegments.forEach(({ id, analysis }) => {
+        (analysis as PronunciationAnalysis | undefined)?.regions.forEach((region) => {
+          if (region.end < startOffset || region.start > endOffset) return;
+          ctx.fillStyle =
+            region.pitchDeviation !== null && region.pitchDeviation > PITCH_TOLERANCE
+              ? "rgba(239, 68, 68, 0.18)"
+              : Math.abs(region.timingOffset) > TIMING_TOLERANCE
+                ? "rgba(245, 158, 11, 0.18)"
+                : "rgba(16, 185, 129, 0.1)";
+          const x = ((region.start - startOffset) / visibleDuration) * canvas.width;
+          const w = ((region.end - region.start) / visibleDuration) * canvas.width;
+          ctx.fillRect(x, laneTop(id), Math.max(1 * dpr, w - 1 * dpr), laneHeight);
+        });
+      });
+
       shadowingWaveforms.forEach(seg => {
         // Calculate overlap with visible range
         const segEnd = seg.start + seg.duration;
         if (segEnd < startOffset || seg.start > endOffset) return;
 
-        ctx.fillStyle = "#10B981"; // Emerald/Green for user audio
+        // Emerald/Green for user audio, faded for takes that are not heard
+        ctx.fillStyle = audibleTakeIds.has(seg.id) ? "#10B981" : "rgba(16, 185, 129, 0.35)";
 
+        const top = laneTop(seg.id);
+        const centerY = top + laneHeight / 2;
         const sampleDuration = seg.duration / seg.data.length;
 
         for (let i = 0; i < seg.data.length; i++) {
@@ -829,9 +990,9 @@ export const WaveformVisualizer = () => {
           // Ensure min width
           const finalBarW = Math.max(1 * dpr, barW);
 
-          const unclampedHeight = Math.max(2 * dpr, val * shadowDrawHeight * 1.6);
-          const h = Math.min(shadowDrawHeight, unclampedHeight);
-          const y = Math.max(shadowTop + shadowPadding, shadowCenterY - h / 2);
+          const unclampedHeight = Math.max(2 * dpr, val * laneHeight * 1.6);
+          const h = Math.min(laneHeight, unclampedHeight);
+          const y = Math.max(top, centerY - h / 2);
 
           ctx.fillRect(x, y, finalBarW, h);
         }
@@ -849,6 +1010,8 @@ export const WaveformVisualizer = () => {
         ctx.fillStyle = color;
 
         const peakDuration = 0.05;
+        const top = laneTop(RECORDING_TAKE_ID);
+        const centerY = top + laneHeight / 2;
 
         recording.peaks.forEach((peak, i) => {
           const elapsedTime =
@@ -862,9 +1025,9 @@ export const WaveformVisualizer = () => {
           const w = ((i < recording.peakTimes.length - 1
             ? Math.max(peakDuration, recording.peakTimes[i + 1] - elapsedTime)
             : peakDuration) / visibleDuration) * canvas.width;
-          const unclampedHeight = Math.max(2 * dpr, peak * shadowDrawHeight * 1.6);
-          const h = Math.min(shadowDrawHeight, unclampedHeight);
-          const y = Math.max(shadowTop + shadowPadding, shadowCenterY - h / 2);
+          const unclampedHeight = Math.max(2 * dpr, peak * laneHeight * 1.6);
+          const h = Math.min(laneHeight, unclampedHeight);
+          const y = Math.max(top, centerY - h / 2);
 
           ctx.fillRect(x, y, Math.max(1 * dpr, w), h);
         });
@@ -872,6 +1035,29 @@ export const WaveformVisualizer = () => {
         ctx.restore();
       };
 
+      // Best-take star and similarity score at the start of each take
+      if (laneHeight >= 12 * dpr) {
+        ctx.font = `${10 * dpr}px sans-serif`;
+        ctx.textAlign = "left";
+        ctx.textBaseline = "top";
+        shadowingSegments.forEach(({ id, startTime, starred, analysis }) => {
+          const score = (analysis as PronunciationAnalysis | undefined)?.score;
+          if (!starred && score === undefined) return;
+          if (startTime < startOffset || startTime > endOffset) return;
+
+          const label = [starred ? "★" : "", score !== undefined ? `${score}%` : ""].filter(Boolean).join(" ");
+          const x = ((startTime - startOffset) / visibleDuration) * canvas.width + 3 * dpr;
+          const top = laneTop(id);
+          ctx.fillStyle = "rgba(0, 0, 0, 0.55)";
+          ctx.fillRect(x - 2 * dpr, top, ctx.measureText(label).width + 4 * dpr, 12 * dpr);
+          ctx.fillStyle =
+            score === undefined
+              ? "#FBBF24"
+              : score >= 80 ? "#34D399" : score >= 60 ? "#FBBF24" : "#F87171";
+          ctx.fillText(label, x, top + 1 * dpr);
+        });
+      }
+
       if (fadingRecording) {
         const elapsed = performance.now() - fadingRecording.startedAt;
         const alpha = Math.max(0, 1 - elapsed / 350);
@@ -883,6 +1069,21 @@ export const WaveformVisualizer = () => {
       if (currentRecording) {
         drawRecordingOverlay(currentRecording, "#EF4444");
       }
+
+      // Where the voice detector started (sky) and stopped (amber) a take
+      voiceTriggers.forEach(({ mediaId: triggerMediaId, time, event }) => {
+        if (triggerMediaId !== mediaId || time < startOffset || time > endOffset) return;
+        const x = ((time - startOffset) / visibleDuration) * canvas.width;
+        const top = shadowTop + shadowPadding;
+        ctx.fillStyle = event === "start" ? "rgba(56, 189, 248, 0.9)" : "rgba(251, 191, 36, 0.9)";
+        ctx.fillRect(x - 0.5 * dpr, top, 1 * dpr, shadowDrawHeight);
+        ctx.beginPath();
+        ctx.moveTo(x - 3 * dpr, top);
+        ctx.lineTo(x + 3 * dpr, top);
+        ctx.lineTo(x, top + 4 * dpr);
+        ctx.closePath();
+        ctx.fill();
+      });
       ctx.restore();
     }
 
@@ -949,13 +1150,19 @@ export const WaveformVisualizer = () => {
     bookmarks,
     selectedBookmarkId,
     shadowingWaveforms,
+    shadowingSegments,
+    auditionTakeId,
+    auditionSource,
     currentRecording,
     fadingRecording,
+    voiceTriggers,
+    mediaId,
     fadeFrame,
     isDragging,
     dragStart,
     dragEnd,
     isMobile,
+    beatGrid,
   ]);
 
   // Helper function to draw markers
@@ -1504,7 +1711,7 @@ export const WaveformVisualizer = () => {
     if (time >= 0 && time <= duration && pixelDist > 5 && Math.abs(time - dragStart) > 0.1) {
       const start = Math.min(dragStart, time);
       const end = Math.max(dragStart, time);
-      setLoopPoints(start, end);
+      setLoopPoints(start, end, { snap: true });
     }
 
     setIsDragging(false);
@@ -1513,6 +1720,36 @@ export const WaveformVisualizer = () => {
     dragStartXRef.current = null;
   };
 
+  // Audio files dropped on the waveform become takes at the drop position
+  const hasDraggedFiles = (e: React.DragEvent) => e.dataTransfer.types.includes("Files");
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!hasDraggedFiles(e) || isImporting) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "copy";
+    setDropTime(Math.max(0, Math.min(duration, positionToTime(e.clientX))));
+  };
+
+  const handleDragLeave = (e: React.DragEvent<HTMLDivElement>) => {
+    // Moving onto an overlay inside the waveform is not leaving it
+    if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+    setDropTime(null);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!hasDraggedFiles(e)) return;
+    e.preventDefault();
+    const time = dropTime ?? Math.max(0, positionToTime(e.clientX));
+    setDropTime(null);
+
+    const file = Array.from(e.dataTransfer.files).find(isAudioFile);
+    if (!file) {
+      toast.error(t("shadowing.importTakeNotAudio"));
+      return;
+    }
+    void importTake(file, time);
+  };
+
   // Handle mouse leave
   const handleMouseLeave = () => {
     setHoverTime(null);
@@ -1704,6 +1941,9 @@ export const WaveformVisualizer = () => {
           onTouchStart={handleTouchStart}
           onTouchMove={handleTouchMove}
           onTouchEnd={handleTouchEnd}
+          onDragOver={handleDragOver}
+          onDragLeave={handleDragLeave}
+          onDrop={handleDrop}
         >
 
           <canvas ref={canvasRef} className="w-full h-full cursor-crosshair" />
@@ -1759,6 +1999,44 @@ export const WaveformVisualizer = () => {
             </div>
           )}
 
+          {/* Metronome Volume Control - overlaid on top-right of media waveform lane */}
+          {showWaveform && metronomeEnabled && (
+            <div
+              className={`absolute right-2 top-[25%] -translate-y-1/2 z-10 group/mvol flex flex-row-reverse items-center bg-black/60 backdrop-blur-md border border-white/20 rounded-full h-8 pointer-events-auto transition-all duration-200 ${isMobile ? "opacity-100" : ""}`}
+              onMouseDown={stopPropagation}
+              onClick={stopPropagation}
+              onTouchStart={stopPropagation}
+              onPointerDown={stopPropagation}
+            >
+              <span
+                className="h-full px-2.5 flex items-center text-white/70"
+                title={t("loop.metronomeVolume")}
+              >
+                <Drum size={isMobile ? 16 : 14} />
+              </span>
+              <div className={`overflow-hidden transition-all duration-300 ${isMobile ? "max-w-[120px]" : "max-w-0 group-hover/mvol:max-w-[100px]"}`}>
+                <div className={`${isMobile ? "w-[100px]" : "w-24"} pl-4`}>
+                  <Slider
+                    value={[muted ? 0 : metronomeVolume]}
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    onValueChange={(v) => {
+                      setMetronomeVolume(v[0]);
+                      if (v[0] > 0 && muted) {
+                        toggleMute();
+                      }
+                    }}
+                    className="cursor-pointer"
+                    thumbClassName="!h-3.5 !w-3.5 !border-0 !bg-white !shadow-[0_0_6px_rgba(255,255,255,0.6)]"
+                    trackClassName="!h-1 !bg-white/20"
+                    rangeClassName="!bg-white"
+                  />
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* REC Volume Control - overlaid on left of shadowing waveform lane (bottom half) */}
           {showWaveform && (
             <div
@@ -1930,6 +2208,18 @@ export const WaveformVisualizer = () => {
             </div>
           )}
 
+          {/* Drop position of an audio file dragged over the waveform */}
+          {dropTime !== null && (
+            <div
+              className="absolute inset-y-0 z-20 border-l-2 border-dashed border-emerald-400 pointer-events-none"
+              style={{ left: `${timeToPosition(dropTime)}%` }}
+            >
+              <span className="absolute left-1 top-1/2 whitespace-nowrap rounded bg-emerald-500/90 px-1.5 py-0.5 text-[10px] font-medium text-white">
+                {t("shadowing.dropTakeAt", { time: formatTime(dropTime) })}
+              </span>
+            </div>
+          )}
+
           {/* Playhead time code - Video editing app style, moved to bottom */}
           <div
             className={`absolute bottom-0 mb-1 bg-red-600 text-white font-mono font-bold px-2 py-0.5 rounded-sm shadow-[0_2px_8px_rgba(0,0,0,0.4)] pointer-events-none z-[25] ${isMobile ? "text-[11px]" : "text-[10px]"
@@ -1952,6 +2242,23 @@ export const WaveformVisualizer = () => {
               onTouchStart={stopPropagation}
               onPointerDown={stopPropagation}
             >
+              {openShadowingPanel === "takes" && mediaId && (shadowingSegments.length > 0 || hasTrashedTakes) && (
+                <div className="absolute right-full bottom-0 mr-2">
+                  <ShadowingTakesPanel
+                    mediaId={mediaId}
+                    takes={shadowingSegments}
+                    onClose={() => {
+                      setOpenShadowingPanel(null);
+                      useShadowingStore.getState().setAudition(null);
+                    }}
+                  />
+                </div>
+              )}
+              {openShadowingPanel === "microphone" && isShadowingMode && (
+                <div className="absolute right-full bottom-0 mr-2">
+                  <MicrophonePanel onClose={() => setOpenShadowingPanel(null)} />
+                </div>
+              )}
               <div className="flex flex-col items-center gap-1 bg-black/60 backdrop-blur-md border border-white/15 rounded-2xl text-white/80 shadow-[0_8px_24px_rgba(0,0,0,0.18)] py-1.5 px-1.5">
                 <button
                   type="button"
@@ -1989,7 +2296,11 @@ export const WaveformVisualizer = () => {
                       {isRecording ? (
                         <Radio size={isMobile ? 9 : 8} className="animate-pulse text-red-500" />
                       ) : isShadowingMode ? (
-                        <Mic size={isMobile ? 9 : 8} className="text-amber-600" />
+                        isVoiceTriggered ? (
+                          <AudioLines size={isMobile ? 9 : 8} className="text-sky-600" />
+                        ) : (
+                          <Mic size={isMobile ? 9 : 8} className="text-amber-600" />
+                        )
                       ) : (
                         <Mic size={isMobile ? 9 : 8} className="text-slate-500/80" />
                       )}
@@ -1997,6 +2308,35 @@ export const WaveformVisualizer = () => {
                   </span>
                 </button>
 
+                {isShadowingMode && (
+                  <>
+                    <InputLevelMeter className={`h-1 ${isMobile ? "w-6" : "w-5"}`} showThreshold />
+                    <button
+                      className={`shrink-0 rounded-full transition-colors hover:bg-white/8 ${
+                        openShadowingPanel === "microphone" ? "text-emerald-300" : "text-white/35 hover:text-white/80"
+                      } ${isMobile ? "p-1.5" : "p-1"}`}
+                      onClick={() => toggleShadowingPanel("microphone")}
+                      title={t("shadowing.microphone")}
+                      aria-pressed={openShadowingPanel === "microphone"}
+                    >
+                      <SlidersHorizontal size={isMobile ? 13 : 12} />
+                    </button>
+                  </>
+                )}
+
+                {(shadowingSegments.length > 0 || hasTrashedTakes) && (
+                  <button
+                    className={`shrink-0 rounded-full transition-colors hover:bg-white/8 ${
+                      openShadowingPanel === "takes" ? "text-emerald-300" : "text-white/35 hover:text-white/80"
+                    } ${isMobile ? "p-1.5" : "p-1"}`}
+                    onClick={() => toggleShadowingPanel("takes")}
+                    title={t("shadowing.takes", { count: shadowingSegments.length })}
+                    aria-pressed={openShadowingPanel === "takes"}
+                  >
+                    <Layers size={isMobile ? 13 : 12} />
+                  </button>
+                )}
+
                 {shadowingSegments.length > 0 && (
                   !isConfirmingDelete ? (
                     <button
@@ -2013,9 +2353,10 @@ export const WaveformVisualizer = () => {
                       className="px-2 py-1 text-[10px] bg-red-600 text-white rounded-full hover:bg-red-700 transition-colors leading-none"
                       onClick={async () => {
                         if (mediaId) {
+                          const count = shadowingSegments.length;
                           await useShadowingStore.getState().deleteAllSegments(mediaId);
                           setShadowingMode(false);
-                          toast.success("Shadow track deleted");
+                          showTakesDeletedToast(mediaId, count);
                         }
                         setIsConfirmingDelete(false);
                       }}
@@ -2150,16 +2491,28 @@ export const WaveformVisualizer = () => {
           >
             <ChevronsRight size={isMobile ? 16 : 14} />
           </button>
+          <button
+            className={`${activePlaylist
+              ? "bg-purple-600 text-white"
+              : "text-white hover:bg-white/10 active:bg-white/20"
+              } inline-flex items-center justify-center rounded-full focus:outline-none focus:ring-2 focus:ring-purple-400 ${isMobile ? "h-9 w-9" : "h-8 w-8"
+              }`}
+            onClick={() => setShowPlaylists(true)}
+            title={t("playlists.title")}
+            aria-label={t("playlists.title")}
+          >
+            <ListOrdered size={isMobile ? 16 : 14} />
+          </button>
           <button
             className={`inline-flex items-center justify-center rounded-full text-white hover:bg-white/10 active:bg-white/20 focus:outline-none focus:ring-2 focus:ring-purple-400 ${isMobile ? "h-9 w-9" : "h-8 w-8"
               }`}
             onClick={() => {
               if (duration === 0) return;
               if (loopEnd !== null && currentTime >= loopEnd) {
-                setLoopPoints(currentTime, null);
+                setLoopPoints(currentTime, null, { snap: true });
                 setIsLooping(false);
               } else {
-                setLoopPoints(currentTime, loopEnd);
+                setLoopPoints(currentTime, loopEnd, { snap: true });
                 if (loopEnd !== null) setIsLooping(true);
               }
             }}
@@ -2175,7 +2528,7 @@ export const WaveformVisualizer = () => {
               if (duration === 0) return;
               const start = loopStart !== null ? loopStart : 0;
               if (currentTime > start) {
-                setLoopPoints(start, currentTime);
+                setLoopPoints(start, currentTime, { snap: true });
                 setIsLooping(true);
               }
             }}
@@ -2267,6 +2620,8 @@ export const WaveformVisualizer = () => {
           </button>
         </div>
       </div>
+
+      <PlaylistDialog open={showPlaylists} onOpenChange={setShowPlaylists} />
     </>
   );
 };
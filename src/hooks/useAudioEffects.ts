@@ -0,0 +1,25 @@
+import { useEffect } from "react";
+import { useShallow } from "zustand/react/shallow";
+import { usePlayerStore } from "../stores/playerStore";
+import { mediaEffects } from "../utils/audioEffects";
+
+/**
+ * Keeps the shared effects chain in step with the stored settings and the
+ * measured loudness of the current media.
+ */
+export const useAudioEffects = () => {
+  const { audioEffects, mediaLoudness } = usePlayerStore(
+    useShallow((state) => ({
+      audioEffects: state.audioEffects,
+      mediaLoudness: state.mediaLoudness,
+    }))
+  );
+
+  useEffect(() => {
+    mediaEffects.setSettings(audioEffects);
+  }, [audioEffects]);
+
+  useEffect(() => {
+    mediaEffects.setLoudness(mediaLoudness);
+  }, [mediaLoudness]);
+};
@@ -1,68 +1,216 @@
-import { useEffect, useRef } from "react";
-import { AudioProcessor } from "../utils/audioProcessor";
+import { RefObject, useCallback, useEffect, useRef, useState } from "react";
+import { useShallow } from "zustand/react/shallow";
+import { AudioProcessor, canUseLoopEngine } from "../utils/audioProcessor";
+import { canSnapMedia, decodeForSnapping } from "../utils/loopSnapping";
 import { usePlayerStore } from "../stores/playerStore";
+import { scheduleLoopCountIn } from "./useMetronome";
+
+/**
+ * Hands A-B looping of local audio files over to the Web Audio loop engine.
+ * While the engine is active the media element stays paused and the engine
+ * drives `currentTime`; when looping stops, playback is handed back to the
+ * element at the engine's position.
+ */
+export const useAudioProcessor = (
+  audioRef: RefObject<HTMLAudioElement>,
+  safePlay: (mediaElement: HTMLMediaElement) => void
+) => {
+  const processorRef = useRef<AudioProcessor | null>(null);
+  // True while the engine (not the media element) is producing sound
+  const engineActiveRef = useRef(false);
+  const activeUrlRef = useRef<string | null>(null);
+  const lastReportedTimeRef = useRef(0);
+  const [readyUrl, setReadyUrl] = useState<string | null>(null);
 
-export const useAudioProcessor = () => {
-  const processor = useRef<AudioProcessor | null>(null);
   const {
-    setCurrentTime,
     currentFile,
     isPlaying,
     playbackRate,
+    transpose,
     loopStart,
     loopEnd,
-  } = usePlayerStore();
+    isLooping,
+    loopEngineEnabled,
+    loopSnapMode,
+    volume: masterVolume,
+    mediaVolume,
+    isMediaSilenced,
+    muted: masterMuted,
+  } = usePlayerStore(
+    useShallow((state) => ({
+      currentFile: state.currentFile,
+      isPlaying: state.isPlaying,
+      playbackRate: state.playbackRate,
+      transpose: state.transpose,
+      loopStart: state.loopStart,
+      loopEnd: state.loopEnd,
+      isLooping: state.isLooping,
+      loopEngineEnabled: state.loopEngineEnabled,
+      loopSnapMode: state.loopSnapMode,
+      volume: state.volume,
+      mediaVolume: state.mediaVolume,
+      isMediaSilenced: state.isMediaSilenced,
+      muted: state.muted,
+    }))
+  );
 
   useEffect(() => {
-    processor.current = new AudioProcessor();
+    const processor = new AudioProcessor({
+      planLoopPass: () => usePlayerStore.getState().planLoopPass(),
+      onTimeUpdate: (time) => {
+        if (Math.abs(time - lastReportedTimeRef.current) >= 0.05) {
+          lastReportedTimeRef.current = time;
+          usePlayerStore.getState().setCurrentTime(time);
+        }
+      },
+      onEnded: () => {
+        const { setIsPlaying, setCurrentTime } = usePlayerStore.getState();
+        setIsPlaying(false);
+        setCurrentTime(0);
+      },
+      onStopped: () => usePlayerStore.getState().setIsPlaying(false),
+      onCountIn: scheduleLoopCountIn,
+      getLoopShaping: () => usePlayerStore.getState().getLoopShaping(),
+    });
+    processorRef.current = processor;
 
     return () => {
-      processor.current?.dispose();
+      usePlayerStore.getState().setDecodedMedia(null);
+      processor.dispose();
+      processorRef.current = null;
+      engineActiveRef.current = false;
     };
   }, []);
 
+  // Decide who plays: the engine while looping a region, the element otherwise.
+  // Runs before the decoding effect so a handoff still sees the previous buffer.
   useEffect(() => {
-    if (!processor.current || !currentFile) return;
+    const processor = processorRef.current;
+    const mediaElement = audioRef.current;
+    if (!processor || !mediaElement) return;
 
-    const loadFile = async () => {
-      const response = await fetch(currentFile.url);
-      const blob = await response.blob();
-      const file = new File([blob], currentFile.name, {
-        type: currentFile.type,
-      });
-      await processor.current?.loadFile(file);
-    };
+    const hasRegion = loopStart !== null && loopEnd !== null && loopEnd > loopStart;
+    const shouldUseEngine =
+      loopEngineEnabled &&
+      readyUrl !== null &&
+      readyUrl === currentFile?.url &&
+      isPlaying &&
+      isLooping &&
+      hasRegion;
 
-    loadFile();
-  }, [currentFile]);
+    if (!shouldUseEngine && engineActiveRef.current) {
+      const position = processor.stop();
+      engineActiveRef.current = false;
+      // Only resume where the engine left off if it was still playing this file
+      if (activeUrlRef.current === currentFile?.url) {
+        mediaElement.currentTime = position;
+        if (isPlaying) {
+          safePlay(mediaElement);
+        }
+      }
+    }
 
-  useEffect(() => {
-    if (!processor.current) return;
+    processor.setPlaybackRate(playbackRate);
+    processor.setLoopPoints(loopStart, loopEnd);
 
-    processor.current.onTimeUpdate((time) => {
-      setCurrentTime(time);
-    });
-  }, [setCurrentTime]);
+    if (shouldUseEngine && !engineActiveRef.current) {
+      engineActiveRef.current = true;
+      activeUrlRef.current = currentFile?.url ?? null;
+      const position = mediaElement.currentTime;
+      lastReportedTimeRef.current = position;
+      mediaElement.pause();
+      processor.play(position).catch((error) => {
+        console.error("Failed to start loop engine:", error);
+        engineActiveRef.current = false;
+        safePlay(mediaElement);
+      });
+    }
+  }, [
+    audioRef,
+    safePlay,
+    currentFile,
+    readyUrl,
+    loopEngineEnabled,
+    isPlaying,
+    isLooping,
+    loopStart,
+    loopEnd,
+    playbackRate,
+  ]);
 
+  // Decode eligible files up front so looping can start without a delay.
+  // The decoded PCM also backs loop point snapping; media the engine cannot
+  // take is decoded for snapping alone.
+  const needsDecodedAudio = loopEngineEnabled || loopSnapMode !== "off";
+  const decodeFor = !currentFile || !needsDecodedAudio
+    ? null
+    : canUseLoopEngine(currentFile)
+      ? "engine"
+      : loopSnapMode !== "off" && canSnapMedia(currentFile)
+        ? "snapping"
+        : null;
   useEffect(() => {
-    if (!processor.current) return;
+    const processor = processorRef.current;
+    if (!processor) return;
 
-    if (isPlaying) {
-      processor.current.play();
-    } else {
-      processor.current.pause();
+    const { setDecodedMedia } = usePlayerStore.getState();
+    setDecodedMedia(null);
+    if (decodeFor !== "engine") {
+      processor.unload();
     }
-  }, [isPlaying]);
+    if (!currentFile || !decodeFor) return;
+
+    let cancelled = false;
+    const loadFile = async () => {
+      try {
+        const response = await fetch(currentFile.url);
+        const blob = await response.blob();
+        if (cancelled) return;
+        if (decodeFor === "snapping") {
+          const decoded = await decodeForSnapping(blob);
+          if (!cancelled) setDecodedMedia(decoded);
+          return;
+        }
+        if (await processor.loadFile(blob)) {
+          setReadyUrl(currentFile.url);
+          setDecodedMedia(processor.getAudioBuffer());
+        }
+      } catch (error) {
+        console.error("Failed to decode media for looping:", error);
+      }
+    };
+
+    loadFile();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentFile, decodeFor]);
+
+  useEffect(() => {
+    processorRef.current?.setTranspose(transpose);
+  }, [transpose]);
 
   useEffect(() => {
-    if (!processor.current) return;
-    processor.current.setPlaybackRate(playbackRate);
-  }, [playbackRate]);
+    processorRef.current?.setVolume(masterMuted || isMediaSilenced ? 0 : masterVolume * mediaVolume);
+  }, [masterVolume, mediaVolume, masterMuted, isMediaSilenced]);
 
+  // Follow seeks made through the store (slider, seek buttons, shortcuts)
   useEffect(() => {
-    if (!processor.current) return;
-    processor.current.setLoopPoints(loopStart, loopEnd);
-  }, [loopStart, loopEnd]);
+    return usePlayerStore.subscribe((state) => {
+      if (!engineActiveRef.current) return;
+      if (Math.abs(state.currentTime - lastReportedTimeRef.current) > 0.25) {
+        lastReportedTimeRef.current = state.currentTime;
+        processorRef.current?.seek(state.currentTime);
+      }
+    });
+  }, []);
+
+  // Precise engine position, or null while the media element is playing
+  const getEnginePosition = useCallback(
+    () => (engineActiveRef.current ? processorRef.current?.getCurrentTime() ?? null : null),
+    []
+  );
 
-  return processor.current;
+  return { engineActiveRef, getEnginePosition };
 };
@@ -27,6 +27,9 @@ export const useKeyboardShortcuts = () => {
     seekStepSeconds,
     seekSmallStepSeconds,
     toggleLooping,
+    undo,
+    redo,
+    revealCurrentTranscriptSegment,
   } = usePlayerStore()
 
   useEffect(() => {
@@ -40,6 +43,17 @@ export const useKeyboardShortcuts = () => {
         return
       }
 
+      // Undo/redo loop and bookmark edits - Ctrl/Cmd+Z, Ctrl/Cmd+Shift+Z
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'z') {
+        e.preventDefault()
+        if (e.shiftKey) {
+          redo()
+        } else {
+          undo()
+        }
+        return
+      }
+
       switch (e.key) {
         // Play/Pause - Spacebar
         case ' ':
@@ -54,11 +68,11 @@ export const useKeyboardShortcuts = () => {
           if (duration === 0) break
           if (loopEnd !== null && currentTime >= loopEnd) {
             // After B: start a new loop by setting A and clearing B
-            setLoopPoints(currentTime, null)
+            setLoopPoints(currentTime, null, { snap: true })
             setIsLooping(false)
           } else {
             // Before B (or B not set): move A only, keep B
-            setLoopPoints(currentTime, loopEnd)
+            setLoopPoints(currentTime, loopEnd, { snap: true })
             if (loopEnd !== null && !isLooping) setIsLooping(true)
           }
           break
@@ -70,7 +84,7 @@ export const useKeyboardShortcuts = () => {
           e.preventDefault()
           const start = loopStart !== null ? loopStart : 0
           if (currentTime > start) {
-            setLoopPoints(start, currentTime)
+            setLoopPoints(start, currentTime, { snap: true })
           }
           break
         }
@@ -91,6 +105,15 @@ export const useKeyboardShortcuts = () => {
           setIsLooping(false)
           break
 
+        // Reveal the current transcript segment in hidden, blurred or cloze mode - R key
+        case 'r':
+        case 'R':
+          // Leave Ctrl/Cmd+R to reload the page
+          if (e.ctrlKey || e.metaKey) break
+          e.preventDefault()
+          revealCurrentTranscriptSegment()
+          break
+
         // Seek backward - Left arrow
         case 'ArrowLeft':
           e.preventDefault()
@@ -222,6 +245,9 @@ export const useKeyboardShortcuts = () => {
     currentFile,
     currentYouTube,
     storeAddBookmark,
-    getCurrentMediaBookmarks
+    getCurrentMediaBookmarks,
+    undo,
+    redo,
+    revealCurrentTranscriptSegment
   ])
 }
@@ -0,0 +1,80 @@
+import { RefObject, useEffect } from "react";
+import * as Tone from "tone";
+import { useShallow } from "zustand/react/shallow";
+import { usePlayerStore } from "../stores/playerStore";
+import { mediaEffects } from "../utils/audioEffects";
+
+interface ElementRoute {
+  source: MediaElementAudioSourceNode;
+  pitchShift: Tone.PitchShift;
+}
+
+// An element can only be captured once, so its route lives as long as the element
+const routes = new WeakMap<HTMLMediaElement, Promise<ElementRoute>>();
+
+const getRoute = (element: HTMLMediaElement) => {
+  let route = routes.get(element);
+  if (!route) {
+    route = (async () => {
+      // The element goes silent once captured, so the context must be running first
+      await Tone.start();
+      const source = Tone.getContext().createMediaElementSource(element);
+      const pitchShift = new Tone.PitchShift({ pitch: 0 }).connect(mediaEffects.getInput());
+      Tone.connect(source, mediaEffects.getInput());
+      return { source, pitchShift };
+    })();
+    routes.set(element, route);
+  }
+  return route;
+};
+
+// Bypass the shifter at zero so untransposed playback keeps its full quality
+const applyTranspose = ({ source, pitchShift }: ElementRoute, semitones: number) => {
+  source.disconnect();
+  if (Math.abs(semitones) < 0.01) {
+    Tone.connect(source, mediaEffects.getInput());
+  } else {
+    pitchShift.pitch = semitones;
+    Tone.connect(source, pitchShift);
+  }
+};
+
+/**
+ * Routes a local media element through Web Audio for transpose and the effects
+ * chain. The element is only captured once either is needed while it plays;
+ * the loop engine feeds the same effects chain on its own.
+ */
+export const useMediaElementGraph = (
+  mediaRef: RefObject<HTMLMediaElement>,
+  sourceUrl: string | undefined
+) => {
+  const { transpose, effectsEnabled } = usePlayerStore(
+    useShallow((state) => ({
+      transpose: state.transpose,
+      effectsEnabled: state.audioEffects.enabled,
+    }))
+  );
+
+  useEffect(() => {
+    const element = mediaRef.current;
+    if (!element) return;
+
+    const update = () => {
+      if (transpose === 0 && !effectsEnabled && !routes.has(element)) return;
+      getRoute(element)
+        .then((route) => applyTranspose(route, transpose))
+        .catch((error) => {
+          console.error("Failed to route media through Web Audio:", error);
+        });
+    };
+
+    // Capturing starts the AudioContext, which needs playback to have been started by the user
+    if (routes.has(element) || !element.paused) {
+      update();
+    }
+    element.addEventListener("play", update);
+    return () => {
+      element.removeEventListener("play", update);
+    };
+  }, [mediaRef, sourceUrl, transpose, effectsEnabled]);
+};
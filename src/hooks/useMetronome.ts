@@ -0,0 +1,104 @@
+import { useEffect } from "react";
+import { useShallow } from "zustand/react/shallow";
+import { usePlayerStore } from "../stores/playerStore";
+import { metronome } from "../utils/metronome";
+
+// How often clicks are scheduled and how far ahead
+const SCHEDULER_INTERVAL_MS = 25;
+const SCHEDULE_AHEAD_SECONDS = 0.1;
+
+/**
+ * Fill the end of a loop gap with count-in clicks so the last click
+ * falls one beat before playback resumes at `resumeAt` (AudioContext time).
+ */
+export const scheduleLoopCountIn = (resumeAt: number, countIn: number) => {
+  const { countInBars, beatsPerBar } = usePlayerStore.getState();
+  const beats = countInBars * beatsPerBar;
+  if (!beats || countIn <= 0) return;
+  metronome.scheduleCountIn(resumeAt, beats, countIn / beats, beatsPerBar);
+};
+
+/**
+ * Clicks along with playback on the `bpm` grid. Beats are counted from the
+ * loop start while looping, otherwise from the start of the media.
+ * `getPosition` must return the precise media time, or null when unknown.
+ */
+export const useMetronome = (getPosition: () => number | null) => {
+  const {
+    metronomeEnabled,
+    metronomeVolume,
+    bpm,
+    beatsPerBar,
+    isPlaying,
+    volume: masterVolume,
+    muted: masterMuted,
+  } = usePlayerStore(
+    useShallow((state) => ({
+      metronomeEnabled: state.metronomeEnabled,
+      metronomeVolume: state.metronomeVolume,
+      bpm: state.bpm,
+      beatsPerBar: state.beatsPerBar,
+      isPlaying: state.isPlaying,
+      volume: state.volume,
+      muted: state.muted,
+    }))
+  );
+
+  useEffect(() => {
+    metronome.setVolume(masterMuted ? 0 : masterVolume * metronomeVolume);
+  }, [masterVolume, masterMuted, metronomeVolume]);
+
+  useEffect(() => {
+    if (!metronomeEnabled || !bpm || !isPlaying) return;
+
+    const beatDuration = 60 / bpm;
+    let lastBeatTime = -Infinity; // Media time of the last scheduled click
+    let seamScheduled = false; // Loop start click already queued on the seam
+
+    const intervalId = window.setInterval(() => {
+      const position = getPosition();
+      if (position === null) return;
+
+      const { playbackRate, isLooping, loopStart, loopEnd, loopDelay, countInBars } =
+        usePlayerStore.getState();
+      const hasLoop = isLooping && loopStart !== null && loopEnd !== null;
+      const anchor = hasLoop ? loopStart : 0;
+
+      // A jump backwards (loop wrap or seek) restarts the beat tracking
+      if (position < lastBeatTime - 0.05) {
+        lastBeatTime = seamScheduled ? anchor : -Infinity;
+        seamScheduled = false;
+      }
+
+      const now = metronome.now();
+      const horizon = position + SCHEDULE_AHEAD_SECONDS * playbackRate;
+      let index = Math.ceil((position - anchor) / beatDuration - 1e-6);
+
+      for (;;) {
+        const beatTime = anchor + index * beatDuration;
+        if (beatTime > horizon) break;
+
+        const beat = ((index % beatsPerBar) + beatsPerBar) % beatsPerBar;
+        if (hasLoop && beatTime >= loopEnd - 1e-3) {
+          // Gapless repeat: the loop's first beat lands exactly on the seam
+          if (!loopDelay && !countInBars && !seamScheduled) {
+            seamScheduled = true;
+            metronome.click(now + (loopEnd - position) / playbackRate, 0, true).catch(() => {});
+          }
+          break;
+        }
+        if (beatTime > lastBeatTime + 1e-6) {
+          lastBeatTime = beatTime;
+          metronome
+            .click(now + (beatTime - position) / playbackRate, beat, beat === 0)
+            .catch((error) => console.error("Failed to schedule click:", error));
+        }
+        index++;
+      }
+    }, SCHEDULER_INTERVAL_MS);
+
+    return () => {
+      window.clearInterval(intervalId);
+    };
+  }, [metronomeEnabled, bpm, beatsPerBar, isPlaying, getPosition]);
+};
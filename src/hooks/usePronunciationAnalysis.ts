@@ -0,0 +1,127 @@
+import { useEffect, useRef, useState } from "react";
+import { usePlayerStore } from "../stores/playerStore";
+import { useShadowingStore } from "../stores/shadowingStore";
+import { retrieveMediaFile } from "../utils/mediaStorage";
+import { shouldUseAdaptiveWaveform } from "../utils/waveformAnalysis";
+import { analyzePronunciation, extractMono } from "../utils/pronunciationAnalysis";
+import { findAlignmentShift, MAX_ALIGNMENT_SHIFT } from "../utils/takeAlignment";
+
+type WindowWithWebkitAudioContext = Window & typeof globalThis & {
+    webkitAudioContext?: typeof AudioContext;
+};
+
+const decodeFile = async (file: Blob) => {
+    const AudioContextClass = window.AudioContext || (window as WindowWithWebkitAudioContext).webkitAudioContext;
+    if (!AudioContextClass) {
+        throw new Error("Web Audio is not supported");
+    }
+    const audioContext = new AudioContextClass();
+    try {
+        return await audioContext.decodeAudioData(await file.arrayBuffer());
+    } finally {
+        audioContext.close();
+    }
+};
+
+/**
+ * Scores shadowing takes of the current media that have not been compared
+ * with the original yet, one at a time, and stores the result on the take.
+ * With automatic alignment on, a new take is first moved to where it best
+ * matches the original. Only local audio files small enough for full
+ * waveform analysis are used.
+ */
+export const usePronunciationAnalysis = () => {
+    const currentFile = usePlayerStore((state) => state.currentFile);
+    const mediaId = usePlayerStore((state) => state.getCurrentMediaId());
+    const segments = useShadowingStore((state) => (mediaId ? state.sessions[mediaId]?.segments : undefined));
+
+    const isRunningRef = useRef(false);
+    // Takes that could not be analyzed are not retried until the page reloads
+    const skippedRef = useRef(new Set<string>());
+    const [retryKey, setRetryKey] = useState(0);
+
+    useEffect(() => {
+        if (!mediaId || !currentFile?.url || isRunningRef.current) return;
+        if (!segments?.some((segment) => !segment.analysis && !skippedRef.current.has(segment.id))) return;
+
+        const isCurrentMedia = () => usePlayerStore.getState().getCurrentMediaId() === mediaId;
+        isRunningRef.current = true;
+
+        const run = async () => {
+            // Decoded per run rather than kept around, as long media takes a lot of memory
+            const file = currentFile.storageId
+                ? await retrieveMediaFile(currentFile.storageId)
+                : await fetch(currentFile.url).then((response) => response.blob()).then(
+                    (blob) => new File([blob], currentFile.name, { type: currentFile.type })
+                );
+            const original = file && shouldUseAdaptiveWaveform(file) ? await decodeFile(file) : null;
+
+            // Segments are read from the store each pass so takes recorded meanwhile are picked up
+            while (isCurrentMedia()) {
+                const segment = useShadowingStore
+                    .getState()
+                    .getSegments(mediaId)
+                    .find((s) => !s.analysis && !skippedRef.current.has(s.id));
+                if (!segment) break;
+
+                if (!original) {
+                    skippedRef.current.add(segment.id);
+                    continue;
+                }
+
+                try {
+                    const file = await retrieveMediaFile(segment.storageId);
+                    if (!file) throw new Error(`Recording ${segment.storageId} not found`);
+                    const take = await decodeFile(file);
+
+                    if (useShadowingStore.getState().autoAlignTakes && segment.alignmentShift === undefined) {
+                        const takeStart = segment.fileOffset || 0;
+                        const takeDuration = segment.duration > 0 ? segment.duration : take.duration - takeStart;
+                        const from = Math.max(0, segment.startTime - MAX_ALIGNMENT_SHIFT);
+                        const shift = findAlignmentShift(
+                            extractMono(original, from, segment.startTime + takeDuration + MAX_ALIGNMENT_SHIFT),
+                            original.sampleRate,
+                            extractMono(take, takeStart, takeStart + takeDuration),
+                            take.sampleRate,
+                            segment.startTime - from
+                        );
+                        useShadowingStore.getState().alignSegment(mediaId, segment.id, shift ?? 0);
+                        // Scored where it now sits; the loop picks the moved take up again
+                        continue;
+                    }
+
+                    const fileOffset = segment.fileOffset || 0;
+                    const duration = segment.duration > 0 ? segment.duration : take.duration - fileOffset;
+                    // Let playback and drawing catch up before the heavy part
+                    await new Promise((resolve) => setTimeout(resolve, 0));
+
+                    const analysis = analyzePronunciation(
+                        extractMono(original, segment.startTime, segment.startTime + duration),
+                        original.sampleRate,
+                        extractMono(take, fileOffset, fileOffset + duration),
+                        take.sampleRate,
+                        segment.startTime
+                    );
+                    if (analysis) {
+                        useShadowingStore.getState().setSegmentAnalysis(mediaId, segment.id, analysis);
+                    } else {
+                        skippedRef.current.add(segment.id);
+                    }
+                } catch (error) {
+                    console.error("Failed to analyze shadowing take:", error);
+                    skippedRef.current.add(segment.id);
+                }
+            }
+        };
+
+        run()
+            .catch((error) => {
+                console.error("Failed to load media for pronunciation analysis:", error);
+            })
+            .finally(() => {
+                isRunningRef.current = false;
+                // The media may have changed while this run was busy
+                if (!isCurrentMedia()) setRetryKey((key) => key + 1);
+            });
+    }, [mediaId, currentFile, segments, retryKey]);
+};
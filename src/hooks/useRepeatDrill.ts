@@ -0,0 +1,226 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { TranscriptSegment, usePlayerStore } from "../stores/playerStore";
+import { ShadowingSegment, useShadowingStore } from "../stores/shadowingStore";
+import { retrieveMediaFile } from "../utils/mediaStorage";
+import { checkAudioRecordingSupport } from "../utils/browserCheck";
+
+export type DrillPhase = "listening" | "repeating" | "reviewing";
+
+const MIN_GAP_SECONDS = 1; // Even a one-word segment leaves time to say it
+const TAKE_SAVE_TIMEOUT_MS = 5000; // A repetition that is not saved by then is not played back
+
+// Resolves after `ms`, or as soon as the drill is interrupted
+const wait = (ms: number, signal: AbortSignal) =>
+    new Promise<void>((resolve) => {
+        const finish = () => {
+            window.clearTimeout(timer);
+            signal.removeEventListener("abort", finish);
+            resolve();
+        };
+        const timer = window.setTimeout(finish, ms);
+        signal.addEventListener("abort", finish);
+    });
+
+// Plays the segment once and pauses at its end. Resolves to false when
+// playback stopped early, from elsewhere or because the drill was interrupted.
+const playSegment = (segment: TranscriptSegment, signal: AbortSignal) =>
+    new Promise<boolean>((resolve) => {
+        const { setIsLooping, setCurrentTime, setIsPlaying } = usePlayerStore.getState();
+        setIsLooping(false);
+        setCurrentTime(Math.max(0, segment.startTime - 0.15));
+        setIsPlaying(true);
+
+        let settled = false;
+        const finish = (completed: boolean) => {
+            if (settled) return;
+            settled = true;
+            unsubscribe();
+            signal.removeEventListener("abort", interrupt);
+            resolve(completed);
+        };
+        const interrupt = () => finish(false);
+        const unsubscribe = usePlayerStore.subscribe((state) => {
+            if (state.currentTime >= segment.endTime) {
+                state.setIsPlaying(false);
+                finish(true);
+            } else if (!state.isPlaying) {
+                finish(false);
+            }
+        });
+        signal.addEventListener("abort", interrupt);
+    });
+
+// The take the recorder saves for the repetition, once it has been decoded and stored
+const waitForTake = (mediaId: string, knownIds: Set<string>, signal: AbortSignal) =>
+    new Promise<ShadowingSegment | null>((resolve) => {
+        const find = () =>
+            useShadowingStore.getState().getSegments(mediaId).find((take) => !knownIds.has(take.id)) ?? null;
+
+        let settled = false;
+        const finish = (take: ShadowingSegment | null) => {
+            if (settled) return;
+            settled = true;
+            window.clearTimeout(timer);
+            unsubscribe();
+            signal.removeEventListener("abort", interrupt);
+            resolve(take);
+        };
+        const interrupt = () => finish(null);
+        const timer = window.setTimeout(interrupt, TAKE_SAVE_TIMEOUT_MS);
+        const unsubscribe = useShadowingStore.subscribe(() => {
+            const take = find();
+            if (take) finish(take);
+        });
+        signal.addEventListener("abort", interrupt);
+        const saved = find();
+        if (saved) finish(saved);
+    });
+
+const playTake = async (take: ShadowingSegment, signal: AbortSignal) => {
+    const file = await retrieveMediaFile(take.storageId);
+    if (!file || signal.aborted) return;
+
+    const url = URL.createObjectURL(file);
+    const audio = new Audio(url);
+    audio.volume = Math.min(1, useShadowingStore.getState().volume * usePlayerStore.getState().volume);
+    try {
+        await new Promise<void>((resolve) => {
+            const finish = () => {
+                audio.pause();
+                signal.removeEventListener("abort", finish);
+                resolve();
+            };
+            audio.onended = finish;
+            audio.onerror = finish;
+            signal.addEventListener("abort", finish);
+            audio.play().catch(finish);
+        });
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+};
+
+/**
+ * Listen-and-repeat drill over transcript segments in time order. Each
+ * segment is played, then playback pauses for a gap proportional to its
+ * length while the learner repeats it; the repetition can be recorded as a
+ * shadowing take of the segment and played back before the drill moves on.
+ * The segment reached is kept per media, so the drill resumes from there.
+ */
+export const useRepeatDrill = (segments: TranscriptSegment[]) => {
+    const mediaId = usePlayerStore((state) => state.getCurrentMediaId());
+    const savedPosition = useShadowingStore((state) => (mediaId ? state.drillPositions[mediaId] : undefined));
+    const ordered = useMemo(() => [...segments].sort((a, b) => a.startTime - b.startTime), [segments]);
+    const index = Math.max(0, ordered.findIndex((segment) => segment.id === savedPosition));
+
+    const [isRunning, setIsRunning] = useState(false);
+    const [phase, setPhase] = useState<DrillPhase | null>(null);
+    const [repetition, setRepetition] = useState(1);
+    const controllerRef = useRef<AbortController | null>(null);
+    // Shadowing mode as it was before the drill turned it on for recording
+    const restoreRef = useRef<{ shadowingMode: boolean } | null>(null);
+
+    const pause = useCallback(() => {
+        controllerRef.current?.abort();
+        controllerRef.current = null;
+
+        const shadowing = useShadowingStore.getState();
+        shadowing.setRepetitionStart(null);
+        if (restoreRef.current) {
+            usePlayerStore.getState().setIsPlaying(false);
+            shadowing.setShadowingMode(restoreRef.current.shadowingMode);
+            restoreRef.current = null;
+        }
+        shadowing.setIsDrilling(false);
+        setIsRunning(false);
+        setPhase(null);
+    }, []);
+
+    const run = useCallback(async (fromIndex: number) => {
+        if (!mediaId || fromIndex >= ordered.length) return;
+        controllerRef.current?.abort();
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        const { signal } = controller;
+
+        const shadowing = useShadowingStore.getState();
+        if (!restoreRef.current) {
+            restoreRef.current = { shadowingMode: shadowing.isShadowingMode };
+        }
+        shadowing.setIsDrilling(true);
+        setIsRunning(true);
+        const canRecord = checkAudioRecordingSupport().supportsAudioRecording;
+
+        for (let i = Math.max(0, fromIndex); i < ordered.length; i++) {
+            const segment = ordered[i];
+            useShadowingStore.getState().setDrillPosition(mediaId, segment.id);
+
+            // Settings are read for every repetition, so changes apply straight away
+            for (let count = 1; count <= useShadowingStore.getState().repeatDrill.repeats; count++) {
+                const { repeatDrill, setShadowingMode, setRepetitionStart, getSegments } = useShadowingStore.getState();
+                const record = canRecord && repeatDrill.record;
+                if (record) {
+                    setShadowingMode(true);
+                }
+
+                setRepetition(count);
+                setPhase("listening");
+                const completed = await playSegment(segment, signal);
+                if (signal.aborted) return;
+                if (!completed) {
+                    pause();
+                    return;
+                }
+
+                setPhase("repeating");
+                const knownIds = new Set(getSegments(mediaId).map((take) => take.id));
+                if (record) {
+                    setRepetitionStart(segment.startTime);
+                }
+                const gap = Math.max(MIN_GAP_SECONDS, (segment.endTime - segment.startTime) * repeatDrill.gapFactor);
+                await wait(gap * 1000, signal);
+                setRepetitionStart(null);
+                if (signal.aborted) return;
+
+                if (record && repeatDrill.playback) {
+                    setPhase("reviewing");
+                    const take = await waitForTake(mediaId, knownIds, signal);
+                    if (take) await playTake(take, signal);
+                    if (signal.aborted) return;
+                }
+            }
+        }
+
+        // Finished: the next drill starts from the beginning
+        useShadowingStore.getState().setDrillPosition(mediaId, null);
+        pause();
+    }, [mediaId, ordered, pause]);
+
+    const goTo = useCallback((target: number) => {
+        const clamped = Math.max(0, Math.min(ordered.length - 1, target));
+        if (!mediaId || !ordered[clamped]) return;
+        if (controllerRef.current) {
+            void run(clamped);
+        } else {
+            useShadowingStore.getState().setDrillPosition(mediaId, ordered[clamped].id);
+        }
+    }, [mediaId, ordered, run]);
+
+    // Stop when the media changes or the drill is closed
+    useEffect(() => pause, [mediaId, pause]);
+
+    return {
+        segment: ordered[index] as TranscriptSegment | undefined,
+        index,
+        total: ordered.length,
+        isRunning,
+        phase,
+        repetition,
+        // Runs from the current segment; while running, starts it over
+        start: () => void run(index),
+        pause,
+        next: () => goTo(index + 1),
+        previous: () => goTo(index - 1),
+        restart: () => goTo(0),
+    };
+};
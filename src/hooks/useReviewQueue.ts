@@ -0,0 +1,52 @@
+import { useMemo } from "react";
+import { useShallow } from "zustand/react/shallow";
+import { LoopBookmark, MediaHistoryItem, usePlayerStore } from "../stores/playerStore";
+import { isReviewDue } from "../utils/spacedRepetition";
+
+export interface ReviewItem {
+  mediaId: string;
+  bookmark: LoopBookmark;
+  historyItem: MediaHistoryItem;
+}
+
+// Bookmarks are keyed by the media id the player derives when media is loaded
+const getHistoryMediaId = (item: MediaHistoryItem) => {
+  if (item.type === "youtube") {
+    return item.youtubeData?.youtubeId ? `youtube-${item.youtubeData.youtubeId}` : null;
+  }
+  return item.storageId ?? null;
+};
+
+/**
+ * Bookmarks due for review across all media, oldest due first. Only media that
+ * can be reopened from history is included, since reviewing needs to play it.
+ */
+export const useReviewQueue = () => {
+  const { mediaBookmarks, mediaHistory } = usePlayerStore(
+    useShallow((state) => ({
+      mediaBookmarks: state.mediaBookmarks,
+      mediaHistory: state.mediaHistory,
+    }))
+  );
+
+  return useMemo(() => {
+    const historyByMediaId = new Map<string, MediaHistoryItem>();
+    mediaHistory.forEach((item) => {
+      const mediaId = getHistoryMediaId(item);
+      if (mediaId) historyByMediaId.set(mediaId, item);
+    });
+
+    const now = Date.now();
+    const queue: ReviewItem[] = [];
+    Object.entries(mediaBookmarks).forEach(([mediaId, bookmarks]) => {
+      const historyItem = historyByMediaId.get(mediaId);
+      if (!historyItem) return;
+      bookmarks
+        .filter((bookmark) => isReviewDue(bookmark.review, now))
+        .forEach((bookmark) => queue.push({ mediaId, bookmark, historyItem }));
+    });
+
+    const dueAt = (item: ReviewItem) => item.bookmark.review?.due ?? item.bookmark.createdAt;
+    return queue.sort((a, b) => dueAt(a) - dueAt(b));
+  }, [mediaBookmarks, mediaHistory]);
+};
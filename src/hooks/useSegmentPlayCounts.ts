@@ -0,0 +1,35 @@
+import { useEffect } from "react";
+import { usePlayerStore } from "../stores/playerStore";
+import type { TranscriptSegment } from "../stores/playerStore";
+
+// Playback must have reached this close to a segment's end for it to count as played
+const END_WINDOW = 0.5;
+
+/**
+ * Counts full plays of transcript segments, for text that reveals itself
+ * after a number of listens. A play ends when playback runs past the end of
+ * a segment or a loop wraps back from it.
+ */
+export function useSegmentPlayCounts(segments: TranscriptSegment[], enabled: boolean) {
+  useEffect(() => {
+    if (!enabled || segments.length === 0) return;
+
+    let previousTime = usePlayerStore.getState().currentTime;
+    return usePlayerStore.subscribe((state) => {
+      const time = state.currentTime;
+      if (time === previousTime) return;
+      const previous = previousTime;
+      previousTime = time;
+      if (!state.isPlaying) return;
+
+      const segment = segments.find((s) => previous >= s.startTime && previous < s.endTime);
+      if (
+        segment &&
+        previous >= segment.endTime - END_WINDOW &&
+        (time >= segment.endTime || time < previous)
+      ) {
+        state.recordSegmentPlay(segment.id);
+      }
+    });
+  }, [segments, enabled]);
+}
@@ -0,0 +1,110 @@
+import { useCallback, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { toast } from "react-hot-toast";
+import { usePlayerStore } from "../stores/playerStore";
+import { useShadowingStore } from "../stores/shadowingStore";
+import { retrieveMediaFile } from "../utils/mediaStorage";
+import { selectAudibleTakes } from "../utils/shadowingTakes";
+import {
+    audioBufferToWav,
+    MAX_EXPORT_DURATION,
+    renderShadowingSession,
+    ShadowingExportMode,
+} from "../utils/shadowingExport";
+
+type WindowWithWebkitAudioContext = Window & typeof globalThis & {
+    webkitAudioContext?: typeof AudioContext;
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+};
+
+/**
+ * Exports the current media's shadowing session as a WAV file, over the A-B
+ * loop when one is set and the whole media otherwise. Takes are chosen the
+ * way playback chooses them, so overlapping attempts do not pile up, and only
+ * those in the range are decoded. The original can only be included for
+ * local files. Ranges over MAX_EXPORT_DURATION are refused.
+ */
+export const useShadowingExport = () => {
+    const { t } = useTranslation();
+    const [exportingMode, setExportingMode] = useState<ShadowingExportMode | null>(null);
+
+    const exportSession = useCallback(async (mode: ShadowingExportMode) => {
+        const { getCurrentMediaId, currentFile, currentYouTube, loopStart, loopEnd, duration } = usePlayerStore.getState();
+        const mediaId = getCurrentMediaId();
+        if (!mediaId) return;
+        const audibleTakes = selectAudibleTakes(useShadowingStore.getState().getSegments(mediaId));
+        if (audibleTakes.length === 0 || (mode !== "voice" && !currentFile)) return;
+
+        const hasLoop = loopStart !== null && loopEnd !== null && loopEnd > loopStart;
+        const start = hasLoop ? loopStart : 0;
+        const end = hasLoop
+            ? loopEnd
+            : duration > 0
+                ? duration
+                : Math.max(...audibleTakes.map((take) => take.startTime + take.duration));
+        if (end - start > MAX_EXPORT_DURATION) {
+            toast.error(t("shadowing.exportTooLong", { minutes: MAX_EXPORT_DURATION / 60 }));
+            return;
+        }
+        // A take of unknown length is kept: it may still reach into the range
+        const takes = audibleTakes.filter(
+            (take) => take.startTime < end && (take.duration <= 0 || take.startTime + take.duration > start)
+        );
+
+        const AudioContextClass = window.AudioContext || (window as WindowWithWebkitAudioContext).webkitAudioContext;
+        if (!AudioContextClass) return;
+
+        setExportingMode(mode);
+        const audioContext = new AudioContextClass();
+        try {
+            const decode = async (file: Blob) => audioContext.decodeAudioData(await file.arrayBuffer());
+
+            let original: AudioBuffer | null = null;
+            if (mode !== "voice" && currentFile) {
+                const file = currentFile.storageId
+                    ? await retrieveMediaFile(currentFile.storageId)
+                    : await fetch(currentFile.url).then((response) => response.blob());
+                if (!file) throw new Error("Media file not found");
+                original = await decode(file);
+            }
+
+            const decodedTakes = await Promise.all(
+                takes.map(async (take) => {
+                    const file = await retrieveMediaFile(take.storageId);
+                    if (!file) throw new Error(`Recording ${take.storageId} not found`);
+                    const buffer = await decode(file);
+                    const fileOffset = take.fileOffset || 0;
+                    return {
+                        buffer,
+                        startTime: take.startTime,
+                        duration: take.duration > 0 ? take.duration : buffer.duration - fileOffset,
+                        fileOffset,
+                    };
+                })
+            );
+
+            const rendered = await renderShadowingSession(original, decodedTakes, start, end, mode);
+            const baseName = (currentFile?.name.replace(/\.[^.]+$/, "") || currentYouTube?.title || "shadowing").trim();
+            downloadBlob(audioBufferToWav(rendered), `${baseName}-shadowing-${mode}.wav`);
+            toast.success(t("shadowing.exportSuccess"));
+        } catch (error) {
+            console.error("Failed to export shadowing session:", error);
+            toast.error(t("shadowing.exportFailed", { message: (error as Error).message }));
+        } finally {
+            audioContext.close();
+            setExportingMode(null);
+        }
+    }, [t]);
+
+    return { exportSession, exportingMode };
+};
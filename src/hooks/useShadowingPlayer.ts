@@ -1,7 +1,9 @@
-import { useEffect, useRef, useState, useCallback } from "react";
+import { useEffect, useMemo, useRef, useState, useCallback } from "react";
 import { usePlayerStore } from "../stores/playerStore";
 import { useShadowingStore } from "../stores/shadowingStore";
 import { retrieveMediaFile } from "../utils/mediaStorage";
+import { selectHeardTakes } from "../utils/shadowingTakes";
+import { compressWavTake } from "../utils/takeEncoder";
 
 // Stable empty array to avoid creating new [] on every render
 const EMPTY_SEGMENTS: readonly any[] = Object.freeze([]);
@@ -20,6 +22,7 @@ export const useShadowingPlayer = () => {
     const {
         volume,
         muted,
+        isDrilling,
     } = useShadowingStore();
 
     // Get master volume and muted state reactively
@@ -29,7 +32,7 @@ export const useShadowingPlayer = () => {
     const audioContextRef = useRef<AudioContext | null>(null);
     const gainNodeRef = useRef<GainNode | null>(null);
     const activeNodesRef = useRef<AudioBufferSourceNode[]>([]);
-    const segmentsRef = useRef<{ start: number; duration: number; fileOffset: number; buffer: AudioBuffer }[]>([]);
+    const segmentsRef = useRef<{ id: string; start: number; duration: number; fileOffset: number; buffer: AudioBuffer }[]>([]);
     const startTimeRef = useRef<number>(0);
     const contextStartTimeRef = useRef<number>(0);
 
@@ -45,6 +48,29 @@ export const useShadowingPlayer = () => {
         .map((seg) => `${seg.id}:${seg.storageId}:${seg.startTime}:${seg.duration}:${seg.fileOffset || 0}`)
         .join("|");
 
+    // Overlapping takes would play over each other, so only one per region is heard
+    const auditionTakeId = useShadowingStore((state) => state.auditionTakeId);
+    const auditionSource = useShadowingStore((state) => state.auditionSource);
+    const audibleKey = useMemo(
+        () => selectHeardTakes(segments, auditionTakeId, auditionSource).map((seg) => seg.id).join("|"),
+        [segments, auditionTakeId, auditionSource]
+    );
+    const audibleIdsRef = useRef(new Set<string>());
+    audibleIdsRef.current = new Set(audibleKey.split("|"));
+
+    // The original is silenced while a take is auditioned on its own
+    useEffect(() => {
+        usePlayerStore.getState().setMediaSilenced(!!auditionTakeId && auditionSource === "take");
+    }, [auditionTakeId, auditionSource]);
+
+    useEffect(() => {
+        useShadowingStore.getState().setAudition(null);
+        return () => {
+            useShadowingStore.getState().setAudition(null);
+            usePlayerStore.getState().setMediaSilenced(false);
+        };
+    }, [mediaId]);
+
     // Initialize AudioContext
     useEffect(() => {
         if (!audioContextRef.current) {
@@ -99,7 +125,15 @@ export const useShadowingPlayer = () => {
 
                         const audioBuffer = await audioContextRef.current.decodeAudioData(arrayBuffer);
 
+                        // Takes stored as WAV by earlier versions are compressed in the background
+                        void compressWavTake(seg.storageId, file, audioBuffer).then((storageId) => {
+                            if (storageId) {
+                                void useShadowingStore.getState().replaceTakeFile(seg.storageId, storageId);
+                            }
+                        });
+
                         return {
+                            id: seg.id,
                             start: seg.startTime,
                             duration: seg.duration,
                             fileOffset: seg.fileOffset || 0,
@@ -158,6 +192,10 @@ export const useShadowingPlayer = () => {
         contextStartTimeRef.current = ctx.currentTime;
 
         segmentsRef.current.forEach((seg) => {
+            if (!audibleIdsRef.current.has(seg.id)) {
+                return;
+            }
+
             const playDuration = seg.duration || seg.buffer.duration;
             const segEnd = seg.start + playDuration;
 
@@ -197,14 +235,14 @@ export const useShadowingPlayer = () => {
         });
     }, [isLoaded, playbackRate, stopAll]);
 
-    // Respond to Play/Pause/Seek
+    // Respond to Play/Pause/Seek, and restart when the audible takes change
     useEffect(() => {
         if (isPlaying) {
             playAt(currentTime);
         } else {
             stopAll();
         }
-    }, [isPlaying, playAt, stopAll]); // currentTime dependency removed to avoid restart on every tick
+    }, [isPlaying, playAt, stopAll, audibleKey]); // currentTime dependency removed to avoid restart on every tick
 
     // Handle Seeking (when currentTime changes significantly while playing)
     const lastTimeRef = useRef(currentTime);
@@ -223,13 +261,14 @@ export const useShadowingPlayer = () => {
     }, [currentTime, isPlaying, playAt]);
 
 
-    // Update Volume / Mute - combine master volume with track volume
+    // Update Volume / Mute - combine master volume with track volume. Takes are
+    // silent during a repeat drill, where earlier repetitions sit on the segment.
     useEffect(() => {
         if (gainNodeRef.current) {
-            const finalGain = (masterMuted || muted) ? 0 : (masterVolume * volume);
+            const finalGain = (masterMuted || muted || isDrilling) ? 0 : (masterVolume * volume);
             gainNodeRef.current.gain.value = finalGain;
         }
-    }, [volume, muted, masterVolume, masterMuted]);
+    }, [volume, muted, isDrilling, masterVolume, masterMuted]);
 
     // Update Playback Rate
     // Update active nodes if rate changes live
@@ -1,9 +1,14 @@
 import { useEffect, useRef, useState } from "react";
+import i18n from "../i18n";
 import { usePlayerStore } from "../stores/playerStore";
-import { useShadowingStore } from "../stores/shadowingStore";
+import { useInputLevelStore, useShadowingStore } from "../stores/shadowingStore";
 import { storeMediaFile } from "../utils/mediaStorage";
 import { toast } from "react-hot-toast";
-import { UniversalAudioRecorder } from "../utils/audioRecorder";
+import { AudioRecorderConfig, UniversalAudioRecorder } from "../utils/audioRecorder";
+import { shiftTake } from "../utils/shadowingTakes";
+import { takeFileExtension } from "../utils/takeEncoder";
+import { getVoicePreRoll } from "../utils/voiceActivity";
+import { openCamera, startVideoCapture, VideoCapture, videoFileExtension } from "../utils/videoCapture";
 
 type WindowWithWebkitAudioContext = Window & typeof globalThis & {
     webkitAudioContext?: typeof AudioContext;
@@ -17,7 +22,15 @@ export const useShadowingRecorder = () => {
         addSegment,
         muted: shadowingMuted,
         setMuted: setShadowingMuted,
+        microphone,
+        isDrilling,
+        repetitionStart,
+        recordingTrigger,
+        voiceActivity,
+        isVoiceActive,
+        recordVideo,
     } = useShadowingStore();
+    const { deviceId, echoCancellation, noiseSuppression, autoGainControl, inputGain, monitor } = microphone;
 
     const audioRecorderRef = useRef<UniversalAudioRecorder | null>(null);
     const chunksRef = useRef<Blob[]>([]);
@@ -25,9 +38,15 @@ export const useShadowingRecorder = () => {
     const endTimeRef = useRef<number>(0); // Track when recording actually ends
     const recordingClockStartRef = useRef<number>(0);
     const streamRef = useRef<MediaStream | null>(null);
+    const streamKeyRef = useRef(""); // Device and processing the open stream was requested with
+    const inputRef = useRef<UniversalAudioRecorder | null>(null); // Meters and monitors the input between takes
+    const armedRecorderRef = useRef<UniversalAudioRecorder | null>(null); // Holds the pre-roll of the next voice-triggered take
     const previousMuteStateRef = useRef<boolean>(false); // Store mute state before recording
     const isStartingRef = useRef(false);
+    const isRepetitionRef = useRef(false); // The take in progress is a drill repetition
+    const trailingSilenceRef = useRef(0); // Silence the voice detector waited out at the end of the take
     const [streamVersion, setStreamVersion] = useState(0);
+    const [armVersion, setArmVersion] = useState(0);
 
     // Cleanup on unmount
     useEffect(() => {
@@ -38,9 +57,17 @@ export const useShadowingRecorder = () => {
         };
     }, []);
 
-    // Initialize stream when shadowing mode is enabled
+    // Initialize stream when shadowing mode is enabled, and reopen it when the
+    // device or browser processing changes
     useEffect(() => {
         let cancelled = false;
+        const streamConfig = {
+            deviceId: deviceId ?? undefined,
+            echoCancellation,
+            noiseSuppression,
+            autoGainControl,
+        };
+        const streamKey = JSON.stringify(streamConfig);
 
         if (isShadowingMode) {
             // Check if getUserMedia is available
@@ -52,6 +79,12 @@ export const useShadowingRecorder = () => {
                 return;
             }
 
+            if (streamRef.current && streamKeyRef.current !== streamKey) {
+                streamRef.current.getTracks().forEach((track) => track.stop());
+                streamRef.current = null;
+                setStreamVersion((version) => version + 1);
+            }
+
             if (!streamRef.current) {
                 // Use async function with better error handling
                 (async () => {
@@ -67,12 +100,13 @@ export const useShadowingRecorder = () => {
                         }
 
                         console.log("🎤 [ShadowingRecorder] Requesting microphone access...");
-                        const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+                        const stream = await UniversalAudioRecorder.openStream(streamConfig);
                         if (cancelled || !useShadowingStore.getState().isShadowingMode) {
                             stream.getTracks().forEach((track) => track.stop());
                             return;
                         }
                         streamRef.current = stream;
+                        streamKeyRef.current = streamKey;
                         console.log("🎤 [ShadowingRecorder] Microphone stream initialized");
                         setStreamVersion((version) => version + 1);
                     } catch (err) {
@@ -110,7 +144,119 @@ export const useShadowingRecorder = () => {
         return () => {
             cancelled = true;
         };
-    }, [isShadowingMode]);
+    }, [isShadowingMode, deviceId, echoCancellation, noiseSuppression, autoGainControl]);
+
+    // Keep the input open for the level meter, monitoring and voice detection while shadowing
+    useEffect(() => {
+        const stream = streamRef.current;
+        if (!isShadowingMode || !stream) return;
+
+        const { microphone: settings, setIsVoiceActive } = useShadowingStore.getState();
+        const { setLevel } = useInputLevelStore.getState();
+        const input = new UniversalAudioRecorder(stream, {
+            inputGain: settings.inputGain,
+            monitor: settings.monitor,
+            onLevel: (level) => {
+                // Coarse steps keep the meter from re-rendering on every read
+                const rounded = Math.round(level * 100) / 100;
+                if (rounded !== useInputLevelStore.getState().level) {
+                    setLevel(rounded);
+                }
+            },
+            onVoiceActivity: (event) => {
+                const shadowing = useShadowingStore.getState();
+                shadowing.setIsVoiceActive(event === "start");
+                if (event === "stop") {
+                    trailingSilenceRef.current = shadowing.voiceActivity.silence;
+                }
+
+                const { getCurrentMediaId, currentTime, isPlaying: playing } = usePlayerStore.getState();
+                const mediaId = getCurrentMediaId();
+                if (mediaId && playing) {
+                    shadowing.addVoiceTrigger({ mediaId, time: currentTime, event });
+                }
+            },
+        });
+        inputRef.current = input;
+        input.openInput().catch((error) => {
+            console.error("🎤 [ShadowingRecorder] Failed to open input monitor:", error);
+        });
+
+        return () => {
+            input.close();
+            inputRef.current = null;
+            setLevel(0);
+            setIsVoiceActive(false);
+        };
+    }, [isShadowingMode, streamVersion]);
+
+    // The camera is open while shadowing mode records video, so takes start without waiting for it
+    useEffect(() => {
+        if (!isShadowingMode || !recordVideo) return;
+
+        let cancelled = false;
+        let camera: MediaStream | null = null;
+        openCamera()
+            .then((stream) => {
+                if (cancelled) {
+                    stream.getTracks().forEach((track) => track.stop());
+                    return;
+                }
+                camera = stream;
+                useShadowingStore.getState().setCameraStream(stream);
+            })
+            .catch((error) => {
+                if (cancelled) return;
+                console.error("🎥 [ShadowingRecorder] Camera access denied or failed:", error);
+                toast.error(i18n.t("shadowing.cameraFailed", { message: (error as Error).message }), { duration: 5000 });
+                useShadowingStore.getState().setRecordVideo(false);
+            });
+
+        return () => {
+            cancelled = true;
+            camera?.getTracks().forEach((track) => track.stop());
+            useShadowingStore.getState().setCameraStream(null);
+        };
+    }, [isShadowingMode, recordVideo]);
+
+    // Voice detection runs only with the voice trigger, and thresholds apply live
+    useEffect(() => {
+        inputRef.current?.setVoiceActivity(recordingTrigger === "voice" ? voiceActivity : null);
+        useShadowingStore.getState().setIsVoiceActive(false);
+    }, [recordingTrigger, voiceActivity, streamVersion]);
+
+    // The voice detector only fires once the learner has been speaking for a
+    // moment, so with the voice trigger the next take's recorder is opened ahead
+    // and keeps the latest input, from which the take starts
+    useEffect(() => {
+        const stream = streamRef.current;
+        if (!isShadowingMode || !stream || recordingTrigger !== "voice" || isDrilling) return;
+
+        const recorder = new UniversalAudioRecorder(stream, {
+            inputGain: useShadowingStore.getState().microphone.inputGain,
+            preRoll: getVoicePreRoll(voiceActivity),
+        });
+        armedRecorderRef.current = recorder;
+        recorder.openInput().catch((error) => {
+            console.error("🎤 [ShadowingRecorder] Failed to open the pre-roll recorder:", error);
+        });
+
+        return () => {
+            // A recorder that started a take is closed by the take
+            if (armedRecorderRef.current === recorder) {
+                armedRecorderRef.current = null;
+                recorder.close();
+            }
+        };
+    }, [isShadowingMode, recordingTrigger, isDrilling, voiceActivity, streamVersion, armVersion]);
+
+    // Gain and monitoring apply live, including to a take in progress
+    useEffect(() => {
+        inputRef.current?.setInputGain(inputGain);
+        inputRef.current?.setMonitoring(monitor);
+        armedRecorderRef.current?.setInputGain(inputGain);
+        audioRecorderRef.current?.setInputGain(inputGain);
+    }, [inputGain, monitor]);
 
     useEffect(() => {
         const stopRecording = () => {
@@ -139,6 +285,15 @@ export const useShadowingRecorder = () => {
             return;
         }
 
+        // During a drill, takes are the repetitions recorded while playback pauses;
+        // with the voice trigger, a take lasts while the learner speaks over playback
+        const wantsRecording = () => {
+            const shadowing = useShadowingStore.getState();
+            if (shadowing.isDrilling) return shadowing.repetitionStart !== null;
+            return usePlayerStore.getState().isPlaying &&
+                (shadowing.recordingTrigger !== "voice" || shadowing.isVoiceActive);
+        };
+
         const startRecording = async () => {
             if (!streamRef.current) {
                 console.warn("🎤 [ShadowingRecorder] No stream available for recording");
@@ -154,16 +309,23 @@ export const useShadowingRecorder = () => {
 
             try {
                 const { currentTime } = usePlayerStore.getState();
-                startTimeRef.current = currentTime;
+                // A repetition is kept with the segment it repeats
+                const repetition = useShadowingStore.getState().repetitionStart;
+                isRepetitionRef.current = repetition !== null;
+                trailingSilenceRef.current = 0;
+                startTimeRef.current = repetition ?? currentTime;
                 recordingClockStartRef.current = performance.now();
                 chunksRef.current = [];
 
                 // Initialize active recording state
                 const { updateCurrentRecording } = useShadowingStore.getState();
-                updateCurrentRecording({ startTime: currentTime, peaks: [], peakTimes: [] });
+                updateCurrentRecording({ startTime: startTimeRef.current, peaks: [], peakTimes: [] });
 
-                // Create universal audio recorder
-                const recorder = new UniversalAudioRecorder(streamRef.current, {
+                // Camera recording of this take, started once the audio is recording
+                let videoCapture: VideoCapture | null = null;
+
+                const takeConfig: AudioRecorderConfig = {
+                    inputGain: useShadowingStore.getState().microphone.inputGain,
                     onPeakUpdate: (peak) => {
                         // Update store with new peak
                         const current = useShadowingStore.getState().currentRecording;
@@ -181,6 +343,7 @@ export const useShadowingRecorder = () => {
                     },
                     onStop: async (blob) => {
                         console.log("🎙️ [ShadowingRecorder] Recording stopped, processing...");
+                        const videoRecording = videoCapture?.stop() ?? Promise.resolve(null);
                         console.log("🎙️ [ShadowingRecorder] Created blob:", { size: blob.size, type: blob.type });
 
                         if (blob.size === 0) {
@@ -189,10 +352,7 @@ export const useShadowingRecorder = () => {
                         }
 
                         // Convert blob to File for storage
-                        // Determine extension based on blob type
-                        const isWav = blob.type.includes('wav');
-                        const extension = isWav ? 'wav' : 'webm';
-                        const fileName = `shadowing-${Date.now()}.${extension}`;
+                        const fileName = `shadowing-${Date.now()}.${takeFileExtension(blob.type)}`;
                         const file = new File([blob], fileName, { type: blob.type });
                         console.log("🎙️ [ShadowingRecorder] Created file:", { name: file.name, size: file.size, type: file.type });
 
@@ -213,6 +373,23 @@ export const useShadowingRecorder = () => {
                             const storageId = await storeMediaFile(file);
                             console.log("🎙️ [ShadowingRecorder] File stored with ID:", storageId);
 
+                            // The take is kept without its video when the video cannot be stored,
+                            // e.g. a long take over the storage size limit
+                            const videoBlob = await videoRecording;
+                            let videoStorageId: string | undefined;
+                            if (videoBlob) {
+                                try {
+                                    videoStorageId = await storeMediaFile(
+                                        new File([videoBlob], `shadowing-${Date.now()}.${videoFileExtension(videoBlob.type)}`, {
+                                            type: videoBlob.type,
+                                        })
+                                    );
+                                } catch (error) {
+                                    console.error("🎥 [ShadowingRecorder] Failed to store take video:", error);
+                                    toast.error(i18n.t("shadowing.takeVideoNotSaved", { message: (error as Error).message }));
+                                }
+                            }
+
                             // Use the same media ID logic as the rest of the app
                             const { getCurrentMediaId } = usePlayerStore.getState();
                             const mediaId = getCurrentMediaId();
@@ -224,23 +401,39 @@ export const useShadowingRecorder = () => {
                                 const finalCurrentRecording = useShadowingStore.getState().currentRecording;
                                 console.log(`🎙️ [ShadowingRecorder] Recording time range: ${recordingStartTime.toFixed(2)}s - ${recordingEndTime.toFixed(2)}s (played duration: ${(recordingEndTime - recordingStartTime).toFixed(2)}s, audio duration: ${actualDuration.toFixed(2)}s)`);
 
-                                // Remove any overlapping segments before inserting the new take.
-                                const { removeOverlappingSegments } = useShadowingStore.getState();
-                                await removeOverlappingSegments(mediaId, recordingStartTime, recordingEndTime);
-
-                                const segment = {
+                                // Earlier takes of the same range are kept; the new one gets its own lane.
+                                // The input reaches the recording late by the calibrated round-trip
+                                // latency, so the take is moved back by it. Repetitions were not
+                                // spoken over playback and stay where their segment starts.
+                                const { microphone: settings, latencyOffsets } = useShadowingStore.getState();
+                                const latency = isRepetitionRef.current
+                                    ? 0
+                                    : latencyOffsets[settings.deviceId ?? "default"] ?? 0;
+                                // A take the voice detector ended is cut before the pause it waited out
+                                const spokenDuration = Math.max(
+                                    Math.min(actualDuration, 0.5),
+                                    actualDuration - trailingSilenceRef.current
+                                );
+                                const peakTimes = finalCurrentRecording?.peakTimes || [];
+                                const spokenPeaks = peakTimes.filter((time) => time <= spokenDuration).length;
+                                const segment = shiftTake({
                                     id: Math.random().toString(36).substring(7),
                                     startTime: recordingStartTime,
-                                    duration: actualDuration,
+                                    duration: spokenDuration,
                                     storageId: storageId,
-                                    peaks: finalCurrentRecording?.peaks || [],
-                                    peakTimes: finalCurrentRecording?.peakTimes || [],
-                                };
+                                    peaks: (finalCurrentRecording?.peaks || []).slice(0, spokenPeaks),
+                                    peakTimes: peakTimes.slice(0, spokenPeaks),
+                                    ...(videoStorageId ? { videoStorageId } : {}),
+                                }, -latency);
 
                                 console.log("🎙️ [ShadowingRecorder] Adding segment to store:", segment);
                                 addSegment(mediaId, segment);
                                 console.log("🎙️ [ShadowingRecorder] Segment added successfully");
 
+                                if (useShadowingStore.getState().transcribeTakes) {
+                                    void useShadowingStore.getState().transcribeSegment(mediaId, segment.id);
+                                }
+
                                 toast.success("Shadowing recording saved");
                             } else {
                                 console.error("🎙️ [ShadowingRecorder] No media ID available, cannot save segment");
@@ -256,11 +449,21 @@ export const useShadowingRecorder = () => {
                     },
                     onError: (error) => {
                         console.error("🎙️ [ShadowingRecorder] Recording error:", error);
+                        void videoCapture?.stop();
                         toast.error(`Recording error: ${error.message}`);
                         setIsRecording(false);
                         audioRecorderRef.current = null;
                     }
-                });
+                };
+
+                // A voice-triggered take starts from the recorder opened for it, and another is opened for the next
+                const armed = armedRecorderRef.current;
+                armedRecorderRef.current = null;
+                const recorder = armed ?? new UniversalAudioRecorder(streamRef.current, takeConfig);
+                if (armed) {
+                    armed.setTakeCallbacks(takeConfig);
+                    setArmVersion((version) => version + 1);
+                }
 
                 audioRecorderRef.current = recorder;
 
@@ -268,14 +471,31 @@ export const useShadowingRecorder = () => {
                 isStartingRef.current = true;
                 await recorder.start();
 
-                if (!useShadowingStore.getState().isShadowingMode || !usePlayerStore.getState().isPlaying) {
+                if (!useShadowingStore.getState().isShadowingMode || !wantsRecording()) {
                     recorder.stop();
                     audioRecorderRef.current = null;
                     return;
                 }
 
+                // The pre-roll was spoken before the take started, so the take begins that much earlier
+                const preRoll = recorder.getPreRollDuration();
+                if (preRoll > 0) {
+                    startTimeRef.current -= preRoll;
+                    recordingClockStartRef.current -= preRoll * 1000;
+                    updateCurrentRecording({ startTime: startTimeRef.current, peaks: [], peakTimes: [] });
+                }
+
                 setIsRecording(true);
 
+                const camera = useShadowingStore.getState().cameraStream;
+                if (camera) {
+                    try {
+                        videoCapture = startVideoCapture(camera);
+                    } catch (error) {
+                        console.error("🎥 [ShadowingRecorder] Failed to record camera:", error);
+                    }
+                }
+
                 // THEN: Mute shadowing playback if it wasn't already muted
                 if (!currentMuteState) {
                     console.log("🔇 [ShadowingRecorder] Muting shadowing playback during recording");
@@ -297,12 +517,12 @@ export const useShadowingRecorder = () => {
             }
         };
 
-        if (isPlaying) {
+        if (wantsRecording()) {
             void startRecording();
         } else {
             if (audioRecorderRef.current && audioRecorderRef.current.getState() === "recording") {
                 stopRecording();
             }
         }
-    }, [isPlaying, isShadowingMode, currentFile, currentYouTube, setIsRecording, addSegment, setShadowingMuted, shadowingMuted, streamVersion]);
+    }, [isPlaying, isShadowingMode, isDrilling, repetitionStart, recordingTrigger, isVoiceActive, currentFile, currentYouTube, setIsRecording, addSegment, setShadowingMuted, shadowingMuted, streamVersion]);
 };
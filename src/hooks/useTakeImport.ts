@@ -0,0 +1,141 @@
+import { useCallback, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { toast } from "react-hot-toast";
+import { usePlayerStore } from "../stores/playerStore";
+import { ShadowingSegment, useShadowingStore } from "../stores/shadowingStore";
+import { deleteMediaFile, retrieveMediaFile, storeMediaFile } from "../utils/mediaStorage";
+import { canSnapMedia, decodeForSnapping } from "../utils/loopSnapping";
+import { extractMono } from "../utils/pronunciationAnalysis";
+import { findAlignmentShift, IMPORT_ALIGNMENT_SHIFT } from "../utils/takeAlignment";
+import { computeTakePeaks, shiftTake } from "../utils/shadowingTakes";
+
+type WindowWithWebkitAudioContext = Window & typeof globalThis & {
+    webkitAudioContext?: typeof AudioContext;
+};
+
+// Voice memos often arrive without an audio MIME type, so the extension counts too
+const AUDIO_EXTENSIONS = /\.(m4a|mp3|wav|ogg|oga|opus|webm|aac|flac|caf)$/i;
+
+export const isAudioFile = (file: File) => file.type.startsWith("audio/") || AUDIO_EXTENSIONS.test(file.name);
+
+const decodeFile = async (file: Blob) => {
+    const AudioContextClass = window.AudioContext || (window as WindowWithWebkitAudioContext).webkitAudioContext;
+    if (!AudioContextClass) {
+        throw new Error("Web Audio is not supported");
+    }
+    const audioContext = new AudioContextClass();
+    try {
+        return await audioContext.decodeAudioData(await file.arrayBuffer());
+    } finally {
+        audioContext.close();
+    }
+};
+
+// The current media as decoded for loop snapping, or decoded the same way and
+// kept in the player store when snapping has not done it; null for YouTube and
+// files too large to decode
+const decodeOriginal = async () => {
+    const { currentFile, decodedMedia } = usePlayerStore.getState();
+    if (!currentFile?.url || !canSnapMedia(currentFile)) return null;
+    if (decodedMedia) return decodedMedia;
+
+    const file = currentFile.storageId
+        ? await retrieveMediaFile(currentFile.storageId)
+        : await fetch(currentFile.url).then((response) => response.blob());
+    if (!file) return null;
+    const buffer = await decodeForSnapping(file);
+    const state = usePlayerStore.getState();
+    if (state.currentFile?.url !== currentFile.url) return null;
+    state.setDecodedMedia(buffer);
+    return buffer;
+};
+
+/**
+ * Adds a recording made elsewhere, such as a phone voice memo or a teacher's
+ * example, as a shadowing take of the current media starting at `time`. The
+ * file is stored as it is, with peaks computed so it is drawn like a recorded
+ * take. With snapping on, it is then moved to where it best matches the
+ * original; either way automatic alignment leaves it where the import put it.
+ */
+export const useTakeImport = () => {
+    const { t } = useTranslation();
+    const [isImporting, setIsImporting] = useState(false);
+
+    const importTake = useCallback(async (file: File, time: number) => {
+        const mediaId = usePlayerStore.getState().getCurrentMediaId();
+        if (!mediaId) return;
+
+        setIsImporting(true);
+        const toastId = toast.loading(t("shadowing.importingTake"));
+        try {
+            const take = await decodeFile(file);
+            const mediaDuration = usePlayerStore.getState().duration;
+            const startTime = Math.max(0, mediaDuration > 0 ? Math.min(time, mediaDuration) : time);
+            // A take running past the end of the media is cut there
+            const duration = mediaDuration > 0 ? Math.min(take.duration, mediaDuration - startTime) : take.duration;
+            if (duration <= 0) {
+                throw new Error("Take dropped at the end of the media");
+            }
+
+            const samples = extractMono(take, 0, duration);
+            const storageId = await storeMediaFile(file);
+            let segment: ShadowingSegment = {
+                id: Math.random().toString(36).substring(7),
+                startTime,
+                duration,
+                storageId,
+                ...computeTakePeaks(samples, take.sampleRate),
+                alignmentShift: 0,
+            };
+
+            // The take is kept where it was dropped when the original cannot be compared
+            const original = useShadowingStore.getState().snapImportedTakes
+                ? await decodeOriginal().catch((error) => {
+                    console.error("Failed to decode the original for snapping:", error);
+                    return null;
+                })
+                : null;
+            if (original) {
+                const from = Math.max(0, startTime - IMPORT_ALIGNMENT_SHIFT);
+                const shift = findAlignmentShift(
+                    extractMono(original, from, startTime + duration + IMPORT_ALIGNMENT_SHIFT),
+                    original.sampleRate,
+                    samples,
+                    take.sampleRate,
+                    startTime - from,
+                    IMPORT_ALIGNMENT_SHIFT
+                );
+                if (shift !== null) {
+                    segment = { ...shiftTake(segment, shift), alignmentShift: shift };
+                }
+            }
+
+            if (usePlayerStore.getState().getCurrentMediaId() !== mediaId) {
+                await deleteMediaFile(storageId);
+                toast.dismiss(toastId);
+                return;
+            }
+
+            const { addSegment, transcribeTakes, transcribeSegment } = useShadowingStore.getState();
+            addSegment(mediaId, segment);
+            if (transcribeTakes) {
+                void transcribeSegment(mediaId, segment.id);
+            }
+
+            const shift = segment.alignmentShift ?? 0;
+            toast.success(
+                shift !== 0
+                    ? t("shadowing.takeImportedSnapped", { shift: `${shift > 0 ? "+" : ""}${shift.toFixed(2)}` })
+                    : t("shadowing.takeImported"),
+                { id: toastId }
+            );
+        } catch (error) {
+            console.error("Failed to import take:", error);
+            toast.error(t("shadowing.importTakeFailed"), { id: toastId });
+        } finally {
+            setIsImporting(false);
+        }
+    }, [t]);
+
+    return { importTake, isImporting };
+};
@@ -5,6 +5,7 @@ import { usePlayerStore } from "../stores/playerStore";
 import { useShallow } from "zustand/react/shallow";
 import { MediaPlayer } from "../components/player/MediaPlayer";
 import { YouTubePlayer } from "../components/player/YouTubePlayer";
+import { ShadowingVideoLayout } from "../components/player/ShadowingTakeVideo";
 import { CombinedControls } from "../components/controls/CombinedControls";
 import { MobileControls } from "../components/controls/MobileControls";
 import { MediaHistory } from "../components/player/MediaHistory";
@@ -112,10 +113,12 @@ export const PlayerPage = () => {
             ) : (
               /* When player is visible, render the full UI */
               <div className="relative rounded-lg sm:rounded-xl border border-gray-200 dark:border-gray-700 bg-black/5 dark:bg-white/5">
-                {youtubeId && !currentFile && (
-                  <YouTubePlayer videoId={youtubeId} />
-                )}
-                {currentFile && <MediaPlayer />}
+                <ShadowingVideoLayout>
+                  {youtubeId && !currentFile && (
+                    <YouTubePlayer videoId={youtubeId} />
+                  )}
+                  {currentFile && <MediaPlayer />}
+                </ShadowingVideoLayout>
               </div>
             )}
           </>
@@ -0,0 +1,234 @@
+import { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useTranslation } from "react-i18next";
+import { toast } from "react-hot-toast";
+import { useShallow } from "zustand/react/shallow";
+import {
+  ArrowLeft,
+  CheckCircle,
+  ExternalLink,
+  GraduationCap,
+  Loader2,
+  Music,
+  Pause,
+  Play,
+  SkipForward,
+  Youtube,
+} from "lucide-react";
+import { Button } from "../components/ui/button";
+import { usePlayerStore } from "../stores/playerStore";
+import { ReviewItem, useReviewQueue } from "../hooks/useReviewQueue";
+import { REVIEW_GRADES, scheduleReview } from "../utils/spacedRepetition";
+import { formatTime } from "../utils/formatTime";
+import { cn } from "../utils/cn";
+
+const reviewKey = (item: ReviewItem) => `${item.mediaId}:${item.bookmark.id}`;
+
+const GRADE_STYLES: Record<(typeof REVIEW_GRADES)[number]["key"], string> = {
+  again: "border-red-200 text-red-700 hover:bg-red-50 dark:border-red-900 dark:text-red-400 dark:hover:bg-red-950",
+  hard: "border-amber-200 text-amber-700 hover:bg-amber-50 dark:border-amber-900 dark:text-amber-400 dark:hover:bg-amber-950",
+  good: "border-green-200 text-green-700 hover:bg-green-50 dark:border-green-900 dark:text-green-400 dark:hover:bg-green-950",
+  easy: "border-sky-200 text-sky-700 hover:bg-sky-50 dark:border-sky-900 dark:text-sky-400 dark:hover:bg-sky-950",
+};
+
+export const ReviewPage = () => {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const queue = useReviewQueue();
+  // Skipped cards go to the back of this session's queue
+  const [skipped, setSkipped] = useState<string[]>([]);
+  const [loadingKey, setLoadingKey] = useState<string | null>(null);
+
+  const { mediaId, selectedBookmarkId, isPlaying, hasMedia, gradeBookmark, setIsPlaying } =
+    usePlayerStore(
+      useShallow((state) => ({
+        mediaId: state.getCurrentMediaId(),
+        selectedBookmarkId: state.selectedBookmarkId,
+        isPlaying: state.isPlaying,
+        hasMedia: !!(state.currentFile || state.currentYouTube),
+        gradeBookmark: state.gradeBookmark,
+        setIsPlaying: state.setIsPlaying,
+      }))
+    );
+
+  const ordered = useMemo(() => {
+    const rank = (item: ReviewItem) => skipped.indexOf(reviewKey(item));
+    return queue.slice().sort((a, b) => rank(a) - rank(b));
+  }, [queue, skipped]);
+
+  const current = ordered[0] ?? null;
+  const isCurrentLoaded =
+    !!current && mediaId === current.mediaId && selectedBookmarkId === current.bookmark.id;
+
+  // Open the card's media if needed, then loop its bookmark from A
+  const playItem = async (item: ReviewItem) => {
+    if (usePlayerStore.getState().getCurrentMediaId() !== item.mediaId) {
+      setLoadingKey(reviewKey(item));
+      try {
+        await usePlayerStore.getState().loadFromHistory(item.historyItem.id);
+      } catch (error) {
+        console.error("Failed to load media for review:", error);
+      } finally {
+        setLoadingKey(null);
+      }
+      if (usePlayerStore.getState().getCurrentMediaId() !== item.mediaId) {
+        toast.error(t("review.couldNotLoad"));
+        return;
+      }
+    }
+
+    const { loadBookmark, setCurrentTime } = usePlayerStore.getState();
+    loadBookmark(item.bookmark.id);
+    setCurrentTime(item.bookmark.start);
+    setIsPlaying(true);
+  };
+
+  const handleGrade = (item: ReviewItem, grade: (typeof REVIEW_GRADES)[number]["grade"]) => {
+    if (isCurrentLoaded) {
+      setIsPlaying(false);
+    }
+    gradeBookmark(item.mediaId, item.bookmark.id, grade);
+    setSkipped((keys) => keys.filter((key) => key !== reviewKey(item)));
+  };
+
+  const handleSkip = (item: ReviewItem) => {
+    const key = reviewKey(item);
+    setSkipped((keys) => [...keys.filter((k) => k !== key), key]);
+  };
+
+  const isLoading = !!current && loadingKey === reviewKey(current);
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-950">
+      {/* Sticky header */}
+      <header className="sticky top-0 z-10 border-b border-gray-200 bg-white/95 backdrop-blur dark:border-gray-800 dark:bg-gray-950/95">
+        <div className="mx-auto flex max-w-3xl items-center gap-3 px-4 py-3 sm:px-6">
+          <button
+            type="button"
+            onClick={() => navigate(hasMedia ? "/player" : "/")}
+            className="rounded-lg p-1.5 text-gray-500 transition-colors hover:bg-gray-100 hover:text-gray-900 dark:text-gray-400 dark:hover:bg-gray-800 dark:hover:text-gray-50"
+            aria-label={t("review.back")}
+          >
+            <ArrowLeft className="h-5 w-5" />
+          </button>
+          <div className="flex items-center gap-2 flex-1 min-w-0">
+            <GraduationCap className="h-5 w-5 text-gray-500 dark:text-gray-400 shrink-0" />
+            <h1 className="text-sm font-semibold text-gray-900 dark:text-gray-50">
+              {t("review.title")}
+            </h1>
+          </div>
+          <span className="text-xs text-gray-500 dark:text-gray-400">
+            {t("review.dueCount", { count: queue.length })}
+          </span>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-3xl px-4 py-6 sm:px-6">
+        {!current ? (
+          <div className="flex flex-col items-center gap-3 rounded-xl border border-gray-200 bg-white px-6 py-12 text-center dark:border-gray-800 dark:bg-gray-900">
+            <CheckCircle className="h-10 w-10 text-green-500" />
+            <h2 className="text-base font-semibold text-gray-900 dark:text-gray-50">
+              {t("review.allCaughtUp")}
+            </h2>
+            <p className="max-w-sm text-sm text-gray-500 dark:text-gray-400">
+              {t("review.allCaughtUpHint")}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4 rounded-xl border border-gray-200 bg-white p-5 dark:border-gray-800 dark:bg-gray-900">
+            {/* Card */}
+            <div className="space-y-1">
+              <div className="flex items-center gap-1.5 text-xs text-gray-500 dark:text-gray-400">
+                {current.historyItem.type === "youtube" ? (
+                  <Youtube className="h-3.5 w-3.5 text-red-500 shrink-0" />
+                ) : (
+                  <Music className="h-3.5 w-3.5 text-purple-500 shrink-0" />
+                )}
+                <span className="truncate">{current.historyItem.name}</span>
+                {!current.bookmark.review && (
+                  <span className="ml-auto rounded-full bg-purple-100 px-2 py-0.5 text-[10px] font-medium text-purple-700 dark:bg-purple-900/40 dark:text-purple-300">
+                    {t("review.newCard")}
+                  </span>
+                )}
+              </div>
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-50">
+                {current.bookmark.name}
+              </h2>
+              <p className="text-sm tabular-nums text-gray-500 dark:text-gray-400">
+                {formatTime(current.bookmark.start)} – {formatTime(current.bookmark.end)}
+              </p>
+              {current.bookmark.annotation && (
+                <p className="whitespace-pre-wrap pt-2 text-sm text-gray-700 dark:text-gray-300">
+                  {current.bookmark.annotation}
+                </p>
+              )}
+            </div>
+
+            {/* Playback */}
+            <div className="flex flex-wrap items-center gap-2">
+              <Button
+                onClick={() =>
+                  isCurrentLoaded ? setIsPlaying(!isPlaying) : playItem(current)
+                }
+                disabled={isLoading}
+                className="gap-2"
+              >
+                {isLoading ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : isCurrentLoaded && isPlaying ? (
+                  <Pause className="h-4 w-4" />
+                ) : (
+                  <Play className="h-4 w-4" />
+                )}
+                {isCurrentLoaded && isPlaying ? t("review.pause") : t("review.playLoop")}
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => navigate("/player")}
+                disabled={!isCurrentLoaded}
+                className="gap-2"
+              >
+                <ExternalLink className="h-4 w-4" />
+                {t("review.openInPlayer")}
+              </Button>
+              <Button
+                variant="ghost"
+                onClick={() => handleSkip(current)}
+                disabled={ordered.length < 2}
+                className="ml-auto gap-2"
+              >
+                <SkipForward className="h-4 w-4" />
+                {t("review.skip")}
+              </Button>
+            </div>
+
+            {/* Self-grade */}
+            <div className="space-y-2 border-t border-gray-100 pt-4 dark:border-gray-800">
+              <p className="text-sm text-gray-600 dark:text-gray-400">{t("review.howWell")}</p>
+              <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+                {REVIEW_GRADES.map(({ key, grade }) => (
+                  <button
+                    key={key}
+                    type="button"
+                    onClick={() => handleGrade(current, grade)}
+                    className={cn(
+                      "flex flex-col items-center rounded-lg border px-3 py-2 text-sm font-medium transition-colors",
+                      GRADE_STYLES[key]
+                    )}
+                  >
+                    {t(`review.grades.${key}`)}
+                    <span className="text-xs font-normal opacity-75">
+                      {t("review.inDays", {
+                        count: scheduleReview(current.bookmark.review, grade).interval,
+                      })}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
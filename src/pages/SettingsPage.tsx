@@ -36,7 +36,9 @@ import {
   normalizeModelId,
 } from "../types/aiService";
 import { useLayoutSettings } from "../contexts/LayoutSettingsContext";
-import { usePlayerStore } from "../stores/playerStore";
+import { MAX_LOOP_CROSSFADE, MAX_LOOP_ROLL, usePlayerStore } from "../stores/playerStore";
+import { useShadowingStore } from "../stores/shadowingStore";
+import { canSnapMedia, type LoopSnapMode } from "../utils/loopSnapping";
 
 const LANGUAGE_OPTIONS = [
   "english",
@@ -58,6 +60,9 @@ const LANGUAGE_VALUES: Record<(typeof LANGUAGE_OPTIONS)[number], string> = {
   korean: "Korean",
 };
 
+const LOOP_SNAP_MODES: LoopSnapMode[] = ["off", "zeroCrossing", "energyMinimum", "silence"];
+const TRASH_RETENTION_DAYS = [1, 7, 30];
+
 const providerSurfaceClassName: Record<AIProvider, string> = {
   openai: "bg-emerald-100 text-emerald-700 dark:bg-emerald-950/40 dark:text-emerald-300",
   gemini: "bg-sky-100 text-sky-700 dark:bg-sky-950/40 dark:text-sky-300",
@@ -101,11 +106,27 @@ export const SettingsPage: React.FC = () => {
     seekSmallStepSeconds,
     setSeekStepSeconds,
     setSeekSmallStepSeconds,
+    loopEngineEnabled,
+    setLoopEngineEnabled,
+    loopSnapMode,
+    setLoopSnapMode,
+    loopShaping,
+    setLoopShaping,
     currentFile,
     currentYouTube,
   } = usePlayerStore();
+  const transcribeTakes = useShadowingStore((state) => state.transcribeTakes);
+  const setTranscribeTakes = useShadowingStore((state) => state.setTranscribeTakes);
+  const autoAlignTakes = useShadowingStore((state) => state.autoAlignTakes);
+  const setAutoAlignTakes = useShadowingStore((state) => state.setAutoAlignTakes);
+  const snapImportedTakes = useShadowingStore((state) => state.snapImportedTakes);
+  const setSnapImportedTakes = useShadowingStore((state) => state.setSnapImportedTakes);
+  const trashRetentionDays = useShadowingStore((state) => state.trashRetentionDays);
+  const setTrashRetentionDays = useShadowingStore((state) => state.setTrashRetentionDays);
 
   const hasMedia = !!(currentFile || currentYouTube);
+  // Snapping reads the decoded audio, which YouTube videos and very large files do not have
+  const isSnapUnavailable = hasMedia && !canSnapMedia(currentFile);
 
   // AI Settings state
   const [openaiApiKey, setOpenaiApiKey] = useState("");
@@ -467,6 +488,224 @@ export const SettingsPage: React.FC = () => {
                     />
                   </div>
                 </div>
+                <div className="flex items-center justify-between px-5 py-3 gap-4">
+                  <div>
+                    <label className="text-sm text-gray-700 dark:text-gray-300">
+                      {t("settingsPage.loopEngine")}
+                    </label>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {t("settingsPage.loopEngineHelp")}
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => setLoopEngineEnabled(!loopEngineEnabled)}
+                    className={cn(
+                      "relative inline-flex h-5 w-9 shrink-0 items-center rounded-full transition-colors",
+                      loopEngineEnabled
+                        ? "bg-purple-600"
+                        : "bg-gray-200 dark:bg-gray-600"
+                    )}
+                    aria-label={t("settingsPage.loopEngine")}
+                  >
+                    <span
+                      className={cn(
+                        "inline-block h-3 w-3 transform rounded-full bg-white transition-transform",
+                        loopEngineEnabled ? "translate-x-5" : "translate-x-1"
+                      )}
+                    />
+                  </button>
+                </div>
+                <div className="flex items-center justify-between px-5 py-3 gap-4">
+                  <div>
+                    <label htmlFor="loop-crossfade" className="text-sm text-gray-700 dark:text-gray-300">
+                      {t("settingsPage.loopCrossfade")}
+                    </label>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {t("settingsPage.loopCrossfadeHelp")}
+                    </p>
+                  </div>
+                  <div className="w-28">
+                    <Input
+                      id="loop-crossfade"
+                      type="number"
+                      min={0}
+                      max={MAX_LOOP_CROSSFADE * 1000}
+                      step={5}
+                      value={Math.round(loopShaping.crossfade * 1000)}
+                      onChange={(e) => setLoopShaping({ crossfade: (parseFloat(e.target.value) || 0) / 1000 })}
+                      className="h-9"
+                    />
+                  </div>
+                </div>
+                <div className="flex items-center justify-between px-5 py-3 gap-4">
+                  <div>
+                    <label className="text-sm text-gray-700 dark:text-gray-300">
+                      {t("settingsPage.loopPadding")}
+                    </label>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {t("settingsPage.loopPaddingHelp")}
+                    </p>
+                  </div>
+                  <div className="flex w-44 shrink-0 gap-2">
+                    <Input
+                      type="number"
+                      min={0}
+                      max={MAX_LOOP_ROLL}
+                      step={0.1}
+                      value={loopShaping.preRoll}
+                      onChange={(e) => setLoopShaping({ preRoll: parseFloat(e.target.value) || 0 })}
+                      className="h-9"
+                      aria-label={t("settingsPage.loopPreRoll")}
+                      title={t("settingsPage.loopPreRoll")}
+                    />
+                    <Input
+                      type="number"
+                      min={0}
+                      max={MAX_LOOP_ROLL}
+                      step={0.1}
+                      value={loopShaping.postRoll}
+                      onChange={(e) => setLoopShaping({ postRoll: parseFloat(e.target.value) || 0 })}
+                      className="h-9"
+                      aria-label={t("settingsPage.loopPostRoll")}
+                      title={t("settingsPage.loopPostRoll")}
+                    />
+                  </div>
+                </div>
+                <div className="flex items-center justify-between px-5 py-3 gap-4">
+                  <div>
+                    <label htmlFor="loop-snap-mode" className="text-sm text-gray-700 dark:text-gray-300">
+                      {t("settingsPage.loopSnap")}
+                    </label>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {t("settingsPage.loopSnapHelp")}
+                    </p>
+                    {isSnapUnavailable && (
+                      <p className="text-xs text-amber-600 dark:text-amber-400">
+                        {t(currentFile ? "settingsPage.loopSnapTooLarge" : "settingsPage.loopSnapYouTube")}
+                      </p>
+                    )}
+                  </div>
+                  <select
+                    id="loop-snap-mode"
+                    value={loopSnapMode}
+                    onChange={(e) => setLoopSnapMode(e.target.value as LoopSnapMode)}
+                    disabled={isSnapUnavailable}
+                    className="h-9 w-44 disabled:opacity-50 shrink-0 rounded-lg border border-gray-200 bg-white px-3 text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-gray-900/20 dark:border-gray-800 dark:bg-gray-900 dark:text-gray-100 dark:focus:ring-gray-300/20"
+                  >
+                    {LOOP_SNAP_MODES.map((mode) => (
+                      <option key={mode} value={mode}>
+                        {t(`settingsPage.loopSnapModes.${mode}`)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="flex items-center justify-between px-5 py-3 gap-4">
+                  <div>
+                    <label className="text-sm text-gray-700 dark:text-gray-300">
+                      {t("settingsPage.transcribeTakes")}
+                    </label>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {t("settingsPage.transcribeTakesHelp")}
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => setTranscribeTakes(!transcribeTakes)}
+                    className={cn(
+                      "relative inline-flex h-5 w-9 shrink-0 items-center rounded-full transition-colors",
+                      transcribeTakes
+                        ? "bg-purple-600"
+                        : "bg-gray-200 dark:bg-gray-600"
+                    )}
+                    aria-label={t("settingsPage.transcribeTakes")}
+                  >
+                    <span
+                      className={cn(
+                        "inline-block h-3 w-3 transform rounded-full bg-white transition-transform",
+                        transcribeTakes ? "translate-x-5" : "translate-x-1"
+                      )}
+                    />
+                  </button>
+                </div>
+                <div className="flex items-center justify-between px-5 py-3 gap-4">
+                  <div>
+                    <label className="text-sm text-gray-700 dark:text-gray-300">
+                      {t("settingsPage.autoAlignTakes")}
+                    </label>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {t("settingsPage.autoAlignTakesHelp")}
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => setAutoAlignTakes(!autoAlignTakes)}
+                    className={cn(
+                      "relative inline-flex h-5 w-9 shrink-0 items-center rounded-full transition-colors",
+                      autoAlignTakes
+                        ? "bg-purple-600"
+                        : "bg-gray-200 dark:bg-gray-600"
+                    )}
+                    aria-label={t("settingsPage.autoAlignTakes")}
+                  >
+                    <span
+                      className={cn(
+                        "inline-block h-3 w-3 transform rounded-full bg-white transition-transform",
+                        autoAlignTakes ? "translate-x-5" : "translate-x-1"
+                      )}
+                    />
+                  </button>
+                </div>
+                <div className="flex items-center justify-between px-5 py-3 gap-4">
+                  <div>
+                    <label className="text-sm text-gray-700 dark:text-gray-300">
+                      {t("settingsPage.snapImportedTakes")}
+                    </label>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {t("settingsPage.snapImportedTakesHelp")}
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => setSnapImportedTakes(!snapImportedTakes)}
+                    className={cn(
+                      "relative inline-flex h-5 w-9 shrink-0 items-center rounded-full transition-colors",
+                      snapImportedTakes
+                        ? "bg-purple-600"
+                        : "bg-gray-200 dark:bg-gray-600"
+                    )}
+                    aria-label={t("settingsPage.snapImportedTakes")}
+                  >
+                    <span
+                      className={cn(
+                        "inline-block h-3 w-3 transform rounded-full bg-white transition-transform",
+                        snapImportedTakes ? "translate-x-5" : "translate-x-1"
+                      )}
+                    />
+                  </button>
+                </div>
+                <div className="flex items-center justify-between px-5 py-3 gap-4">
+                  <div>
+                    <label htmlFor="trash-retention" className="text-sm text-gray-700 dark:text-gray-300">
+                      {t("settingsPage.trashRetention")}
+                    </label>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {t("settingsPage.trashRetentionHelp")}
+                    </p>
+                  </div>
+                  <select
+                    id="trash-retention"
+                    value={trashRetentionDays}
+                    onChange={(e) => setTrashRetentionDays(Number(e.target.value))}
+                    className="h-9 w-44 shrink-0 rounded-lg border border-gray-200 bg-white px-3 text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-gray-900/20 dark:border-gray-800 dark:bg-gray-900 dark:text-gray-100 dark:focus:ring-gray-300/20"
+                  >
+                    {TRASH_RETENTION_DAYS.map((days) => (
+                      <option key={days} value={days}>
+                        {t("settingsPage.trashRetentionDays", { count: days })}
+                      </option>
+                    ))}
+                  </select>
+                </div>
               </div>
             </div>
 
@@ -2,6 +2,7 @@ import { BrowserRouter, Routes, Route, Navigate, useLocation } from "react-route
 import { memo } from "react";
 import { HomePage, PlayerPage } from "../pages";
 import { SettingsPage } from "../pages/SettingsPage";
+import { ReviewPage } from "../pages/ReviewPage";
 import { LayoutSettingsProvider } from "../contexts/LayoutSettingsContext";
 import { usePlayerStore } from "../stores/playerStore";
 import { useShallow } from "zustand/react/shallow";
@@ -39,6 +40,7 @@ const AppRouterInner = () => {
       <Routes>
         <Route path="/" element={<HomePage />} />
         <Route path="/settings" element={<SettingsPage />} />
+        <Route path="/review" element={<ReviewPage />} />
         {/* When media is loaded, player is rendered persistently below; otherwise redirect home */}
         <Route
           path="/player"
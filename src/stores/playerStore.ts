@@ -9,8 +9,23 @@ import {
   deleteStoredTranscript,
   clearAllStoredTranscripts,
 } from "../utils/mediaStorage";
+import type { BeatGrid } from "../utils/mediaStorage";
+import { findNearestBeatIndex } from "../utils/waveformAnalysis";
+import { LoopSnapMode, snapLoopPoint } from "../utils/loopSnapping";
+import { ReviewGrade, ReviewSchedule, scheduleReview } from "../utils/spacedRepetition";
+import {
+  AudioEffectsPreset,
+  AudioEffectsSettings,
+  BUILT_IN_EFFECT_PRESETS,
+  DEFAULT_AUDIO_EFFECTS,
+} from "../utils/audioEffects";
+import {
+  DEFAULT_TRANSCRIPT_DISPLAY,
+  TranscriptDisplaySettings,
+} from "../utils/transcriptDisplay";
 import { toast } from "react-hot-toast";
 import i18n from "../i18n";
+import { metronome } from "../utils/metronome";
 
 // Prevent noisy duplicate toasts for existing A–B ranges
 let lastDuplicateToastAt = 0;
@@ -36,6 +51,28 @@ export interface YouTubeMedia {
   title?: string;
 }
 
+// Progressive speed drill: the rate steps up by `increment` every `repsPerStep` loops
+export interface SpeedTrainer {
+  startRate: number;
+  targetRate: number;
+  increment: number;
+  repsPerStep: number;
+  currentRate: number; // Rate reached so far, used to resume the drill
+}
+
+// How each loop pass is shaped; bookmarks can override any of the global defaults
+export interface LoopShaping {
+  crossfade: number; // Seconds of equal-power overlap at the loop seam
+  preRoll: number; // Seconds of context played before A
+  postRoll: number; // Seconds of context played after B
+}
+
+export const MAX_LOOP_CROSSFADE = 0.1;
+export const MAX_LOOP_ROLL = 5;
+
+// Transpose range in semitones; fractions are cents
+export const MAX_TRANSPOSE = 12;
+
 export interface LoopBookmark {
   id: string;
   name: string;
@@ -46,7 +83,11 @@ export interface LoopBookmark {
   mediaType?: string;
   youtubeId?: string;
   playbackRate?: number;
+  transpose?: number; // Semitones, independent of playbackRate
   annotation?: string;
+  speedTrainer?: SpeedTrainer;
+  shaping?: Partial<LoopShaping>;
+  review?: ReviewSchedule;
 }
 
 // New interface for media-scoped bookmarks
@@ -54,6 +95,26 @@ export interface MediaBookmarks {
   [mediaId: string]: LoopBookmark[];
 }
 
+export interface PlaylistItem {
+  bookmarkId: string;
+  repeats: number; // 0 = loop until the user moves on
+  playbackRate?: number; // Falls back to the bookmark's own rate
+  preGap: number; // Seconds of silence before the item starts
+  postGap: number; // Seconds of silence after the last repetition
+}
+
+export interface PracticePlaylist {
+  id: string;
+  name: string;
+  items: PlaylistItem[];
+  createdAt: number;
+}
+
+// Playlists are scoped to media like bookmarks
+export interface MediaPlaylists {
+  [mediaId: string]: PracticePlaylist[];
+}
+
 export interface MediaHistoryItem {
   id: string;
   type: "file" | "youtube";
@@ -90,6 +151,43 @@ export interface MediaTranscripts {
   [mediaId: string]: TranscriptSegment[];
 }
 
+// One typed answer to a hidden transcript segment, scored by scoreDictation
+export interface DictationAttempt {
+  score: number; // 0–100
+  attemptedAt: number;
+}
+
+// Dictation attempts per media, keyed by transcript segment id
+export interface MediaDictationScores {
+  [mediaId: string]: Record<string, DictationAttempt[]>;
+}
+
+// Loop and bookmark state of one media before an edit, for undo/redo
+export interface EditSnapshot {
+  label: string; // i18n key naming the edit, shown in undo/redo toasts
+  mediaId: string | null;
+  loopStart: number | null;
+  loopEnd: number | null;
+  bookmarks: LoopBookmark[];
+  playlists: PracticePlaylist[];
+}
+
+// What the player should do once playback reaches the end of the A-B loop
+// `delay` includes `countIn`, the tail of the gap filled with metronome clicks
+// `rate` is the playback rate the next pass plays at
+export type LoopPassResult =
+  | { action: "repeat"; start: number; end: number; delay: number; countIn: number; rate: number }
+  | { action: "advance"; start: number; end: number; delay: number; countIn: number; rate: number }
+  | { action: "release" }
+  | { action: "stop" };
+
+// A decided loop pass whose bookkeeping (count, speed trainer, playlist,
+// bookmark) is only applied by `commit`, so it can land when the seam is heard
+export interface LoopPassPlan {
+  result: LoopPassResult;
+  commit: () => void;
+}
+
 export interface PlayerState {
   // Media state
   currentFile: MediaFile | null;
@@ -102,7 +200,12 @@ export interface PlayerState {
   previousMediaVolume?: number; // Store media volume before muting
   previousVolume?: number; // Store volume before muting
   playbackRate: number;
+  transpose: number; // Semitones; applied to local files only
   muted: boolean;
+  isMediaSilenced: boolean; // Session-only; set while a shadowing take is auditioned on its own
+  // Session-only PCM of the current local media, for loop snapping and take import:
+  // the loop engine's buffer, or a low-rate mono decode made for snapping
+  decodedMedia: AudioBuffer | null;
   isLoadingMedia: boolean; // Add loading state
 
   // Loop state
@@ -114,7 +217,24 @@ export interface PlayerState {
   autoAdvanceBookmarks: boolean;
   bpm: number | null;
   quantizeLoop: boolean;
+  beatGrid: BeatGrid | null; // Beats detected in the current media, if any
   loopDelay: number; // Delay in seconds between loops
+  loopShaping: LoopShaping; // Global defaults, see getLoopShaping for the effective values
+  undoStack: EditSnapshot[]; // Most recent edit last; kept in memory only
+  redoStack: EditSnapshot[];
+  lastEdit: { key: string; at: number } | null; // What the last undo step may absorb; session only
+  loopEngineEnabled: boolean; // Sample-accurate Web Audio looping for local audio
+  loopSnapMode: LoopSnapMode; // Where A/B points set by hand snap to
+  audioEffects: AudioEffectsSettings; // Processing applied to local media
+  audioEffectPresets: AudioEffectsPreset[]; // Saved by the user; built-ins live in audioEffects.ts
+  mediaLoudness: number | null; // Measured level of the current media, for normalization
+  speedTrainer: SpeedTrainer | null; // Active speed drill, if any
+  speedTrainerReps: number; // Loops completed at the current drill rate
+  metronomeEnabled: boolean; // Click along with playback at `bpm`
+  metronomeVolume: number;
+  countInBars: number; // Bars of clicks before each loop repetition (0 = off)
+  beatsPerBar: number;
+  leadInUntil: number | null; // performance.now() a delayed start plays at; session only
 
   // UI state
   theme: "light" | "dark";
@@ -123,12 +243,18 @@ export interface PlayerState {
   videoSize: "sm" | "md" | "lg" | "xl";
   mediaBookmarks: MediaBookmarks; // Changed from bookmarks array to media-scoped object
   selectedBookmarkId: string | null;
+  mediaPlaylists: MediaPlaylists;
+  activePlaylist: { playlistId: string; itemIndex: number } | null;
   // Seek configuration
   seekStepSeconds: number; // default seek step for arrows/buttons
   seekSmallStepSeconds: number; // shift+arrow small step
 
   // Transcript state
   mediaTranscripts: MediaTranscripts; // Changed from transcriptSegments array to media-scoped object
+  dictationScores: MediaDictationScores;
+  mediaTranscriptDisplay: Record<string, TranscriptDisplaySettings>; // Listening mode per media
+  revealedSegments: Record<string, boolean>; // Hidden segments uncovered this session
+  segmentPlayCounts: Record<string, number>; // Full plays of each segment this session
   isTranscriptLoading: boolean;
   showTranscript: boolean;
   isTranscribing: boolean;
@@ -154,9 +280,12 @@ export interface PlayerActions {
   setDuration: (duration: number) => void;
   setVolume: (volume: number) => void;
   setMediaVolume: (volume: number) => void;
+  setMediaSilenced: (silenced: boolean) => void;
+  setDecodedMedia: (buffer: AudioBuffer | null) => void;
   setPreviousMediaVolume: (volume: number) => void;
   setPreviousVolume: (volume: number) => void;
   setPlaybackRate: (rate: number) => void;
+  setTranspose: (semitones: number) => void;
   setMuted: (muted: boolean) => void;
   togglePlay: () => void;
   toggleMute: () => void;
@@ -165,7 +294,11 @@ export interface PlayerActions {
   setIsLoadingMedia: (loading: boolean) => void; // Add loading action
 
   // Loop actions
-  setLoopPoints: (start: number | null, end: number | null) => void;
+  setLoopPoints: (
+    start: number | null,
+    end: number | null,
+    options?: { snap?: boolean }
+  ) => void;
   setIsLooping: (isLooping: boolean) => void;
   setLoopCount: (count: number) => void;
   setMaxLoops: (max: number) => void;
@@ -177,7 +310,30 @@ export interface PlayerActions {
   setBpm: (bpm: number | null) => void;
   setQuantizeLoop: (quantize: boolean) => void;
   quantizeCurrentLoop: () => void;
+  setBeatGrid: (beatGrid: BeatGrid | null) => void;
   setLoopDelay: (delay: number) => void;
+  setLoopShaping: (changes: Partial<LoopShaping>) => void;
+  getLoopShaping: () => LoopShaping;
+  undo: () => void;
+  redo: () => void;
+  setLoopEngineEnabled: (enabled: boolean) => void;
+  setLoopSnapMode: (mode: LoopSnapMode) => void;
+  setAudioEffects: (changes: Partial<AudioEffectsSettings>) => void;
+  saveAudioEffectsPreset: (name: string) => void;
+  applyAudioEffectsPreset: (presetId: string) => void;
+  deleteAudioEffectsPreset: (presetId: string) => void;
+  setMediaLoudness: (loudness: number | null) => void;
+  planLoopPass: () => LoopPassPlan;
+  completeLoopPass: () => LoopPassResult;
+  startSpeedTrainer: (settings: Omit<SpeedTrainer, "currentRate">) => void;
+  stopSpeedTrainer: () => void;
+  stepDownSpeedTrainer: () => void;
+  setMetronomeEnabled: (enabled: boolean) => void;
+  setMetronomeVolume: (volume: number) => void;
+  setCountInBars: (bars: number) => void;
+  setBeatsPerBar: (beats: number) => void;
+  getCountInDuration: (playbackRate?: number) => number;
+  playAfterLeadIn: (gap: number) => void;
 
   // UI actions
   setTheme: (theme: "light" | "dark") => void;
@@ -205,6 +361,11 @@ export interface PlayerActions {
   exportTranscript: (format: "txt" | "srt" | "vtt") => string;
   importTranscript: (file: File) => Promise<void>;
   createBookmarkFromTranscript: (segmentId: string) => void;
+  recordDictationAttempt: (segmentId: string, score: number) => void;
+  setTranscriptDisplay: (changes: Partial<TranscriptDisplaySettings>) => void;
+  revealTranscriptSegment: (segmentId: string) => void;
+  revealCurrentTranscriptSegment: () => void;
+  recordSegmentPlay: (segmentId: string) => void;
   loadTranscriptForMedia: (mediaId: string) => Promise<void>;
 
   // Bookmark actions
@@ -214,13 +375,24 @@ export interface PlayerActions {
   loadBookmark: (id: string) => void;
   setSelectedBookmarkId: (id: string | null) => void;
   importBookmarks: (bookmarks: LoopBookmark[]) => void;
+  gradeBookmark: (mediaId: string, bookmarkId: string, grade: ReviewGrade) => void;
+
+  // Practice playlist actions
+  createPlaylist: (name: string) => string | null;
+  renamePlaylist: (playlistId: string, name: string) => void;
+  deletePlaylist: (playlistId: string) => void;
+  setPlaylistItems: (playlistId: string, items: PlaylistItem[]) => void;
+  startPlaylist: (playlistId: string, itemIndex?: number) => void;
+  stopPlaylist: () => void;
 
   // Helper functions for media-scoped bookmarks
   getCurrentMediaId: () => string | null;
   getCurrentMediaBookmarks: () => LoopBookmark[];
+  getCurrentMediaPlaylists: () => PracticePlaylist[];
 
   // Helper functions for media-scoped transcripts
   getCurrentMediaTranscripts: () => TranscriptSegment[];
+  getCurrentTranscriptDisplay: () => TranscriptDisplaySettings;
 
   // History actions
   addRecentYouTubeVideo: (video: YouTubeMedia) => void;
@@ -256,7 +428,10 @@ const initialState: PlayerState = {
   volume: 1,
   mediaVolume: 1,
   playbackRate: 1,
+  transpose: 0,
   muted: false,
+  isMediaSilenced: false,
+  decodedMedia: null,
   loopStart: null,
   loopEnd: null,
   isLooping: false,
@@ -265,14 +440,37 @@ const initialState: PlayerState = {
   autoAdvanceBookmarks: false,
   bpm: null,
   quantizeLoop: false,
+  beatGrid: null,
   loopDelay: 0,
+  loopShaping: { crossfade: 0, preRoll: 0, postRoll: 0 },
+  undoStack: [],
+  redoStack: [],
+  lastEdit: null,
+  loopEngineEnabled: true,
+  loopSnapMode: "off",
+  audioEffects: DEFAULT_AUDIO_EFFECTS,
+  audioEffectPresets: [],
+  mediaLoudness: null,
+  speedTrainer: null,
+  speedTrainerReps: 0,
+  metronomeEnabled: false,
+  metronomeVolume: 0.7,
+  countInBars: 0,
+  beatsPerBar: 4,
+  leadInUntil: null,
   theme: "dark",
   waveformZoom: 1,
   showWaveform: true,
   videoSize: "md",
   mediaBookmarks: {},
   selectedBookmarkId: null,
+  mediaPlaylists: {},
+  activePlaylist: null,
   mediaTranscripts: {},
+  dictationScores: {},
+  mediaTranscriptDisplay: {},
+  revealedSegments: {},
+  segmentPlayCounts: {},
   isTranscriptLoading: false,
   showTranscript: false,
   isTranscribing: false,
@@ -291,6 +489,115 @@ const initialState: PlayerState = {
   historyFolderFilter: "unfiled",
 };
 
+// Dictation attempts kept per transcript segment
+const MAX_DICTATION_ATTEMPTS = 20;
+
+const MAX_EDIT_HISTORY = 50;
+// Repeated edits of the same target in quick succession (e.g. dragging a bookmark edge) form one step
+const EDIT_COALESCE_MS = 1000;
+const EDIT_HISTORY_TOAST_ID = "edit-history";
+
+const takeSnapshot = (state: PlayerState & PlayerActions, label: string): EditSnapshot => {
+  const mediaId = state.getCurrentMediaId();
+  return {
+    label,
+    mediaId,
+    loopStart: state.loopStart,
+    loopEnd: state.loopEnd,
+    bookmarks: mediaId ? state.mediaBookmarks[mediaId] || [] : [],
+    playlists: mediaId ? state.mediaPlaylists[mediaId] || [] : [],
+  };
+};
+
+// State update that records the current state as an undo step before an edit.
+// Edits passing the same `coalesceKey`, which names what they change, join the
+// previous step while they follow each other quickly; edits without one never do.
+const recordEdit = (
+  state: PlayerState & PlayerActions,
+  label: string,
+  coalesceKey?: string
+): Pick<PlayerState, "redoStack" | "lastEdit"> & Partial<Pick<PlayerState, "undoStack">> => {
+  const now = Date.now();
+  const lastEdit = coalesceKey ? { key: coalesceKey, at: now } : null;
+  if (
+    coalesceKey &&
+    state.lastEdit?.key === coalesceKey &&
+    now - state.lastEdit.at < EDIT_COALESCE_MS
+  ) {
+    return { redoStack: [], lastEdit };
+  }
+
+  return {
+    undoStack: [...state.undoStack, takeSnapshot(state, label)].slice(-MAX_EDIT_HISTORY),
+    redoStack: [],
+    lastEdit,
+  };
+};
+
+// Coalescing key for a change of the A/B points, naming the points that move
+const loopPointsKey = (
+  state: PlayerState,
+  loopStart: number | null,
+  loopEnd: number | null
+) => {
+  const moved = [
+    loopStart !== state.loopStart ? "start" : null,
+    loopEnd !== state.loopEnd ? "end" : null,
+  ].filter(Boolean);
+  return `loopPoints:${moved.join("+")}`;
+};
+
+// Playback rate loadBookmark leaves the player at: the drill's rate, else the bookmark's own
+const getBookmarkRate = (bookmark: LoopBookmark, current: number) =>
+  bookmark.speedTrainer?.currentRate ?? bookmark.playbackRate ?? current;
+
+// Drill progress and review schedules are saved by practising, not by edits,
+// so undo and redo keep them as they are now for bookmarks that still exist
+const keepPractice = (bookmark: LoopBookmark, current: LoopBookmark | undefined): LoopBookmark =>
+  current ? { ...bookmark, speedTrainer: current.speedTrainer, review: current.review } : bookmark;
+
+// Keeps a running playlist on the item it is playing when the playlist changes.
+// Items keep their identity when others are moved or removed, and their place
+// when edited; the playlist stops when it or its running item is removed.
+const rebaseActivePlaylist = (
+  active: PlayerState["activePlaylist"],
+  previous: PracticePlaylist[],
+  playlists: PracticePlaylist[]
+): PlayerState["activePlaylist"] => {
+  const before = active && previous.find((p) => p.id === active.playlistId);
+  if (!active || !before) return active;
+  const after = playlists.find((p) => p.id === active.playlistId);
+  if (!after) return null;
+  if (after.items === before.items) return active;
+
+  const index = after.items.indexOf(before.items[active.itemIndex]);
+  if (index !== -1) return index === active.itemIndex ? active : { ...active, itemIndex: index };
+  return after.items.length === before.items.length ? active : null;
+};
+
+const restoreSnapshot = (
+  state: PlayerState & PlayerActions,
+  snapshot: EditSnapshot
+): Partial<PlayerState> => {
+  if (!snapshot.mediaId) return { loopStart: snapshot.loopStart, loopEnd: snapshot.loopEnd };
+
+  const current = new Map((state.mediaBookmarks[snapshot.mediaId] || []).map((b) => [b.id, b]));
+  const bookmarks = snapshot.bookmarks.map((bookmark) => keepPractice(bookmark, current.get(bookmark.id)));
+  const selectedExists = bookmarks.some((b) => b.id === state.selectedBookmarkId);
+  return {
+    loopStart: snapshot.loopStart,
+    loopEnd: snapshot.loopEnd,
+    mediaBookmarks: { ...state.mediaBookmarks, [snapshot.mediaId]: bookmarks },
+    mediaPlaylists: { ...state.mediaPlaylists, [snapshot.mediaId]: snapshot.playlists },
+    activePlaylist: rebaseActivePlaylist(
+      state.activePlaylist,
+      state.mediaPlaylists[snapshot.mediaId] || [],
+      snapshot.playlists
+    ),
+    selectedBookmarkId: selectedExists ? state.selectedBookmarkId : null,
+  };
+};
+
 export const usePlayerStore = create<PlayerState & PlayerActions>()(
   persist(
     (set, get) => ({
@@ -495,16 +802,44 @@ export const usePlayerStore = create<PlayerState & PlayerActions>()(
           set({ isTranscriptLoading: false });
         }
       },
-      setIsPlaying: (isPlaying) => set({ isPlaying }),
+      setIsPlaying: (isPlaying) => {
+        const state = get();
+        if (isPlaying && !state.isPlaying) {
+          // Already waiting to play
+          if (state.leadInUntil !== null) return;
+          // Count in before the first pass of a loop as before the later ones
+          if (
+            state.isLooping &&
+            state.loopStart !== null &&
+            state.loopEnd !== null &&
+            state.getCountInDuration() > 0
+          ) {
+            state.playAfterLeadIn(0);
+            return;
+          }
+        }
+        set({ isPlaying, leadInUntil: null });
+      },
       setCurrentTime: (currentTime) => set({ currentTime }),
       setDuration: (duration) => set({ duration }),
       setVolume: (volume) => set({ volume }),
       setMediaVolume: (mediaVolume) => set({ mediaVolume }),
+      setMediaSilenced: (isMediaSilenced) => set({ isMediaSilenced }),
+      setDecodedMedia: (decodedMedia) => set({ decodedMedia }),
       setPreviousMediaVolume: (previousMediaVolume) => set({ previousMediaVolume }),
       setPreviousVolume: (previousVolume) => set({ previousVolume }),
       setPlaybackRate: (playbackRate) => set({ playbackRate }),
+      setTranspose: (semitones) =>
+        set({
+          // Round to whole cents
+          transpose:
+            Math.round(Math.max(-MAX_TRANSPOSE, Math.min(MAX_TRANSPOSE, semitones)) * 100) / 100,
+        }),
       setMuted: (muted) => set({ muted }),
-      togglePlay: () => set((state) => ({ isPlaying: !state.isPlaying })),
+      togglePlay: () => {
+        const { isPlaying, leadInUntil, setIsPlaying } = get();
+        setIsPlaying(!isPlaying && leadInUntil === null);
+      },
       toggleMute: () => {
         const { muted, volume, previousVolume } = get();
         if (muted) {
@@ -539,7 +874,40 @@ export const usePlayerStore = create<PlayerState & PlayerActions>()(
       },
 
       // Loop actions
-      setLoopPoints: (loopStart, loopEnd) => set({ loopStart, loopEnd }),
+      setLoopPoints: (loopStart, loopEnd, options) => {
+        const state = get();
+        if (loopStart === state.loopStart && loopEnd === state.loopEnd) return;
+        if (!options?.snap || state.loopSnapMode === "off") {
+          set({
+            loopStart,
+            loopEnd,
+            ...recordEdit(state, "editHistory.loopPoints", loopPointsKey(state, loopStart, loopEnd)),
+          });
+          return;
+        }
+
+        // Only snap the points that are being moved
+        const snappedStart =
+          loopStart !== null && loopStart !== state.loopStart
+            ? snapLoopPoint(state.decodedMedia, loopStart, state.loopSnapMode, "start")
+            : loopStart;
+        const snappedEnd =
+          loopEnd !== null && loopEnd !== state.loopEnd
+            ? snapLoopPoint(state.decodedMedia, loopEnd, state.loopSnapMode, "end")
+            : loopEnd;
+
+        // Never let snapping collapse or invert the loop
+        const history = recordEdit(
+          state,
+          "editHistory.loopPoints",
+          loopPointsKey(state, loopStart, loopEnd)
+        );
+        if (snappedStart !== null && snappedEnd !== null && snappedEnd <= snappedStart) {
+          set({ loopStart, loopEnd, ...history });
+          return;
+        }
+        set({ loopStart: snappedStart, loopEnd: snappedEnd, ...history });
+      },
       setIsLooping: (isLooping) => set({ isLooping }),
       setLoopCount: (loopCount) => set({ loopCount }),
       setMaxLoops: (maxLoops) => set({ maxLoops }),
@@ -599,7 +967,11 @@ export const usePlayerStore = create<PlayerState & PlayerActions>()(
           newStart = Math.max(newStart - shift, 0);
         }
 
-        set({ loopStart: newStart, loopEnd: newEnd });
+        set({
+          loopStart: newStart,
+          loopEnd: newEnd,
+          ...recordEdit(get(), "editHistory.moveLoop", "moveLoop"),
+        });
       },
       extendLoopStart: (deltaTime) => {
         const { loopStart, loopEnd } = get();
@@ -607,7 +979,10 @@ export const usePlayerStore = create<PlayerState & PlayerActions>()(
 
         const newStart = Math.max(0, loopStart + deltaTime);
         if (newStart < loopEnd) {
-          set({ loopStart: newStart });
+          set({
+            loopStart: newStart,
+            ...recordEdit(get(), "editHistory.resizeLoop", "loopPoints:start"),
+          });
         }
       },
       extendLoopEnd: (deltaTime) => {
@@ -616,7 +991,10 @@ export const usePlayerStore = create<PlayerState & PlayerActions>()(
 
         const newEnd = Math.min(duration, loopEnd + deltaTime);
         if (newEnd > loopStart) {
-          set({ loopEnd: newEnd });
+          set({
+            loopEnd: newEnd,
+            ...recordEdit(get(), "editHistory.resizeLoop", "loopPoints:end"),
+          });
         }
       },
       scaleLoop: (factor) => {
@@ -630,13 +1008,38 @@ export const usePlayerStore = create<PlayerState & PlayerActions>()(
         const newStart = Math.max(0, center - newHalfLength);
         const newEnd = Math.min(duration, center + newHalfLength);
 
-        set({ loopStart: newStart, loopEnd: newEnd });
+        set({
+          loopStart: newStart,
+          loopEnd: newEnd,
+          ...recordEdit(get(), "editHistory.scaleLoop", "scaleLoop"),
+        });
       },
       setBpm: (bpm) => set({ bpm }),
       setQuantizeLoop: (quantizeLoop) => set({ quantizeLoop }),
+      setBeatGrid: (beatGrid) => set({ beatGrid }),
       quantizeCurrentLoop: () => {
-        const { loopStart, loopEnd, bpm } = get();
-        if (loopStart === null || loopEnd === null || !bpm) return;
+        const { loopStart, loopEnd, bpm, beatGrid } = get();
+        if (loopStart === null || loopEnd === null) return;
+
+        // Snap both ends to detected beats, which follow tempo drift in live recordings
+        const beats = beatGrid?.beats ?? [];
+        if (beats.length > 1) {
+          const startIndex = findNearestBeatIndex(beats, loopStart);
+          const endIndex = Math.max(
+            findNearestBeatIndex(beats, loopEnd),
+            Math.min(startIndex + 1, beats.length - 1)
+          );
+          if (endIndex > startIndex) {
+            set({
+              loopStart: beats[startIndex],
+              loopEnd: beats[endIndex],
+              ...recordEdit(get(), "editHistory.quantizeLoop"),
+            });
+            return;
+          }
+        }
+
+        if (!bpm) return;
 
         // Calculate beat duration in seconds
         const beatDuration = 60 / bpm;
@@ -651,9 +1054,326 @@ export const usePlayerStore = create<PlayerState & PlayerActions>()(
 
         // Calculate the new end time while keeping the start fixed
         const newEnd = loopStart + quantizedDuration;
-        set({ loopEnd: newEnd });
+        set({ loopEnd: newEnd, ...recordEdit(get(), "editHistory.quantizeLoop") });
       },
       setLoopDelay: (loopDelay) => set({ loopDelay }),
+      setLoopShaping: (changes) => {
+        const clamp = (value: number, max: number) => Math.max(0, Math.min(max, value || 0));
+        const next = { ...get().loopShaping, ...changes };
+        set({
+          loopShaping: {
+            crossfade: clamp(next.crossfade, MAX_LOOP_CROSSFADE),
+            preRoll: clamp(next.preRoll, MAX_LOOP_ROLL),
+            postRoll: clamp(next.postRoll, MAX_LOOP_ROLL),
+          },
+        });
+      },
+      getLoopShaping: () => {
+        const { loopShaping, selectedBookmarkId, getCurrentMediaBookmarks } = get();
+        const bookmark = selectedBookmarkId
+          ? getCurrentMediaBookmarks().find((b) => b.id === selectedBookmarkId)
+          : undefined;
+        const overrides = bookmark?.shaping ?? {};
+        return {
+          crossfade: overrides.crossfade ?? loopShaping.crossfade,
+          preRoll: overrides.preRoll ?? loopShaping.preRoll,
+          postRoll: overrides.postRoll ?? loopShaping.postRoll,
+        };
+      },
+      undo: () => {
+        const state = get();
+        const snapshot = state.undoStack[state.undoStack.length - 1];
+        // Steps recorded for other media no longer apply
+        if (!snapshot || snapshot.mediaId !== state.getCurrentMediaId()) {
+          set({ undoStack: [], redoStack: [] });
+          toast(i18n.t("editHistory.nothingToUndo"), { id: EDIT_HISTORY_TOAST_ID });
+          return;
+        }
+
+        set({
+          ...restoreSnapshot(state, snapshot),
+          lastEdit: null,
+          undoStack: state.undoStack.slice(0, -1),
+          redoStack: [...state.redoStack, takeSnapshot(state, snapshot.label)],
+        });
+        toast.success(i18n.t("editHistory.undone", { action: i18n.t(snapshot.label) }), {
+          id: EDIT_HISTORY_TOAST_ID,
+        });
+      },
+      redo: () => {
+        const state = get();
+        const snapshot = state.redoStack[state.redoStack.length - 1];
+        if (!snapshot || snapshot.mediaId !== state.getCurrentMediaId()) {
+          set({ redoStack: [] });
+          toast(i18n.t("editHistory.nothingToRedo"), { id: EDIT_HISTORY_TOAST_ID });
+          return;
+        }
+
+        set({
+          ...restoreSnapshot(state, snapshot),
+          lastEdit: null,
+          undoStack: [...state.undoStack, takeSnapshot(state, snapshot.label)],
+          redoStack: state.redoStack.slice(0, -1),
+        });
+        toast.success(i18n.t("editHistory.redone", { action: i18n.t(snapshot.label) }), {
+          id: EDIT_HISTORY_TOAST_ID,
+        });
+      },
+      setLoopEngineEnabled: (loopEngineEnabled) => set({ loopEngineEnabled }),
+      setLoopSnapMode: (loopSnapMode) => set({ loopSnapMode }),
+      setAudioEffects: (changes) =>
+        set((state) => ({ audioEffects: { ...state.audioEffects, ...changes } })),
+      saveAudioEffectsPreset: (name) => {
+        const trimmed = name.trim();
+        if (!trimmed) return;
+        const { eq, center, compressor, normalize } = get().audioEffects;
+        set((state) => ({
+          audioEffectPresets: [
+            // Saving under an existing name replaces that preset
+            ...state.audioEffectPresets.filter((preset) => preset.name !== trimmed),
+            { id: `effects-${Date.now()}`, name: trimmed, settings: { eq, center, compressor, normalize } },
+          ],
+        }));
+      },
+      applyAudioEffectsPreset: (presetId) => {
+        const preset =
+          get().audioEffectPresets.find((p) => p.id === presetId) ??
+          BUILT_IN_EFFECT_PRESETS.find((p) => p.id === presetId);
+        if (preset) {
+          set({ audioEffects: { ...preset.settings, enabled: true } });
+        }
+      },
+      deleteAudioEffectsPreset: (presetId) =>
+        set((state) => ({
+          audioEffectPresets: state.audioEffectPresets.filter((preset) => preset.id !== presetId),
+        })),
+      setMediaLoudness: (mediaLoudness) => set({ mediaLoudness }),
+      setMetronomeEnabled: (metronomeEnabled) => set({ metronomeEnabled }),
+      setMetronomeVolume: (volume) =>
+        set({ metronomeVolume: Math.max(0, Math.min(1, volume)) }),
+      setCountInBars: (bars) => set({ countInBars: Math.max(0, Math.min(2, Math.round(bars))) }),
+      setBeatsPerBar: (beats) => set({ beatsPerBar: Math.max(1, Math.min(12, Math.round(beats))) }),
+      // Count-in length in real seconds, following the current playback speed
+      getCountInDuration: (playbackRate = get().playbackRate) => {
+        const { countInBars, beatsPerBar, bpm } = get();
+        if (!countInBars || !bpm) return 0;
+        return (countInBars * beatsPerBar * 60) / (bpm * playbackRate);
+      },
+      // Waits `gap` seconds and then the count-in, which clicks at the end of the wait,
+      // before playing. Pausing during the wait cancels it; playing again leaves it running.
+      playAfterLeadIn: (gap) => {
+        const { countInBars, beatsPerBar, getCountInDuration } = get();
+        const countIn = getCountInDuration();
+        const leadIn = Math.max(0, gap) + countIn;
+        if (leadIn <= 0) {
+          set({ isPlaying: true, leadInUntil: null });
+          return;
+        }
+
+        const beats = countInBars * beatsPerBar;
+        if (countIn > 0 && beats > 0) {
+          metronome.scheduleCountIn(metronome.now() + leadIn, beats, countIn / beats, beatsPerBar);
+        }
+        const leadInUntil = performance.now() + leadIn * 1000;
+        set({ isPlaying: false, leadInUntil });
+        window.setTimeout(() => {
+          if (get().leadInUntil === leadInUntil) {
+            set({ isPlaying: true, leadInUntil: null });
+          }
+        }, leadIn * 1000);
+      },
+      startSpeedTrainer: (settings) => {
+        const { selectedBookmarkId, updateBookmark } = get();
+        const startRate = Math.max(0.25, Math.min(2, settings.startRate));
+        const speedTrainer: SpeedTrainer = {
+          ...settings,
+          startRate,
+          targetRate: Math.max(startRate, Math.min(2, settings.targetRate)),
+          increment: Math.max(0.01, settings.increment),
+          repsPerStep: Math.max(1, Math.round(settings.repsPerStep)),
+          currentRate: startRate,
+        };
+
+        set({ speedTrainer, speedTrainerReps: 0, loopCount: 0, playbackRate: startRate });
+        if (selectedBookmarkId) {
+          updateBookmark(selectedBookmarkId, { speedTrainer });
+        }
+      },
+      stopSpeedTrainer: () => {
+        const { selectedBookmarkId, updateBookmark } = get();
+        set({ speedTrainer: null, speedTrainerReps: 0 });
+        if (selectedBookmarkId) {
+          updateBookmark(selectedBookmarkId, { speedTrainer: undefined });
+        }
+      },
+      stepDownSpeedTrainer: () => {
+        const { speedTrainer, selectedBookmarkId, updateBookmark } = get();
+        if (!speedTrainer) return;
+
+        const currentRate = Math.max(
+          speedTrainer.startRate,
+          Math.round((speedTrainer.currentRate - speedTrainer.increment) * 100) / 100
+        );
+        const updated = { ...speedTrainer, currentRate };
+        set({ speedTrainer: updated, speedTrainerReps: 0, playbackRate: currentRate });
+        if (selectedBookmarkId) {
+          updateBookmark(selectedBookmarkId, { speedTrainer: updated });
+        }
+      },
+      // Decides what follows the running loop pass: repeat, advance, or stop looping.
+      // Nothing changes until the plan is committed.
+      planLoopPass: () => {
+        const {
+          loopStart,
+          loopEnd,
+          loopCount,
+          maxLoops,
+          loopDelay,
+          playbackRate,
+          autoAdvanceBookmarks,
+          selectedBookmarkId,
+          getCurrentMediaBookmarks,
+          getCurrentMediaPlaylists,
+          getCountInDuration,
+          activePlaylist,
+          loadBookmark,
+        } = get();
+        if (loopStart === null || loopEnd === null) {
+          return { result: { action: "release" }, commit: () => {} };
+        }
+
+        // Count the pass
+        const nextCount = (loopCount || 0) + 1;
+        const countPass = () => set({ loopCount: nextCount });
+
+        // A running playlist replaces the global repeat count with the item's own
+        const playlist = activePlaylist
+          ? getCurrentMediaPlaylists().find((p) => p.id === activePlaylist.playlistId)
+          : undefined;
+        const playlistItem = playlist?.items[activePlaylist?.itemIndex ?? -1];
+        const repeatLimit = playlistItem ? playlistItem.repeats : maxLoops;
+
+        // Continue looping (infinite or not yet reached max)
+        const isDone = repeatLimit > 0 && nextCount >= repeatLimit;
+        if (!isDone) {
+          // Progressive speed trainer: step the rate up every N repetitions
+          const { speedTrainer, speedTrainerReps } = get();
+          let rate = playbackRate;
+          let stepTrainer = () => {};
+          if (speedTrainer) {
+            const reps = speedTrainerReps + 1;
+            if (reps >= speedTrainer.repsPerStep && speedTrainer.currentRate < speedTrainer.targetRate) {
+              const currentRate = Math.min(
+                speedTrainer.targetRate,
+                Math.round((speedTrainer.currentRate + speedTrainer.increment) * 100) / 100
+              );
+              const updated = { ...speedTrainer, currentRate };
+              rate = currentRate;
+              stepTrainer = () => {
+                set({ speedTrainer: updated, speedTrainerReps: 0, playbackRate: currentRate });
+                // Save progress on the bookmark so the drill can be resumed later
+                if (selectedBookmarkId) {
+                  get().updateBookmark(selectedBookmarkId, { speedTrainer: updated });
+                }
+                if (currentRate >= speedTrainer.targetRate) {
+                  toast.success(i18n.t("loop.trainerTargetReached", { rate: currentRate.toFixed(2) }));
+                }
+              };
+            } else {
+              stepTrainer = () => set({ speedTrainerReps: reps });
+            }
+          }
+          const countIn = getCountInDuration(rate);
+          return {
+            result: {
+              action: "repeat",
+              start: loopStart,
+              end: loopEnd,
+              delay: loopDelay + countIn,
+              countIn,
+              rate,
+            },
+            commit: () => {
+              countPass();
+              stepTrainer();
+            },
+          };
+        }
+
+        // Move on to the next playable playlist item, or finish the playlist
+        if (playlist && playlistItem && activePlaylist) {
+          const bookmarks = getCurrentMediaBookmarks();
+          for (let index = activePlaylist.itemIndex + 1; index < playlist.items.length; index++) {
+            const item = playlist.items[index];
+            const bookmark = bookmarks.find((b) => b.id === item.bookmarkId);
+            if (!bookmark) continue;
+
+            const rate = item.playbackRate ?? getBookmarkRate(bookmark, playbackRate);
+            const countIn = getCountInDuration(rate);
+            return {
+              result: {
+                action: "advance",
+                start: bookmark.start,
+                end: bookmark.end,
+                delay: playlistItem.postGap + item.preGap + countIn,
+                countIn,
+                rate,
+              },
+              commit: () => {
+                countPass();
+                loadBookmark(bookmark.id);
+                set({
+                  activePlaylist: { playlistId: playlist.id, itemIndex: index },
+                  ...(item.playbackRate !== undefined ? { playbackRate: item.playbackRate } : {}),
+                });
+              },
+            };
+          }
+
+          // The caller pauses once the final repetition has actually finished
+          return {
+            result: { action: "stop" },
+            commit: () => {
+              countPass();
+              set({ activePlaylist: null });
+              toast.success(i18n.t("playlists.finished", { name: playlist.name }));
+            },
+          };
+        }
+
+        // If auto-advance enabled, move to next bookmark
+        if (autoAdvanceBookmarks && selectedBookmarkId) {
+          const list = getCurrentMediaBookmarks().slice().sort((a, b) => a.start - b.start);
+          const idx = list.findIndex((b) => b.id === selectedBookmarkId);
+          if (list.length > 0) {
+            const next = list[(idx + 1 + list.length) % list.length];
+            const rate = getBookmarkRate(next, playbackRate);
+            const countIn = getCountInDuration(rate);
+            return {
+              result: { action: "advance", start: next.start, end: next.end, delay: countIn, countIn, rate },
+              commit: () => {
+                countPass();
+                loadBookmark(next.id);
+              },
+            };
+          }
+        }
+
+        // Otherwise just stop looping and continue playing linear
+        return {
+          result: { action: "release" },
+          commit: () => {
+            countPass();
+            set({ isLooping: false });
+          },
+        };
+      },
+      // Called by the media element and YouTube players when a loop pass has finished
+      completeLoopPass: () => {
+        const { result, commit } = get().planLoopPass();
+        commit();
+        return result;
+      },
 
       // UI actions
       setTheme: (theme) => set({ theme }),
@@ -693,11 +1413,14 @@ export const usePlayerStore = create<PlayerState & PlayerActions>()(
         }
 
         set((state) => ({
+          ...recordEdit(state, "editHistory.addBookmark"),
           mediaBookmarks: {
             ...state.mediaBookmarks,
             [mediaId]: [
               ...(state.mediaBookmarks[mediaId] || []),
               {
+                // Bookmarks remember the key they were practised in
+                transpose: state.transpose,
                 ...bookmark,
                 id: Date.now().toString(),
                 createdAt: Date.now(),
@@ -712,7 +1435,16 @@ export const usePlayerStore = create<PlayerState & PlayerActions>()(
         const mediaId = getCurrentMediaId();
         if (!mediaId) return;
 
+        // Saved drill progress is bookkeeping, not an edit to undo
+        const isProgressOnly = Object.keys(changes).every((key) => key === "speedTrainer");
         set((state) => ({
+          ...(isProgressOnly
+            ? {}
+            : recordEdit(
+                state,
+                "editHistory.editBookmark",
+                `bookmark:${id}:${Object.keys(changes).sort().join("+")}`
+              )),
           mediaBookmarks: {
             ...state.mediaBookmarks,
             [mediaId]: (state.mediaBookmarks[mediaId] || []).map((bookmark) =>
@@ -727,12 +1459,20 @@ export const usePlayerStore = create<PlayerState & PlayerActions>()(
         if (!mediaId) return;
 
         set((state) => ({
+          ...recordEdit(state, "editHistory.deleteBookmark"),
           mediaBookmarks: {
             ...state.mediaBookmarks,
             [mediaId]: (state.mediaBookmarks[mediaId] || []).filter(
               (bookmark) => bookmark.id !== id
             ),
           },
+          mediaPlaylists: {
+            ...state.mediaPlaylists,
+            [mediaId]: (state.mediaPlaylists[mediaId] || []).map((playlist) => ({
+              ...playlist,
+              items: playlist.items.filter((item) => item.bookmarkId !== id),
+            })),
+          },
           selectedBookmarkId:
             state.selectedBookmarkId === id ? null : state.selectedBookmarkId,
         }));
@@ -752,11 +1492,34 @@ export const usePlayerStore = create<PlayerState & PlayerActions>()(
             ...(bookmark.playbackRate !== undefined
               ? { playbackRate: bookmark.playbackRate }
               : {}),
+            ...(bookmark.transpose !== undefined ? { transpose: bookmark.transpose } : {}),
+            // Loading a bookmark by hand leaves any running playlist
+            activePlaylist: null,
+            // Resume the bookmark's speed drill where it was left off
+            speedTrainer: bookmark.speedTrainer ?? null,
+            speedTrainerReps: 0,
+            ...(bookmark.speedTrainer
+              ? { playbackRate: bookmark.speedTrainer.currentRate }
+              : {}),
           });
         }
       },
       setSelectedBookmarkId: (selectedBookmarkId) =>
         set({ selectedBookmarkId }),
+      gradeBookmark: (mediaId, bookmarkId, grade) => {
+        // Review runs across all media, so this is not scoped to the current one.
+        // Like drill progress, a grade is bookkeeping and stays out of undo history.
+        set((state) => ({
+          mediaBookmarks: {
+            ...state.mediaBookmarks,
+            [mediaId]: (state.mediaBookmarks[mediaId] || []).map((bookmark) =>
+              bookmark.id === bookmarkId
+                ? { ...bookmark, review: scheduleReview(bookmark.review, grade) }
+                : bookmark
+            ),
+          },
+        }));
+      },
       importBookmarks: (bookmarks) => {
         const { getCurrentMediaId } = get();
         const mediaId = getCurrentMediaId();
@@ -773,6 +1536,7 @@ export const usePlayerStore = create<PlayerState & PlayerActions>()(
         );
 
         set((state) => ({
+          ...recordEdit(state, "editHistory.importBookmarks"),
           mediaBookmarks: {
             ...state.mediaBookmarks,
             [mediaId]: [...(state.mediaBookmarks[mediaId] || []), ...filtered],
@@ -780,6 +1544,96 @@ export const usePlayerStore = create<PlayerState & PlayerActions>()(
         }));
       },
 
+      // Practice playlist actions
+      createPlaylist: (name) => {
+        const mediaId = get().getCurrentMediaId();
+        if (!mediaId) return null;
+
+        const id = Date.now().toString();
+        set((state) => ({
+          ...recordEdit(state, "editHistory.createPlaylist"),
+          mediaPlaylists: {
+            ...state.mediaPlaylists,
+            [mediaId]: [
+              ...(state.mediaPlaylists[mediaId] || []),
+              { id, name, items: [], createdAt: Date.now() },
+            ],
+          },
+        }));
+        return id;
+      },
+      renamePlaylist: (playlistId, name) => {
+        const mediaId = get().getCurrentMediaId();
+        if (!mediaId) return;
+
+        set((state) => ({
+          ...recordEdit(state, "editHistory.renamePlaylist", `rename:${playlistId}`),
+          mediaPlaylists: {
+            ...state.mediaPlaylists,
+            [mediaId]: (state.mediaPlaylists[mediaId] || []).map((playlist) =>
+              playlist.id === playlistId ? { ...playlist, name } : playlist
+            ),
+          },
+        }));
+      },
+      deletePlaylist: (playlistId) => {
+        const mediaId = get().getCurrentMediaId();
+        if (!mediaId) return;
+
+        set((state) => ({
+          ...recordEdit(state, "editHistory.deletePlaylist"),
+          mediaPlaylists: {
+            ...state.mediaPlaylists,
+            [mediaId]: (state.mediaPlaylists[mediaId] || []).filter(
+              (playlist) => playlist.id !== playlistId
+            ),
+          },
+          activePlaylist:
+            state.activePlaylist?.playlistId === playlistId ? null : state.activePlaylist,
+        }));
+      },
+      setPlaylistItems: (playlistId, items) => {
+        const mediaId = get().getCurrentMediaId();
+        if (!mediaId) return;
+
+        set((state) => {
+          const previous = state.mediaPlaylists[mediaId] || [];
+          const playlists = previous.map((playlist) =>
+            playlist.id === playlistId ? { ...playlist, items } : playlist
+          );
+          return {
+            ...recordEdit(state, "editHistory.editPlaylist", `playlist:${playlistId}`),
+            mediaPlaylists: { ...state.mediaPlaylists, [mediaId]: playlists },
+            activePlaylist: rebaseActivePlaylist(state.activePlaylist, previous, playlists),
+          };
+        });
+      },
+      startPlaylist: (playlistId, itemIndex = 0) => {
+        const { getCurrentMediaPlaylists, getCurrentMediaBookmarks, loadBookmark } = get();
+        const playlist = getCurrentMediaPlaylists().find((p) => p.id === playlistId);
+        if (!playlist) return;
+
+        const bookmarks = getCurrentMediaBookmarks();
+        for (let index = itemIndex; index < playlist.items.length; index++) {
+          const item = playlist.items[index];
+          const bookmark = bookmarks.find((b) => b.id === item.bookmarkId);
+          if (!bookmark) continue;
+
+          loadBookmark(bookmark.id);
+          set({
+            activePlaylist: { playlistId, itemIndex: index },
+            currentTime: bookmark.start,
+            ...(item.playbackRate !== undefined ? { playbackRate: item.playbackRate } : {}),
+          });
+          // The first item waits out its gap like the items after it
+          get().playAfterLeadIn(item.preGap);
+          return;
+        }
+
+        toast.error(i18n.t("playlists.empty"));
+      },
+      stopPlaylist: () => set({ activePlaylist: null }),
+
       // History actions
       addRecentYouTubeVideo: (video) =>
         set((state) => {
@@ -1056,11 +1910,17 @@ export const usePlayerStore = create<PlayerState & PlayerActions>()(
         // Remove references immediately so the library updates even if storage cleanup is slow.
         set((state) => {
           const nextBookmarks = { ...state.mediaBookmarks };
+          const nextPlaylists = { ...state.mediaPlaylists };
           const nextTranscripts = { ...state.mediaTranscripts };
+          const nextDictationScores = { ...state.dictationScores };
+          const nextTranscriptDisplay = { ...state.mediaTranscriptDisplay };
 
           if (derivedMediaId) {
             delete nextBookmarks[derivedMediaId];
+            delete nextPlaylists[derivedMediaId];
             delete nextTranscripts[derivedMediaId];
+            delete nextDictationScores[derivedMediaId];
+            delete nextTranscriptDisplay[derivedMediaId];
           }
 
           return {
@@ -1068,7 +1928,10 @@ export const usePlayerStore = create<PlayerState & PlayerActions>()(
               (item) => item.id !== historyItemId
             ),
             mediaBookmarks: nextBookmarks,
+            mediaPlaylists: nextPlaylists,
             mediaTranscripts: nextTranscripts,
+            dictationScores: nextDictationScores,
+            mediaTranscriptDisplay: nextTranscriptDisplay,
             ...(isDeletingCurrentMedia
               ? {
                   currentFile: null,
@@ -1090,7 +1953,7 @@ export const usePlayerStore = create<PlayerState & PlayerActions>()(
 
           try {
             const { useShadowingStore } = await import("./shadowingStore");
-            await useShadowingStore.getState().deleteAllSegments(derivedMediaId);
+            await useShadowingStore.getState().deleteAllSegments(derivedMediaId, { permanent: true });
           } catch (error) {
             console.error("Failed to delete shadowing segments:", error);
           }
@@ -1128,7 +1991,10 @@ export const usePlayerStore = create<PlayerState & PlayerActions>()(
         set({
           mediaHistory: [],
           mediaBookmarks: {},
+          mediaPlaylists: {},
           mediaTranscripts: {},
+          dictationScores: {},
+          mediaTranscriptDisplay: {},
           currentFile: null,
           currentYouTube: null,
           isPlaying: false,
@@ -1147,7 +2013,7 @@ export const usePlayerStore = create<PlayerState & PlayerActions>()(
           const { useShadowingStore } = await import("./shadowingStore");
           await Promise.all(
             mediaIds.map((mediaId) =>
-              useShadowingStore.getState().deleteAllSegments(mediaId)
+              useShadowingStore.getState().deleteAllSegments(mediaId, { permanent: true })
             )
           );
         } catch (error) {
@@ -1339,12 +2205,18 @@ export const usePlayerStore = create<PlayerState & PlayerActions>()(
         const mediaId = getCurrentMediaId();
         if (!mediaId) return;
 
-        set((state) => ({
-          mediaTranscripts: {
-            ...state.mediaTranscripts,
-            [mediaId]: [],
-          },
-        }));
+        // Attempts are keyed by segment id, so they go with the segments
+        set((state) => {
+          const nextDictationScores = { ...state.dictationScores };
+          delete nextDictationScores[mediaId];
+          return {
+            mediaTranscripts: {
+              ...state.mediaTranscripts,
+              [mediaId]: [],
+            },
+            dictationScores: nextDictationScores,
+          };
+        });
 
         void deleteStoredTranscript(mediaId);
       },
@@ -1362,6 +2234,56 @@ export const usePlayerStore = create<PlayerState & PlayerActions>()(
         set({ transcriptLanguage: language });
       },
 
+      setTranscriptDisplay(changes) {
+        const mediaId = get().getCurrentMediaId();
+        if (!mediaId) return;
+
+        set((state) => {
+          const previous = state.getCurrentTranscriptDisplay();
+          return {
+            mediaTranscriptDisplay: {
+              ...state.mediaTranscriptDisplay,
+              [mediaId]: { ...previous, ...changes },
+            },
+            // Switching modes hides everything again
+            ...(changes.mode && changes.mode !== previous.mode
+              ? { revealedSegments: {}, segmentPlayCounts: {} }
+              : {}),
+          };
+        });
+      },
+
+      revealTranscriptSegment(segmentId) {
+        set((state) => ({
+          revealedSegments: { ...state.revealedSegments, [segmentId]: true },
+        }));
+      },
+
+      revealCurrentTranscriptSegment() {
+        const { currentTime, getCurrentMediaTranscripts, getCurrentTranscriptDisplay } = get();
+        if (getCurrentTranscriptDisplay().mode === "full") return;
+
+        // Between segments, reveal the one that just ended
+        const segments = getCurrentMediaTranscripts();
+        const segment =
+          segments.find((s) => currentTime >= s.startTime && currentTime <= s.endTime) ??
+          segments
+            .filter((s) => s.startTime <= currentTime)
+            .sort((a, b) => b.startTime - a.startTime)[0];
+        if (segment) {
+          get().revealTranscriptSegment(segment.id);
+        }
+      },
+
+      recordSegmentPlay(segmentId) {
+        set((state) => ({
+          segmentPlayCounts: {
+            ...state.segmentPlayCounts,
+            [segmentId]: (state.segmentPlayCounts[segmentId] ?? 0) + 1,
+          },
+        }));
+      },
+
       exportTranscript(format) {
         const { mediaTranscripts, getCurrentMediaId } = get();
         const mediaId = getCurrentMediaId();
@@ -1758,6 +2680,25 @@ export const usePlayerStore = create<PlayerState & PlayerActions>()(
         });
       },
 
+      recordDictationAttempt(segmentId, score) {
+        const mediaId = get().getCurrentMediaId();
+        if (!mediaId) return;
+
+        set((state) => {
+          const mediaScores = state.dictationScores[mediaId] || {};
+          const attempts = [
+            ...(mediaScores[segmentId] || []),
+            { score, attemptedAt: Date.now() },
+          ].slice(-MAX_DICTATION_ATTEMPTS);
+          return {
+            dictationScores: {
+              ...state.dictationScores,
+              [mediaId]: { ...mediaScores, [segmentId]: attempts },
+            },
+          };
+        });
+      },
+
       // New loading action
       setIsLoadingMedia: (loading) => set({ isLoadingMedia: loading }),
 
@@ -1782,12 +2723,23 @@ export const usePlayerStore = create<PlayerState & PlayerActions>()(
         return mediaId ? mediaBookmarks[mediaId] || [] : [];
       },
 
+      getCurrentMediaPlaylists: () => {
+        const { mediaPlaylists, getCurrentMediaId } = get();
+        const mediaId = getCurrentMediaId();
+        return mediaId ? mediaPlaylists[mediaId] || [] : [];
+      },
+
       // Helper functions for media-scoped transcripts
       getCurrentMediaTranscripts: () => {
         const { mediaTranscripts, getCurrentMediaId } = get();
         const mediaId = getCurrentMediaId();
         return mediaId ? mediaTranscripts[mediaId] || [] : [];
       },
+      getCurrentTranscriptDisplay: () => {
+        const { mediaTranscriptDisplay, getCurrentMediaId } = get();
+        const mediaId = getCurrentMediaId();
+        return (mediaId && mediaTranscriptDisplay[mediaId]) || DEFAULT_TRANSCRIPT_DISPLAY;
+      },
     }),
     {
       name: "abloop-player-storage",
@@ -1833,12 +2785,16 @@ export const usePlayerStore = create<PlayerState & PlayerActions>()(
         volume: state.volume,
         muted: state.muted,
         playbackRate: state.playbackRate,
+        transpose: state.transpose,
         theme: state.theme,
         waveformZoom: state.waveformZoom,
         showWaveform: state.showWaveform,
         videoSize: state.videoSize,
         mediaBookmarks: state.mediaBookmarks,
+        mediaPlaylists: state.mediaPlaylists,
         showTranscript: state.showTranscript,
+        dictationScores: state.dictationScores,
+        mediaTranscriptDisplay: state.mediaTranscriptDisplay,
         transcriptLanguage: state.transcriptLanguage,
         recentYouTubeVideos: state.recentYouTubeVideos,
         mediaHistory: state.mediaHistory,
@@ -1849,6 +2805,15 @@ export const usePlayerStore = create<PlayerState & PlayerActions>()(
         historyFolderFilter: state.historyFolderFilter,
         seekStepSeconds: state.seekStepSeconds,
         seekSmallStepSeconds: state.seekSmallStepSeconds,
+        loopEngineEnabled: state.loopEngineEnabled,
+        loopSnapMode: state.loopSnapMode,
+        loopShaping: state.loopShaping,
+        audioEffects: state.audioEffects,
+        audioEffectPresets: state.audioEffectPresets,
+        metronomeEnabled: state.metronomeEnabled,
+        metronomeVolume: state.metronomeVolume,
+        countInBars: state.countInBars,
+        beatsPerBar: state.beatsPerBar,
       }),
     }
   )
@@ -1,8 +1,15 @@
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
-import { deleteMediaFile } from "../utils/mediaStorage";
-
-interface ShadowingSegment {
+import { toast } from "react-hot-toast";
+import i18n from "../i18n";
+import { deleteMediaFile, deleteMediaFiles, retrieveMediaFile } from "../utils/mediaStorage";
+import type { PronunciationAnalysis } from "../utils/pronunciationAnalysis";
+import { transcriptionService, TranscriptionResult } from "../services/transcriptionService";
+import type { TranscriptionProvider } from "../types/aiService";
+import { shiftTake } from "../utils/shadowingTakes";
+import { DEFAULT_VOICE_ACTIVITY, VoiceActivityEvent, VoiceActivitySettings } from "../utils/voiceActivity";
+
+export interface ShadowingSegment {
     id: string;
     startTime: number;
     duration: number;
@@ -10,6 +17,61 @@ interface ShadowingSegment {
     fileOffset?: number;
     peaks?: number[];
     peakTimes?: number[];
+    analysis?: PronunciationAnalysis; // Similarity to the original over the same range
+    transcription?: ShadowingTranscription;
+    starred?: boolean; // Best take of its region; plays over overlapping takes
+    alignmentShift?: number; // Seconds moved by automatic alignment; set once the take was checked
+    videoStorageId?: string; // Silent camera recording made alongside the audio
+}
+
+export interface ShadowingTranscription {
+    text: string;
+    provider: TranscriptionProvider;
+    transcribedAt: number;
+}
+
+// A deleted take, kept with its recording until the trash retention runs out
+export interface TrashedTake {
+    mediaId: string;
+    take: ShadowingSegment;
+    position: number; // Index in the session when deleted, so a restored take keeps its playback priority
+    batchId: string; // Takes deleted by one action are restored together
+    deletedAt: number;
+}
+
+// While auditioning a take, hear either the take alone or the original alone
+export type AuditionSource = "take" | "original";
+
+// Microphone used for takes; see AudioRecorderConfig
+export interface MicrophoneSettings {
+    deviceId: string | null; // Browser default when null
+    echoCancellation: boolean;
+    noiseSuppression: boolean;
+    autoGainControl: boolean;
+    inputGain: number;
+    monitor: boolean; // Hear yourself while shadowing; meant for headphones
+}
+
+// What starts and stops a take in shadowing mode: play/pause of the media, or
+// the learner's voice while the media plays
+export type RecordingTrigger = "playback" | "voice";
+
+// Where the voice detector started or stopped a take, for the waveform overlay
+export interface VoiceTrigger {
+    mediaId: string;
+    time: number;
+    event: VoiceActivityEvent;
+}
+
+// How a take's video is shown next to the source: beside it or inset in a corner
+export type TakeVideoLayout = "side" | "pip";
+
+// Listen-and-repeat drill over the transcript; see useRepeatDrill
+export interface RepeatDrillSettings {
+    repeats: number; // Times each segment is played and repeated
+    gapFactor: number; // Pause after a segment, as a multiple of its length
+    record: boolean; // Record the repetition during the pause
+    playback: boolean; // Play the recording back before moving on
 }
 
 interface ShadowingSession {
@@ -24,6 +86,27 @@ interface ShadowingState {
     previousShadowVolume?: number;
     muted: boolean;
     sessions: Record<string, ShadowingSession>;
+    transcribeTakes: boolean; // Send each new take to the transcription provider
+    transcribingSegments: Record<string, boolean>;
+    auditionTakeId: string | null;
+    auditionSource: AuditionSource;
+    microphone: MicrophoneSettings;
+    latencyOffsets: Record<string, number>; // Measured round-trip latency by input device ("default" for the browser default)
+    autoAlignTakes: boolean; // Move new takes to where they best match the original
+    snapImportedTakes: boolean; // Move imported takes to where they best match the original
+    trash: TrashedTake[];
+    trashRetentionDays: number;
+    repeatDrill: RepeatDrillSettings;
+    drillPositions: Record<string, string>; // Transcript segment each media's drill last reached
+    isDrilling: boolean; // Takes follow the drill's pauses instead of playback
+    repetitionStart: number | null; // Media time the repetition being recorded belongs to
+    recordingTrigger: RecordingTrigger;
+    voiceActivity: VoiceActivitySettings;
+    isVoiceActive: boolean; // The learner is speaking, per the voice detector
+    voiceTriggers: VoiceTrigger[]; // Recent detector events of this session
+    recordVideo: boolean; // Record the camera with each take
+    takeVideoLayout: TakeVideoLayout;
+    cameraStream: MediaStream | null; // Open while shadowing mode records video
 }
 
 interface ShadowingActions {
@@ -40,36 +123,110 @@ interface ShadowingActions {
     } | null;
     updateCurrentRecording: (data: { startTime: number; peaks: number[]; peakTimes: number[] } | null) => void;
     addSegment: (mediaId: string, segment: ShadowingSegment) => void;
+    setSegmentAnalysis: (mediaId: string, segmentId: string, analysis: PronunciationAnalysis) => void;
+    setTranscribeTakes: (enabled: boolean) => void;
+    transcribeSegment: (mediaId: string, segmentId: string) => Promise<void>;
     getSegments: (mediaId: string) => ShadowingSegment[];
     clearSegments: (mediaId: string) => void;
-    deleteAllSegments: (mediaId: string) => Promise<void>;
-    removeOverlappingSegments: (mediaId: string, startTime: number, endTime: number) => Promise<void>;
+    deleteAllSegments: (mediaId: string, options?: { permanent?: boolean }) => Promise<void>;
+    deleteTake: (mediaId: string, takeId: string) => void;
+    undoLastDeletion: (mediaId: string) => boolean;
+    restoreTrashedTake: (takeId: string) => void;
+    emptyTrash: (mediaId: string) => Promise<void>;
+    purgeExpiredTrash: () => Promise<void>;
+    setTrashRetentionDays: (days: number) => void;
+    toggleTakeStar: (mediaId: string, takeId: string) => void;
+    setAudition: (takeId: string | null) => void;
+    setAuditionSource: (source: AuditionSource) => void;
+    setMicrophone: (changes: Partial<MicrophoneSettings>) => void;
+    setLatencyOffset: (deviceKey: string, latency: number | null) => void;
+    setAutoAlignTakes: (enabled: boolean) => void;
+    setSnapImportedTakes: (enabled: boolean) => void;
+    alignSegment: (mediaId: string, segmentId: string, shift: number) => void;
+    setRepeatDrill: (changes: Partial<RepeatDrillSettings>) => void;
+    setDrillPosition: (mediaId: string, segmentId: string | null) => void;
+    setIsDrilling: (isDrilling: boolean) => void;
+    setRepetitionStart: (time: number | null) => void;
+    setRecordingTrigger: (trigger: RecordingTrigger) => void;
+    setVoiceActivity: (changes: Partial<VoiceActivitySettings>) => void;
+    setIsVoiceActive: (active: boolean) => void;
+    addVoiceTrigger: (trigger: VoiceTrigger) => void;
+    setRecordVideo: (enabled: boolean) => void;
+    setTakeVideoLayout: (layout: TakeVideoLayout) => void;
+    setCameraStream: (stream: MediaStream | null) => void;
+    replaceTakeFile: (oldStorageId: string, newStorageId: string) => Promise<void>;
 }
 
 const EMPTY_SESSION: ShadowingSession = { segments: [] };
 
-const sliceSegmentPeakData = (
-    segment: ShadowingSegment,
-    sliceStart: number,
-    sliceEnd: number
-): Pick<ShadowingSegment, "peaks" | "peakTimes"> => {
-    if (!segment.peaks?.length || !segment.peakTimes?.length) {
-        return {};
-    }
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_VOICE_TRIGGERS = 40;
+
+// Audio file of a take, and its video when it has one
+const takeStorageIds = (take: ShadowingSegment) =>
+    take.videoStorageId ? [take.storageId, take.videoStorageId] : [take.storageId];
+
+// Files among `storageIds` that no live or trashed take records into any more
+const unusedStorageIds = (
+    storageIds: Iterable<string>,
+    sessions: Record<string, ShadowingSession>,
+    trash: TrashedTake[]
+) => {
+    const used = new Set([
+        ...Object.values(sessions).flatMap((session) => session.segments.flatMap(takeStorageIds)),
+        ...trash.flatMap((item) => takeStorageIds(item.take)),
+    ]);
+    return [...new Set(storageIds)].filter((storageId) => !used.has(storageId));
+};
 
-    const slicedPeaks: number[] = [];
-    const slicedPeakTimes: number[] = [];
+// Puts trashed takes back at their old positions in their sessions
+const restoreFromTrash = (
+    state: ShadowingState,
+    entries: TrashedTake[]
+): Pick<ShadowingState, "sessions" | "trash"> => {
+    const sessions = { ...state.sessions };
+    [...entries]
+        .sort((a, b) => a.position - b.position)
+        .forEach((entry) => {
+            const segments = [...(sessions[entry.mediaId]?.segments || [])];
+            segments.splice(Math.min(entry.position, segments.length), 0, entry.take);
+            sessions[entry.mediaId] = { segments };
+        });
+
+    const restored = new Set(entries);
+    return { sessions, trash: state.trash.filter((entry) => !restored.has(entry)) };
+};
 
-    segment.peakTimes.forEach((time, index) => {
-        if (time >= sliceStart && time <= sliceEnd) {
-            slicedPeaks.push(segment.peaks![index]);
-            slicedPeakTimes.push(time - sliceStart);
-        }
-    });
+const DEFAULT_MICROPHONE: MicrophoneSettings = {
+    deviceId: null,
+    echoCancellation: true,
+    noiseSuppression: true,
+    autoGainControl: true,
+    inputGain: 1,
+    monitor: false,
+};
+
+export const DEFAULT_REPEAT_DRILL: RepeatDrillSettings = {
+    repeats: 1,
+    gapFactor: 1.5,
+    record: true,
+    playback: true,
+};
 
-    return slicedPeaks.length > 0
-        ? { peaks: slicedPeaks, peakTimes: slicedPeakTimes }
-        : {};
+// Takes trimmed by earlier versions share their file with other parts of the
+// same recording, so only the words timed within the take's own part are kept
+const textWithinSegment = (result: TranscriptionResult, segment: ShadowingSegment) => {
+    if (segment.fileOffset === undefined || result.segments.length === 0) {
+        return result.fullText.trim();
+    }
+
+    const from = segment.fileOffset;
+    const to = segment.fileOffset + segment.duration;
+    const words = result.segments.filter((part) => {
+        const middle = (part.start + part.end) / 2;
+        return middle >= from && middle <= to;
+    });
+    return (words.length > 0 ? words.map((part) => part.text.trim()).join(" ") : result.fullText).trim();
 };
 
 export const useShadowingStore = create<ShadowingState & ShadowingActions>()(
@@ -81,6 +238,27 @@ export const useShadowingStore = create<ShadowingState & ShadowingActions>()(
             volume: 1,
             muted: false,
             sessions: {},
+            transcribeTakes: false,
+            transcribingSegments: {},
+            auditionTakeId: null,
+            auditionSource: "take",
+            microphone: DEFAULT_MICROPHONE,
+            latencyOffsets: {},
+            trash: [],
+            trashRetentionDays: 7,
+            autoAlignTakes: false,
+            snapImportedTakes: true,
+            repeatDrill: DEFAULT_REPEAT_DRILL,
+            drillPositions: {},
+            isDrilling: false,
+            repetitionStart: null,
+            recordingTrigger: "playback",
+            voiceActivity: DEFAULT_VOICE_ACTIVITY,
+            isVoiceActive: false,
+            voiceTriggers: [],
+            recordVideo: false,
+            takeVideoLayout: "side",
+            cameraStream: null,
             currentRecording: null,
 
             setShadowingMode: (enabled) => set({ isShadowingMode: enabled }),
@@ -112,6 +290,83 @@ export const useShadowingStore = create<ShadowingState & ShadowingActions>()(
                 };
             }),
 
+            setSegmentAnalysis: (mediaId, segmentId, analysis) => set((state) => {
+                const session = state.sessions[mediaId];
+                if (!session?.segments.some((segment) => segment.id === segmentId)) return state;
+
+                return {
+                    sessions: {
+                        ...state.sessions,
+                        [mediaId]: {
+                            segments: session.segments.map((segment) =>
+                                segment.id === segmentId ? { ...segment, analysis } : segment
+                            ),
+                        },
+                    },
+                };
+            }),
+
+            setTranscribeTakes: (transcribeTakes) => set({ transcribeTakes }),
+
+            transcribeSegment: async (mediaId, segmentId) => {
+                const segment = get().sessions[mediaId]?.segments.find((s) => s.id === segmentId);
+                if (!segment || get().transcribingSegments[segmentId]) return;
+
+                set((state) => ({
+                    transcribingSegments: { ...state.transcribingSegments, [segmentId]: true },
+                }));
+
+                try {
+                    const file = await retrieveMediaFile(segment.storageId);
+                    if (!file) {
+                        throw new Error(`Recording ${segment.storageId} not found`);
+                    }
+
+                    const provider = transcriptionService.getPreferredProvider();
+                    const result = await transcriptionService.transcribe(
+                        {
+                            provider,
+                            apiKey: transcriptionService.getApiKeyForProvider(provider),
+                        },
+                        file
+                    );
+                    const transcription: ShadowingTranscription = {
+                        text: textWithinSegment(result, segment),
+                        provider,
+                        transcribedAt: Date.now(),
+                    };
+
+                    set((state) => {
+                        const session = state.sessions[mediaId];
+                        if (!session) return state;
+
+                        return {
+                            sessions: {
+                                ...state.sessions,
+                                [mediaId]: {
+                                    segments: session.segments.map((s) =>
+                                        s.id === segmentId ? { ...s, transcription } : s
+                                    ),
+                                },
+                            },
+                        };
+                    });
+                } catch (error) {
+                    console.error("🎙️ [ShadowingStore] Failed to transcribe take:", error);
+                    toast.error(
+                        i18n.t("shadowing.transcribeFailed", {
+                            message: error instanceof Error ? error.message : String(error),
+                        })
+                    );
+                } finally {
+                    set((state) => {
+                        const rest = { ...state.transcribingSegments };
+                        delete rest[segmentId];
+                        return { transcribingSegments: rest };
+                    });
+                }
+            },
+
             getSegments: (mediaId) => {
                 return get().sessions[mediaId]?.segments || [];
             },
@@ -122,133 +377,221 @@ export const useShadowingStore = create<ShadowingState & ShadowingActions>()(
                 return { sessions: rest };
             }),
 
-            deleteAllSegments: async (mediaId) => {
+            // Takes go to the trash unless the media itself is being removed
+            deleteAllSegments: async (mediaId, options) => {
+                if (options?.permanent) {
+                    const { sessions, trash } = get();
+                    const storageIds = [
+                        ...(sessions[mediaId]?.segments || []).flatMap(takeStorageIds),
+                        ...trash.filter((item) => item.mediaId === mediaId).flatMap((item) => takeStorageIds(item.take)),
+                    ];
+
+                    set((state) => {
+                        const rest = { ...state.sessions };
+                        delete rest[mediaId];
+                        return {
+                            sessions: rest,
+                            trash: state.trash.filter((item) => item.mediaId !== mediaId),
+                            auditionTakeId: null,
+                        };
+                    });
+
+                    await deleteMediaFiles(unusedStorageIds(storageIds, get().sessions, get().trash));
+                    console.log("🗑️ [ShadowingStore] Deleted recording files for:", mediaId);
+                    return;
+                }
+
                 const session = get().sessions[mediaId];
                 if (!session) return;
 
-                const storageIds = new Set(session.segments.map((segment) => segment.storageId));
-
+                const batchId = `trash-${Date.now()}`;
+                const deletedAt = Date.now();
                 set((state) => {
                     const rest = { ...state.sessions };
                     delete rest[mediaId];
-                    return { sessions: rest };
+                    return {
+                        sessions: rest,
+                        trash: [
+                            ...state.trash,
+                            ...session.segments.map((take, position) => ({ mediaId, take, position, batchId, deletedAt })),
+                        ],
+                        auditionTakeId: null,
+                    };
                 });
-
-                for (const storageId of storageIds) {
-                    try {
-                        await deleteMediaFile(storageId);
-                        console.log("🗑️ [ShadowingStore] Deleted recording file:", storageId);
-                    } catch (error) {
-                        console.error(`🗑️ [ShadowingStore] Failed to delete file ${storageId}:`, error);
-                    }
-                }
             },
 
-            removeOverlappingSegments: async (mediaId, startTime, endTime) => {
-                const session = get().sessions[mediaId];
-                if (!session) return;
+            deleteTake: (mediaId, takeId) => set((state) => {
+                const session = state.sessions[mediaId];
+                const position = session?.segments.findIndex((segment) => segment.id === takeId) ?? -1;
+                if (!session || position === -1) return state;
 
-                console.log(`🗑️ [ShadowingStore] Checking for overlaps in track: new recording [${startTime.toFixed(2)}s - ${endTime.toFixed(2)}s]`);
-
-                const newSegments: ShadowingSegment[] = [];
-                const idsToRemove = new Set<string>();
-                const storageIdsToCheckForDeletion = new Set<string>();
-
-                session.segments.forEach((seg) => {
-                    const segDuration = seg.duration > 0.1 ? seg.duration : 5.0;
-                    const segStart = seg.startTime;
-                    const segEnd = segStart + segDuration;
-                    const fileOffset = seg.fileOffset || 0;
-
-                    if (startTime < segEnd && endTime > segStart) {
-                        console.log(`🗑️ [ShadowingStore] Processing overlap for segment ${seg.id} [${segStart.toFixed(2)}-${segEnd.toFixed(2)}]`);
-
-                        idsToRemove.add(seg.id);
-                        storageIdsToCheckForDeletion.add(seg.storageId);
-
-                        if (startTime <= segStart && endTime >= segEnd) {
-                            console.log("   -> Fully overwritten");
-                        } else if (startTime > segStart && endTime < segEnd) {
-                            console.log("   -> Split in middle");
-                            const firstDuration = startTime - segStart;
-                            newSegments.push({
-                                id: Math.random().toString(36).substring(7),
-                                startTime: segStart,
-                                duration: firstDuration,
-                                storageId: seg.storageId,
-                                fileOffset,
-                                ...sliceSegmentPeakData(seg, 0, firstDuration),
-                            });
-
-                            const secondDuration = segEnd - endTime;
-                            const secondOffset = fileOffset + (endTime - segStart);
-                            newSegments.push({
-                                id: Math.random().toString(36).substring(7),
-                                startTime: endTime,
-                                duration: secondDuration,
-                                storageId: seg.storageId,
-                                fileOffset: secondOffset,
-                                ...sliceSegmentPeakData(seg, endTime - segStart, segEnd - segStart),
-                            });
-                        } else if (startTime > segStart) {
-                            console.log("   -> Trim end");
-                            const newDuration = startTime - segStart;
-                            newSegments.push({
-                                id: Math.random().toString(36).substring(7),
-                                startTime: segStart,
-                                duration: newDuration,
-                                storageId: seg.storageId,
-                                fileOffset,
-                                ...sliceSegmentPeakData(seg, 0, newDuration),
-                            });
-                        } else if (endTime < segEnd) {
-                            console.log("   -> Trim start");
-                            const newDuration = segEnd - endTime;
-                            const newOffset = fileOffset + (endTime - segStart);
-                            newSegments.push({
-                                id: Math.random().toString(36).substring(7),
-                                startTime: endTime,
-                                duration: newDuration,
-                                storageId: seg.storageId,
-                                fileOffset: newOffset,
-                                ...sliceSegmentPeakData(seg, endTime - segStart, segEnd - segStart),
-                            });
-                        }
-                    }
-                });
+                return {
+                    sessions: {
+                        ...state.sessions,
+                        [mediaId]: {
+                            segments: session.segments.filter((segment) => segment.id !== takeId),
+                        },
+                    },
+                    trash: [
+                        ...state.trash,
+                        {
+                            mediaId,
+                            take: session.segments[position],
+                            position,
+                            batchId: `trash-${Date.now()}`,
+                            deletedAt: Date.now(),
+                        },
+                    ],
+                    auditionTakeId: state.auditionTakeId === takeId ? null : state.auditionTakeId,
+                };
+            }),
 
-                set((state) => {
-                    const currentSession = state.sessions[mediaId];
-                    if (!currentSession) return state;
+            undoLastDeletion: (mediaId) => {
+                const last = [...get().trash].reverse().find((item) => item.mediaId === mediaId);
+                if (!last) return false;
 
-                    const keptSegments = currentSession.segments.filter((segment) => !idsToRemove.has(segment.id));
-                    return {
-                        sessions: {
-                            ...state.sessions,
-                            [mediaId]: {
-                                segments: [...keptSegments, ...newSegments],
-                            },
-                        },
-                    };
-                });
+                set((state) => restoreFromTrash(state, state.trash.filter((item) => item.batchId === last.batchId)));
+                return true;
+            },
 
-                const activeStorageIds = new Set(
-                    (get().sessions[mediaId]?.segments || []).map((segment) => segment.storageId)
+            restoreTrashedTake: (takeId) => set((state) =>
+                restoreFromTrash(state, state.trash.filter((item) => item.take.id === takeId))
+            ),
+
+            emptyTrash: async (mediaId) => {
+                const emptied = get().trash.filter((item) => item.mediaId === mediaId);
+                if (emptied.length === 0) return;
+
+                set((state) => ({ trash: state.trash.filter((item) => item.mediaId !== mediaId) }));
+                await deleteMediaFiles(
+                    unusedStorageIds(emptied.flatMap((item) => takeStorageIds(item.take)), get().sessions, get().trash)
                 );
+            },
 
-                for (const storageId of storageIdsToCheckForDeletion) {
-                    if (!activeStorageIds.has(storageId)) {
-                        try {
-                            console.log("🗑️ [ShadowingStore] Deleting orphaned file:", storageId);
-                            await deleteMediaFile(storageId);
-                        } catch (error) {
-                            console.error(`🗑️ [ShadowingStore] Failed to delete file ${storageId}:`, error);
-                        }
-                    } else {
-                        console.log(`🗑️ [ShadowingStore] Preserving file ${storageId} (still referenced)`);
-                    }
+            // Run in the background; drops takes deleted longer ago than the retention period
+            purgeExpiredTrash: async () => {
+                const cutoff = Date.now() - get().trashRetentionDays * DAY_MS;
+                const expired = get().trash.filter((item) => item.deletedAt < cutoff);
+                if (expired.length === 0) return;
+
+                set((state) => ({ trash: state.trash.filter((item) => item.deletedAt >= cutoff) }));
+                const storageIds = unusedStorageIds(
+                    expired.flatMap((item) => takeStorageIds(item.take)),
+                    get().sessions,
+                    get().trash
+                );
+                await deleteMediaFiles(storageIds);
+                console.log(`🗑️ [ShadowingStore] Purged ${expired.length} takes from the trash`);
+            },
+
+            setTrashRetentionDays: (trashRetentionDays) => set({ trashRetentionDays }),
+
+            toggleTakeStar: (mediaId, takeId) => set((state) => {
+                const session = state.sessions[mediaId];
+                const take = session?.segments.find((segment) => segment.id === takeId);
+                if (!session || !take) return state;
+
+                const takeEnd = take.startTime + take.duration;
+                return {
+                    sessions: {
+                        ...state.sessions,
+                        [mediaId]: {
+                            segments: session.segments.map((segment) => {
+                                if (segment.id === takeId) {
+                                    return { ...segment, starred: !take.starred };
+                                }
+                                // Only one take per region can be the best one
+                                const overlaps =
+                                    segment.startTime < takeEnd &&
+                                    take.startTime < segment.startTime + segment.duration;
+                                return overlaps && segment.starred && !take.starred
+                                    ? { ...segment, starred: false }
+                                    : segment;
+                            }),
+                        },
+                    },
+                };
+            }),
+
+            setAudition: (auditionTakeId) => set({ auditionTakeId, auditionSource: "take" }),
+            setAuditionSource: (auditionSource) => set({ auditionSource }),
+            setMicrophone: (changes) => set((state) => ({ microphone: { ...state.microphone, ...changes } })),
+            setLatencyOffset: (deviceKey, latency) => set((state) => {
+                const latencyOffsets = { ...state.latencyOffsets };
+                if (latency === null) {
+                    delete latencyOffsets[deviceKey];
+                } else {
+                    latencyOffsets[deviceKey] = latency;
                 }
+                return { latencyOffsets };
+            }),
+            setAutoAlignTakes: (autoAlignTakes) => set({ autoAlignTakes }),
+            setSnapImportedTakes: (snapImportedTakes) => set({ snapImportedTakes }),
+            setRepeatDrill: (changes) => set((state) => ({ repeatDrill: { ...state.repeatDrill, ...changes } })),
+            setDrillPosition: (mediaId, segmentId) => set((state) => {
+                const drillPositions = { ...state.drillPositions };
+                if (segmentId === null) {
+                    delete drillPositions[mediaId];
+                } else {
+                    drillPositions[mediaId] = segmentId;
+                }
+                return { drillPositions };
+            }),
+            setIsDrilling: (isDrilling) => set({ isDrilling }),
+            setRepetitionStart: (repetitionStart) => set({ repetitionStart }),
+            setRecordingTrigger: (recordingTrigger) => set({ recordingTrigger, isVoiceActive: false }),
+            setVoiceActivity: (changes) => set((state) => ({ voiceActivity: { ...state.voiceActivity, ...changes } })),
+            setIsVoiceActive: (isVoiceActive) => set({ isVoiceActive }),
+            setRecordVideo: (recordVideo) => set({ recordVideo }),
+            setTakeVideoLayout: (takeVideoLayout) => set({ takeVideoLayout }),
+            setCameraStream: (cameraStream) => set({ cameraStream }),
+            addVoiceTrigger: (trigger) => set((state) => ({
+                voiceTriggers: [...state.voiceTriggers, trigger].slice(-MAX_VOICE_TRIGGERS),
+            })),
+
+            // Points every take recorded into the old file at the new one, then drops the old file
+            replaceTakeFile: async (oldStorageId, newStorageId) => {
+                set((state) => ({
+                    sessions: Object.fromEntries(
+                        Object.entries(state.sessions).map(([mediaId, session]) => [
+                            mediaId,
+                            session.segments.some((segment) => segment.storageId === oldStorageId)
+                                ? {
+                                    segments: session.segments.map((segment) =>
+                                        segment.storageId === oldStorageId
+                                            ? { ...segment, storageId: newStorageId }
+                                            : segment
+                                    ),
+                                }
+                                : session,
+                        ])
+                    ),
+                    trash: state.trash.map((item) =>
+                        item.take.storageId === oldStorageId
+                            ? { ...item, take: { ...item.take, storageId: newStorageId } }
+                            : item
+                    ),
+                }));
+                await deleteMediaFile(oldStorageId);
             },
+
+            alignSegment: (mediaId, segmentId, shift) => set((state) => {
+                const session = state.sessions[mediaId];
+                if (!session?.segments.some((segment) => segment.id === segmentId)) return state;
+
+                return {
+                    sessions: {
+                        ...state.sessions,
+                        [mediaId]: {
+                            segments: session.segments.map((segment) =>
+                                segment.id === segmentId
+                                    ? { ...shiftTake(segment, shift), alignmentShift: shift }
+                                    : segment
+                            ),
+                        },
+                    },
+                };
+            }),
         }),
         {
             name: "shadowing-store",
@@ -259,6 +602,19 @@ export const useShadowingStore = create<ShadowingState & ShadowingActions>()(
                 sessions: state.sessions,
                 volume: state.volume,
                 muted: state.muted,
+                transcribeTakes: state.transcribeTakes,
+                microphone: state.microphone,
+                latencyOffsets: state.latencyOffsets,
+                autoAlignTakes: state.autoAlignTakes,
+                snapImportedTakes: state.snapImportedTakes,
+                trash: state.trash,
+                trashRetentionDays: state.trashRetentionDays,
+                repeatDrill: state.repeatDrill,
+                drillPositions: state.drillPositions,
+                recordingTrigger: state.recordingTrigger,
+                voiceActivity: state.voiceActivity,
+                recordVideo: state.recordVideo,
+                takeVideoLayout: state.takeVideoLayout,
             }),
             migrate: (persistedState: unknown) => {
                 const state = (persistedState as Record<string, unknown>) || {};
@@ -286,3 +642,15 @@ export const useShadowingStore = create<ShadowingState & ShadowingActions>()(
         }
     )
 );
+
+interface InputLevelState {
+    level: number; // Live peak of the microphone while shadowing mode is on
+    setLevel: (level: number) => void;
+}
+
+// Updated many times a second, so kept apart from the persisted shadowing
+// store, which rewrites localStorage on every change
+export const useInputLevelStore = create<InputLevelState>()((set) => ({
+    level: 0,
+    setLevel: (level) => set({ level }),
+}));
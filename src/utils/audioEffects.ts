@@ -0,0 +1,211 @@
+import * as Tone from "tone";
+
+export type CenterChannelMode = "off" | "isolate" | "remove";
+
+export interface AudioEffectsSettings {
+  enabled: boolean;
+  eq: {
+    lowGain: number; // dB, low shelf
+    midGain: number; // dB, peaking band
+    midFrequency: number; // Hz
+    midQ: number;
+    highGain: number; // dB, high shelf
+  };
+  // Mid/side processing: "isolate" keeps the center (voice), "remove" cancels it (karaoke)
+  center: { mode: CenterChannelMode; amount: number };
+  compressor: { enabled: boolean; threshold: number; ratio: number };
+  normalize: boolean; // Level the media to a common loudness
+}
+
+export type AudioEffectsPresetSettings = Omit<AudioEffectsSettings, "enabled">;
+
+export interface AudioEffectsPreset {
+  id: string;
+  name: string;
+  settings: AudioEffectsPresetSettings;
+}
+
+export const CENTER_CHANNEL_MODES: CenterChannelMode[] = ["off", "isolate", "remove"];
+
+export const EQ_GAIN_RANGE = 12;
+const LOW_SHELF_FREQUENCY = 250;
+const HIGH_SHELF_FREQUENCY = 4000;
+const COMPRESSOR_ATTACK = 0.01;
+const COMPRESSOR_RELEASE = 0.25;
+// Normalization aims for this gated RMS level, within a limited correction
+const NORMALIZE_TARGET_DB = -20;
+const MAX_NORMALIZE_GAIN_DB = 12;
+
+export const DEFAULT_AUDIO_EFFECTS: AudioEffectsSettings = {
+  enabled: false,
+  eq: { lowGain: 0, midGain: 0, midFrequency: 1000, midQ: 1, highGain: 0 },
+  center: { mode: "off", amount: 1 },
+  compressor: { enabled: false, threshold: -24, ratio: 4 },
+  normalize: false,
+};
+
+// Shipped presets; their names are translated under audioEffects.presets
+export const BUILT_IN_EFFECT_PRESETS: Omit<AudioEffectsPreset, "name">[] = [
+  {
+    id: "speechClarity",
+    settings: {
+      eq: { lowGain: -6, midGain: 4, midFrequency: 2500, midQ: 1, highGain: 2 },
+      center: { mode: "off", amount: 1 },
+      compressor: { enabled: true, threshold: -30, ratio: 3 },
+      normalize: true,
+    },
+  },
+  {
+    id: "vocalFocus",
+    settings: {
+      eq: { lowGain: -4, midGain: 3, midFrequency: 1500, midQ: 0.8, highGain: 0 },
+      center: { mode: "isolate", amount: 0.8 },
+      compressor: { enabled: true, threshold: -24, ratio: 3 },
+      normalize: true,
+    },
+  },
+  {
+    id: "karaoke",
+    settings: {
+      eq: { lowGain: 0, midGain: 0, midFrequency: 1000, midQ: 1, highGain: 0 },
+      center: { mode: "remove", amount: 1 },
+      compressor: { enabled: false, threshold: -24, ratio: 4 },
+      normalize: true,
+    },
+  },
+  {
+    id: "quietParts",
+    settings: {
+      eq: { lowGain: 0, midGain: 0, midFrequency: 1000, midQ: 1, highGain: 0 },
+      center: { mode: "off", amount: 1 },
+      compressor: { enabled: true, threshold: -40, ratio: 8 },
+      normalize: true,
+    },
+  },
+];
+
+interface EffectNodes {
+  input: Tone.Gain;
+  lowShelf: Tone.Filter;
+  peaking: Tone.Filter;
+  highShelf: Tone.Filter;
+  split: Tone.MidSideSplit;
+  midGain: Tone.Gain;
+  sideGain: Tone.Gain;
+  merge: Tone.MidSideMerge;
+  compressor: Tone.Compressor;
+  normalizer: Tone.Gain;
+}
+
+/**
+ * Processing for the source media: EQ, center channel isolation or removal,
+ * compression and loudness normalization, in that order. The media element and
+ * the loop engine both feed `getInput()`. Shadow recordings play through their
+ * own context in useShadowingPlayer and are left unprocessed.
+ */
+export class AudioEffectsChain {
+  private nodes: EffectNodes | null = null;
+  private settings: AudioEffectsSettings = DEFAULT_AUDIO_EFFECTS;
+  private loudness: number | null = null;
+
+  private ensureNodes(): EffectNodes {
+    if (this.nodes) return this.nodes;
+
+    const nodes: EffectNodes = {
+      input: new Tone.Gain(1),
+      lowShelf: new Tone.Filter({ type: "lowshelf", frequency: LOW_SHELF_FREQUENCY }),
+      peaking: new Tone.Filter({ type: "peaking" }),
+      highShelf: new Tone.Filter({ type: "highshelf", frequency: HIGH_SHELF_FREQUENCY }),
+      split: new Tone.MidSideSplit(),
+      midGain: new Tone.Gain(1),
+      sideGain: new Tone.Gain(1),
+      merge: new Tone.MidSideMerge(),
+      compressor: new Tone.Compressor({ attack: COMPRESSOR_ATTACK, release: COMPRESSOR_RELEASE }),
+      normalizer: new Tone.Gain(1).toDestination(),
+    };
+    // Fixed links; the stages between them are wired in updateRouting
+    nodes.lowShelf.chain(nodes.peaking, nodes.highShelf);
+    nodes.split.mid.chain(nodes.midGain, nodes.merge.mid);
+    nodes.split.side.chain(nodes.sideGain, nodes.merge.side);
+
+    this.nodes = nodes;
+    this.applySettings();
+    return nodes;
+  }
+
+  /**
+   * Node media sources connect to. Call after Tone.start().
+   */
+  getInput(): Tone.Gain {
+    return this.ensureNodes().input;
+  }
+
+  setSettings(settings: AudioEffectsSettings): void {
+    this.settings = settings;
+    this.applySettings();
+  }
+
+  // Gated RMS level of the current media in dBFS, or null when unknown
+  setLoudness(loudness: number | null): void {
+    this.loudness = loudness;
+    this.applySettings();
+  }
+
+  private applySettings() {
+    const nodes = this.nodes;
+    if (!nodes) return;
+    const { eq, center, compressor, normalize } = this.settings;
+
+    nodes.lowShelf.gain.value = eq.lowGain;
+    nodes.peaking.frequency.value = eq.midFrequency;
+    nodes.peaking.Q.value = eq.midQ;
+    nodes.peaking.gain.value = eq.midGain;
+    nodes.highShelf.gain.value = eq.highGain;
+
+    nodes.midGain.gain.value = center.mode === "remove" ? 1 - center.amount : 1;
+    nodes.sideGain.gain.value = center.mode === "isolate" ? 1 - center.amount : 1;
+
+    nodes.compressor.threshold.value = compressor.threshold;
+    nodes.compressor.ratio.value = compressor.ratio;
+
+    const correction =
+      normalize && this.loudness !== null
+        ? Math.max(
+            -MAX_NORMALIZE_GAIN_DB,
+            Math.min(MAX_NORMALIZE_GAIN_DB, NORMALIZE_TARGET_DB - this.loudness)
+          )
+        : 0;
+    nodes.normalizer.gain.value = Tone.dbToGain(correction);
+
+    this.updateRouting(nodes);
+  }
+
+  // Stages that are off are left out of the graph rather than set to neutral
+  private updateRouting(nodes: EffectNodes) {
+    const { enabled, center, compressor } = this.settings;
+    nodes.input.disconnect();
+    nodes.highShelf.disconnect();
+    nodes.merge.disconnect();
+    nodes.compressor.disconnect();
+
+    if (!enabled) {
+      nodes.input.connect(nodes.normalizer);
+      nodes.normalizer.gain.value = 1;
+      return;
+    }
+
+    nodes.input.connect(nodes.lowShelf);
+    let tail: Tone.ToneAudioNode = nodes.highShelf;
+    if (center.mode !== "off") {
+      tail.connect(nodes.split);
+      tail = nodes.merge;
+    }
+    if (compressor.enabled) {
+      tail.connect(nodes.compressor);
+      tail = nodes.compressor;
+    }
+    tail.connect(nodes.normalizer);
+  }
+}
+
+export const mediaEffects = new AudioEffectsChain();
@@ -1,111 +1,421 @@
 import * as Tone from "tone";
+import { MAX_LOOP_CROSSFADE } from "../stores/playerStore";
+import type { LoopPassPlan, LoopShaping } from "../stores/playerStore";
+import { mediaEffects } from "./audioEffects";
 
+// Decoding keeps the whole file in memory as PCM, so larger files stay on the media element
+const LOOP_ENGINE_FILE_LIMIT = 20 * 1024 * 1024;
+// How often the scheduler wakes up and how far ahead it schedules the next loop pass
+const SCHEDULER_INTERVAL_MS = 25;
+// Leaves room to start a crossfade before the end of the running pass
+const SCHEDULE_AHEAD_SECONDS = 0.2 + MAX_LOOP_CROSSFADE;
+// Small offset so the first pass is never scheduled in the past
+const START_OFFSET_SECONDS = 0.03;
+const MIN_LOOP_LENGTH = 0.01;
+
+// Equal-power gain curves keep the summed loudness steady through a crossfade
+const CURVE_POINTS = 32;
+const FADE_IN_CURVE = Array.from({ length: CURVE_POINTS }, (_, index) =>
+  Math.sin((index / (CURVE_POINTS - 1)) * (Math.PI / 2))
+);
+const FADE_OUT_CURVE = FADE_IN_CURVE.slice().reverse();
+
+export const canUseLoopEngine = (file: { type: string; size: number }) =>
+  file.type.includes("audio") && file.size <= LOOP_ENGINE_FILE_LIMIT;
+
+interface ScheduledPass {
+  source: Tone.ToneBufferSource;
+  gain: Tone.Gain; // Per-pass fader for the seam crossfade
+  startAt: number; // AudioContext time the pass starts sounding
+  from: number; // Media time at startAt, including pre-roll
+  to: number; // Media time the pass stops at, including post-roll
+  rate: number;
+  fadeIn: number; // Seconds the pass fades in over
+  regionStart: number | null; // Loop start this pass belongs to (null for linear playback)
+  regionEnd: number | null; // Loop end this pass belongs to
+  handled: boolean; // Whether the follow-up pass has been decided
+  stopAfter: boolean; // Whether playback stops once this pass ends
+}
+
+export interface AudioProcessorCallbacks {
+  // Decides the next pass ahead of the seam; the plan is committed once the seam is heard
+  planLoopPass: () => LoopPassPlan;
+  onTimeUpdate: (time: number) => void;
+  onEnded: () => void;
+  onStopped: () => void;
+  // Called when a gap ends in a count-in; `resumeAt` is the AudioContext time playback resumes
+  onCountIn: (resumeAt: number, countIn: number) => void;
+  // Crossfade and padding for the next pass, read when it is scheduled
+  getLoopShaping: () => LoopShaping;
+}
+
+/**
+ * Web Audio playback engine for decoded local files.
+ * Each loop pass is its own buffer source, scheduled back to back on the
+ * AudioContext clock so loop boundaries land on the exact sample.
+ */
 export class AudioProcessor {
-  private player: Tone.Player | null = null;
+  private callbacks: AudioProcessorCallbacks;
+  private buffer: Tone.ToneAudioBuffer | null = null;
+  private input: Tone.Gain | null = null;
+  private pitchShift: Tone.PitchShift | null = null;
+  private output: Tone.Gain | null = null;
+  private passes: ScheduledPass[] = [];
   private loopStart: number | null = null;
   private loopEnd: number | null = null;
-  private timeUpdateCallback: ((time: number) => void) | null = null;
+  private playbackRate = 1;
+  private transpose = 0;
+  private volume = 1;
   private intervalId: number | null = null;
+  private loadId = 0;
+  private playId = 0;
+  // Bookkeeping of a pass that has been decided but not heard to end yet
+  private pendingCommit: { at: number; commit: () => void } | null = null;
 
-  private isInitialized = false;
-
-  constructor() {
-    // We'll initialize Tone.js when the first audio operation is performed
-    // This ensures it happens in response to a user interaction
+  constructor(callbacks: AudioProcessorCallbacks) {
+    this.callbacks = callbacks;
   }
 
   private async ensureInitialized() {
-    if (!this.isInitialized) {
-      try {
-        // This must be called in response to a user interaction
-        await Tone.start();
-        console.log("Tone.js is ready");
-        this.isInitialized = true;
-      } catch (error) {
-        console.error("Failed to initialize Tone.js:", error);
-        throw error;
-      }
+    // This must be called in response to a user interaction
+    await Tone.start();
+    if (this.output) return;
+
+    this.output = new Tone.Gain(this.volume).connect(mediaEffects.getInput());
+    this.pitchShift = new Tone.PitchShift({ pitch: 0 }).connect(this.output);
+    this.input = new Tone.Gain(1);
+    this.updateRouting();
+  }
+
+  // Compensate the pitch drop/raise caused by resampling, like the media element does,
+  // and add the requested transpose on top
+  private updateRouting() {
+    if (!this.input || !this.pitchShift || !this.output) return;
+
+    const semitones = this.transpose - 12 * Math.log2(this.playbackRate);
+    this.input.disconnect();
+    if (Math.abs(semitones) < 0.01) {
+      this.input.connect(this.output);
+    } else {
+      this.pitchShift.pitch = semitones;
+      this.input.connect(this.pitchShift);
     }
   }
 
-  async loadFile(file: File): Promise<void> {
-    // Ensure Tone.js is initialized before loading audio
-    await this.ensureInitialized();
+  /**
+   * Decode a file into memory. Resolves false when a newer load superseded this one.
+   */
+  async loadFile(file: Blob): Promise<boolean> {
+    const id = ++this.loadId;
+    const arrayBuffer = await file.arrayBuffer();
+    const decoded = await Tone.getContext().decodeAudioData(arrayBuffer);
+    if (id !== this.loadId) return false;
 
-    const url = URL.createObjectURL(file);
+    this.stop();
+    this.buffer?.dispose();
+    this.buffer = new Tone.ToneAudioBuffer(decoded);
+    return true;
+  }
 
-    if (this.player) {
-      this.player.dispose();
-    }
+  unload(): void {
+    this.loadId++;
+    this.stop();
+    this.buffer?.dispose();
+    this.buffer = null;
+  }
 
-    this.player = new Tone.Player({
-      url,
-      loop: false,
-      onload: () => {
-        URL.revokeObjectURL(url);
-      },
-    }).toDestination();
+  get isPlaying(): boolean {
+    return this.passes.length > 0;
+  }
+
+  get duration(): number {
+    return this.buffer?.duration ?? 0;
+  }
 
-    await this.player.load("");
-    this.startTimeUpdate();
+  getAudioBuffer(): AudioBuffer | null {
+    return this.buffer?.get() ?? null;
   }
 
   setLoopPoints(startTime: number | null, endTime: number | null): void {
-    this.loopStart = startTime;
-    this.loopEnd = endTime;
-
-    if (this.player && this.loopStart !== null && this.loopEnd !== null) {
-      this.player.loop = true;
-      this.player.loopStart = this.loopStart;
-      this.player.loopEnd = this.loopEnd;
-    } else if (this.player) {
-      this.player.loop = false;
+    const hasRegion =
+      startTime !== null && endTime !== null && endTime - startTime >= MIN_LOOP_LENGTH;
+    this.loopStart = hasRegion ? startTime : null;
+    this.loopEnd = hasRegion ? endTime : null;
+    if (!this.isPlaying) return;
+
+    // Ignore updates that only confirm a pass we already scheduled (e.g. bookmark auto-advance)
+    const last = this.passes[this.passes.length - 1];
+    if (
+      this.loopStart !== null &&
+      last.regionStart !== null &&
+      last.regionEnd !== null &&
+      Math.abs(last.regionStart - this.loopStart) < 1e-6 &&
+      Math.abs(last.regionEnd - this.getRegionEnd()) < 1e-6
+    ) {
+      return;
+    }
+    this.seek(this.getCurrentTime());
+  }
+
+  setPlaybackRate(rate: number): void {
+    if (rate <= 0 || rate === this.playbackRate) return;
+    const position = this.getCurrentTime();
+    this.playbackRate = rate;
+    this.updateRouting();
+    if (!this.isPlaying) return;
+
+    // A rate change decided at a loop boundary (e.g. speed trainer) only affects
+    // the queued pass, so keep the running pass and the seam intact
+    const last = this.passes[this.passes.length - 1];
+    if (this.passes.length > 1 && last.startAt > Tone.getContext().currentTime) {
+      this.passes.pop();
+      this.disposePass(last);
+      this.schedulePass(last.startAt, last.from, last.to, last.regionStart, last.regionEnd, last.fadeIn);
+      this.passes[this.passes.length - 1].handled = last.handled;
+      return;
+    }
+    this.seek(position);
+  }
+
+  setTranspose(semitones: number): void {
+    if (semitones === this.transpose) return;
+    this.transpose = semitones;
+    this.updateRouting();
+  }
+
+  setVolume(volume: number): void {
+    this.volume = volume;
+    if (this.output) {
+      this.output.gain.value = volume;
     }
   }
 
-  async play(): Promise<void> {
-    if (!this.player) return;
+  async play(position: number): Promise<void> {
+    const id = ++this.playId;
     await this.ensureInitialized();
-    this.player.start();
+    // A stop or another play may have happened while the context was resuming
+    if (id !== this.playId || !this.buffer) return;
+
+    this.stopSources();
+    const startAt = Tone.getContext().currentTime + START_OFFSET_SECONDS;
+    const end = this.getRegionEnd();
+    if (this.loopStart !== null && end > this.loopStart) {
+      const bounds = this.getPassBounds(this.loopStart, this.callbacks.getLoopShaping());
+      const from = position >= bounds.from && position < bounds.to ? position : bounds.from;
+      this.schedulePass(startAt, from, bounds.to, this.loopStart, end, 0);
+    } else {
+      this.schedulePass(startAt, Math.min(position, this.buffer.duration), this.buffer.duration, null, null, 0);
+    }
+    this.startScheduler();
   }
 
-  pause(): void {
-    if (!this.player) return;
-    this.player.stop();
+  seek(position: number): void {
+    if (!this.isPlaying) return;
+    this.play(position).catch((error) => {
+      console.error("Failed to seek loop engine:", error);
+    });
   }
 
-  setPlaybackRate(rate: number): void {
-    if (!this.player) return;
-    this.player.playbackRate = rate;
+  /**
+   * Stop playback and return the media position it stopped at.
+   */
+  stop(): number {
+    const position = this.getCurrentTime();
+    this.playId++;
+    this.stopSources();
+    if (this.intervalId !== null) {
+      window.clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    return position;
   }
 
   getCurrentTime(): number {
-    return this.player ? this.player.now() : 0;
+    if (this.passes.length === 0) return 0;
+
+    const now = Tone.getContext().currentTime;
+    for (let index = this.passes.length - 1; index >= 0; index--) {
+      const pass = this.passes[index];
+      if (now >= pass.startAt) {
+        return Math.min(pass.from + (now - pass.startAt) * pass.rate, pass.to);
+      }
+    }
+    return this.passes[0].from;
   }
 
-  onTimeUpdate(callback: (time: number) => void): void {
-    this.timeUpdateCallback = callback;
+  private getRegionEnd(): number {
+    const duration = this.buffer?.duration ?? 0;
+    return this.loopEnd === null ? duration : Math.min(this.loopEnd, duration);
   }
 
-  private startTimeUpdate(): void {
-    if (this.intervalId) {
-      window.clearInterval(this.intervalId);
+  // Media range a pass over the loop region plays, padded with pre/post-roll
+  private getPassBounds(regionStart: number, shaping: LoopShaping) {
+    const duration = this.buffer?.duration ?? 0;
+    return {
+      from: Math.max(0, regionStart - shaping.preRoll),
+      to: Math.min(duration, this.getRegionEnd() + shaping.postRoll),
+    };
+  }
+
+  private getPassEnd(pass: ScheduledPass): number {
+    return pass.startAt + (pass.to - pass.from) / pass.rate;
+  }
+
+  private schedulePass(
+    startAt: number,
+    from: number,
+    to: number,
+    regionStart: number | null,
+    regionEnd: number | null,
+    fadeIn: number
+  ) {
+    if (!this.buffer || !this.input || to <= from) return;
+
+    const gain = new Tone.Gain(1).connect(this.input);
+    const source = new Tone.ToneBufferSource({
+      url: this.buffer,
+      playbackRate: this.playbackRate,
+    }).connect(gain);
+    source.start(startAt, from, (to - from) / this.playbackRate);
+    if (fadeIn > 0) {
+      gain.gain.setValueAtTime(0, startAt);
+      gain.gain.setValueCurveAtTime(FADE_IN_CURVE, startAt, fadeIn);
     }
 
-    this.intervalId = window.setInterval(() => {
-      if (this.timeUpdateCallback) {
-        this.timeUpdateCallback(this.getCurrentTime());
+    const pass: ScheduledPass = {
+      source,
+      gain,
+      startAt,
+      from,
+      to,
+      rate: this.playbackRate,
+      fadeIn,
+      regionStart,
+      regionEnd,
+      handled: false,
+      stopAfter: false,
+    };
+    source.onended = () => {
+      // Keep the most recent pass around so the position stays known during loop gaps
+      if (this.passes.length > 1 && this.passes[0] === pass) {
+        this.passes.shift();
       }
-    }, 16.67); // ~60fps
+      source.dispose();
+      gain.dispose();
+    };
+    this.passes.push(pass);
   }
 
-  dispose(): void {
-    if (this.intervalId) {
-      window.clearInterval(this.intervalId);
+  private fadeOutPass(pass: ScheduledPass, duration: number) {
+    const end = this.getPassEnd(pass);
+    const startAt = Math.max(Tone.getContext().currentTime, end - duration);
+    if (end - startAt <= 0) return;
+    pass.gain.gain.setValueCurveAtTime(FADE_OUT_CURVE, startAt, end - startAt);
+  }
+
+  private disposePass(pass: ScheduledPass) {
+    pass.source.onended = () => {};
+    pass.source.dispose();
+    pass.gain.dispose();
+  }
+
+  private stopSources() {
+    this.passes.forEach((pass) => this.disposePass(pass));
+    this.passes = [];
+    // A pass cut short never finished, so it is not counted
+    this.pendingCommit = null;
+  }
+
+  private startScheduler() {
+    if (this.intervalId !== null) return;
+    this.intervalId = window.setInterval(() => this.tick(), SCHEDULER_INTERVAL_MS);
+  }
+
+  private tick() {
+    const last = this.passes[this.passes.length - 1];
+    if (!last || !this.buffer) return;
+
+    const now = Tone.getContext().currentTime;
+    const lastEnd = this.getPassEnd(last);
+
+    if (this.pendingCommit && now >= this.pendingCommit.at) {
+      const { commit } = this.pendingCommit;
+      this.pendingCommit = null;
+      // The new pass has been playing at its rate since the seam; match the pitch compensation
+      this.updateRouting();
+      commit();
+    }
+
+    if (!last.handled && lastEnd - now <= SCHEDULE_AHEAD_SECONDS) {
+      last.handled = true;
+      if (last.regionStart !== null) {
+        const { result, commit } = this.callbacks.planLoopPass();
+        this.pendingCommit = { at: lastEnd, commit };
+        if (result.action === "release") {
+          // Looping finished: carry on linearly from the loop end
+          this.loopStart = null;
+          this.loopEnd = null;
+          this.schedulePass(lastEnd, last.to, this.buffer.duration, null, null, 0);
+        } else if (result.action === "stop") {
+          last.stopAfter = true;
+        } else {
+          this.loopStart = result.start;
+          this.loopEnd = result.end;
+          // The store only takes the new rate at the seam, which then confirms this one
+          this.playbackRate = result.rate;
+          const shaping = this.callbacks.getLoopShaping();
+          const bounds = this.getPassBounds(result.start, shaping);
+          // Fades never take more than half of either pass
+          const fade = Math.min(
+            shaping.crossfade,
+            (last.to - last.from) / last.rate / 2,
+            (bounds.to - bounds.from) / this.playbackRate / 2
+          );
+          // Back-to-back passes overlap by the fade; across a gap they just fade out and in
+          const overlap = result.delay > 0 ? 0 : fade;
+          if (fade > 0) {
+            this.fadeOutPass(last, fade);
+          }
+          this.schedulePass(
+            Math.max(now, lastEnd + result.delay - overlap),
+            bounds.from,
+            bounds.to,
+            result.start,
+            this.getRegionEnd(),
+            fade
+          );
+          if (result.countIn > 0) {
+            this.callbacks.onCountIn(lastEnd + result.delay, result.countIn);
+          }
+        }
+      }
     }
-    if (this.player) {
-      this.player.dispose();
-      this.player = null;
+
+    const current = this.passes[this.passes.length - 1];
+    if (
+      current.handled &&
+      now >= this.getPassEnd(current) &&
+      (current.regionStart === null || current.stopAfter)
+    ) {
+      this.stop();
+      if (current.stopAfter) {
+        this.callbacks.onStopped();
+      } else {
+        this.callbacks.onEnded();
+      }
+      return;
     }
+
+    this.callbacks.onTimeUpdate(this.getCurrentTime());
+  }
+
+  dispose(): void {
+    this.unload();
+    this.input?.dispose();
+    this.pitchShift?.dispose();
+    this.output?.dispose();
+    this.input = null;
+    this.pitchShift = null;
+    this.output = null;
   }
 }
@@ -3,13 +3,39 @@
  * Supports both MediaRecorder API and Web Audio API fallback for iOS Safari
  */
 
+import { encodeTake } from './takeEncoder';
+import { TAKE_BITRATE } from './takeEncoding';
+import {
+    createVoiceActivityDetector,
+    VoiceActivityDetector,
+    VoiceActivityEvent,
+    VoiceActivitySettings,
+} from './voiceActivity';
+
+// MediaRecorder formats takes are recorded in, preferred first. Safari records
+// MP4 (AAC) natively, which is still far smaller than encoding PCM ourselves.
+const RECORDING_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/mp4'];
+
 export interface AudioRecorderConfig {
     sampleRate?: number;
     channelCount?: number;
+    // Input device and browser processing, applied when the stream is opened
+    deviceId?: string;
+    echoCancellation?: boolean;
+    noiseSuppression?: boolean;
+    autoGainControl?: boolean;
+    inputGain?: number; // Applied before the input is recorded, metered or monitored
+    monitor?: boolean; // Play the input back through the output device
     onDataAvailable?: (blob: Blob) => void;
     onStop?: (blob: Blob) => void;
     onError?: (error: Error) => void;
     onPeakUpdate?: (peak: number) => void;
+    onLevel?: (level: number) => void; // Peak input level (0–1) while the input is open
+    voiceActivity?: VoiceActivitySettings | null; // Detect speech on the input; off when null
+    onVoiceActivity?: (event: VoiceActivityEvent) => void;
+    // Seconds of input kept while the input is open and put at the head of the
+    // take, so a take started by the voice detector keeps the first syllable
+    preRoll?: number;
 }
 
 export class UniversalAudioRecorder {
@@ -19,11 +45,16 @@ export class UniversalAudioRecorder {
     private scriptProcessor: ScriptProcessorNode | null = null;
     private source: MediaStreamAudioSourceNode | null = null;
     private analyser: AnalyserNode | null = null;
+    private gainNode: GainNode | null = null;
+    private monitorNode: GainNode | null = null;
+    private recordDestination: MediaStreamAudioDestinationNode | null = null;
     private recordedChunks: Float32Array[] = [];
     private config: AudioRecorderConfig;
     private isRecording = false;
     private useWebAudioFallback = false;
     private peakUpdateInterval: number | null = null;
+    private voiceDetector: VoiceActivityDetector | null = null;
+    private preRollDuration = 0;
 
     constructor(stream: MediaStream, config: AudioRecorderConfig = {}) {
         this.stream = stream;
@@ -33,8 +64,129 @@ export class UniversalAudioRecorder {
             ...config,
         };
 
-        // Detect if we need to use Web Audio API fallback
-        this.useWebAudioFallback = typeof MediaRecorder === 'undefined';
+        // Without MediaRecorder, or when it records none of those formats, PCM is captured
+        // through Web Audio and encoded to Opus by the take encoder instead.
+        // Pre-roll is kept as PCM, so those takes are captured the same way.
+        this.useWebAudioFallback =
+            typeof MediaRecorder === 'undefined' ||
+            !RECORDING_MIME_TYPES.some((type) => MediaRecorder.isTypeSupported(type)) ||
+            (this.config.preRoll ?? 0) > 0;
+        this.setVoiceActivity(this.config.voiceActivity ?? null);
+    }
+
+    /**
+     * getUserMedia constraints for the configured device and processing.
+     * The device is only preferred, so a remembered device that is gone
+     * falls back to the default one.
+     */
+    static getMediaConstraints(config: AudioRecorderConfig = {}): MediaStreamConstraints {
+        return {
+            audio: {
+                ...(config.deviceId ? { deviceId: { ideal: config.deviceId } } : {}),
+                echoCancellation: config.echoCancellation ?? true,
+                noiseSuppression: config.noiseSuppression ?? true,
+                autoGainControl: config.autoGainControl ?? true,
+            },
+        };
+    }
+
+    static openStream(config: AudioRecorderConfig = {}): Promise<MediaStream> {
+        return navigator.mediaDevices.getUserMedia(UniversalAudioRecorder.getMediaConstraints(config));
+    }
+
+    /**
+     * Audio inputs; labels are empty until microphone access has been granted.
+     */
+    static async listInputDevices(): Promise<MediaDeviceInfo[]> {
+        const devices = await navigator.mediaDevices.enumerateDevices();
+        return devices.filter((device) => device.kind === 'audioinput');
+    }
+
+    /**
+     * Builds the input chain (gain, metering and monitoring) without recording,
+     * so levels can be checked before a take. start() opens it as well.
+     */
+    async openInput(): Promise<void> {
+        if (this.audioContext) return;
+        if (!this.stream) {
+            throw new Error('No audio stream available');
+        }
+
+        const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+        this.audioContext = this.useWebAudioFallback
+            ? new AudioContextClass({ sampleRate: this.config.sampleRate })
+            : new AudioContextClass();
+        if (this.audioContext.state === 'suspended') {
+            await this.audioContext.resume();
+        }
+
+        this.source = this.audioContext.createMediaStreamSource(this.stream);
+        this.gainNode = this.audioContext.createGain();
+        this.gainNode.gain.value = this.config.inputGain ?? 1;
+        this.analyser = this.audioContext.createAnalyser();
+        // Covers most of each 50ms metering interval, so short sounds are not missed
+        this.analyser.fftSize = 2048;
+        this.monitorNode = this.audioContext.createGain();
+        this.monitorNode.gain.value = this.config.monitor ? 1 : 0;
+
+        this.source.connect(this.gainNode);
+        this.gainNode.connect(this.analyser);
+        this.gainNode.connect(this.monitorNode);
+        this.monitorNode.connect(this.audioContext.destination);
+
+        if ((this.config.preRoll ?? 0) > 0) {
+            this.startPcmCapture();
+        }
+        this.startPeakMonitoring();
+    }
+
+    /**
+     * Replaces the take callbacks of a recorder opened ahead of its take.
+     */
+    setTakeCallbacks(callbacks: Pick<AudioRecorderConfig, 'onStop' | 'onError' | 'onPeakUpdate'>): void {
+        this.config = { ...this.config, ...callbacks };
+    }
+
+    /**
+     * Seconds of pre-roll at the head of the take in progress.
+     */
+    getPreRollDuration(): number {
+        return this.preRollDuration;
+    }
+
+    setInputGain(gain: number): void {
+        this.config.inputGain = gain;
+        if (this.gainNode && this.audioContext) {
+            this.gainNode.gain.setTargetAtTime(gain, this.audioContext.currentTime, 0.02);
+        }
+    }
+
+    /**
+     * Starts or stops voice activity detection on the metered input. A take
+     * in progress is not affected; the detector starts out silent.
+     */
+    setVoiceActivity(settings: VoiceActivitySettings | null): void {
+        this.config.voiceActivity = settings;
+        this.voiceDetector = settings ? createVoiceActivityDetector(settings) : null;
+    }
+
+    setMonitoring(enabled: boolean): void {
+        this.config.monitor = enabled;
+        if (this.monitorNode && this.audioContext) {
+            this.monitorNode.gain.setTargetAtTime(enabled ? 1 : 0, this.audioContext.currentTime, 0.02);
+        }
+    }
+
+    /**
+     * Releases the input chain; the stream itself stays open.
+     */
+    close(): void {
+        this.isRecording = false;
+        if (this.peakUpdateInterval !== null) {
+            clearInterval(this.peakUpdateInterval);
+            this.peakUpdateInterval = null;
+        }
+        this.cleanup();
     }
 
     async start(): Promise<void> {
@@ -57,31 +209,22 @@ export class UniversalAudioRecorder {
         }
 
         try {
-            // Create audio context for peak analysis
-            const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
-            this.audioContext = new AudioContextClass();
-            this.source = this.audioContext.createMediaStreamSource(this.stream);
-            this.analyser = this.audioContext.createAnalyser();
-            this.analyser.fftSize = 256;
-            this.source.connect(this.analyser);
+            await this.openInput();
 
-            // Start peak monitoring
-            this.startPeakMonitoring();
+            // Record after the input gain
+            this.recordDestination = this.audioContext!.createMediaStreamDestination();
+            this.gainNode!.connect(this.recordDestination);
 
             // Create MediaRecorder
             const chunks: Blob[] = [];
 
-            // Try different MIME types for better compatibility
-            let mimeType = 'audio/webm';
-            if (!MediaRecorder.isTypeSupported('audio/webm')) {
-                if (MediaRecorder.isTypeSupported('audio/mp4')) {
-                    mimeType = 'audio/mp4';
-                } else if (MediaRecorder.isTypeSupported('audio/ogg')) {
-                    mimeType = 'audio/ogg';
-                }
-            }
+            // Only reached when one of the recording formats is supported
+            const mimeType = RECORDING_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
 
-            this.mediaRecorder = new MediaRecorder(this.stream, { mimeType });
+            this.mediaRecorder = new MediaRecorder(this.recordDestination.stream, {
+                ...(mimeType ? { mimeType } : {}),
+                audioBitsPerSecond: TAKE_BITRATE,
+            });
             this.isRecording = true;
 
             this.mediaRecorder.ondataavailable = (e) => {
@@ -92,7 +235,7 @@ export class UniversalAudioRecorder {
             };
 
             this.mediaRecorder.onstop = () => {
-                const blob = new Blob(chunks, { type: mimeType });
+                const blob = new Blob(chunks, { type: this.mediaRecorder?.mimeType || mimeType || chunks[0]?.type });
                 this.config.onStop?.(blob);
                 this.cleanup();
             };
@@ -118,50 +261,16 @@ export class UniversalAudioRecorder {
         }
 
         try {
-            // Create audio context
-            const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
-            this.audioContext = new AudioContextClass({
-                sampleRate: this.config.sampleRate,
-            });
-
-            // Create source from stream
-            this.source = this.audioContext.createMediaStreamSource(this.stream);
-
-            // Create analyser for peak detection
-            this.analyser = this.audioContext.createAnalyser();
-            this.analyser.fftSize = 256;
-            this.source.connect(this.analyser);
-
-            // Create script processor for recording
-            const bufferSize = 4096;
-            this.scriptProcessor = this.audioContext.createScriptProcessor(
-                bufferSize,
-                this.config.channelCount!,
-                this.config.channelCount!
-            );
-
-            this.recordedChunks = [];
-
-            this.scriptProcessor.onaudioprocess = (e) => {
-                if (!this.isRecording) return;
-
-                // Get audio data from first channel
-                const inputData = e.inputBuffer.getChannelData(0);
-
-                // Store a copy of the data
-                const chunk = new Float32Array(inputData.length);
-                chunk.set(inputData);
-                this.recordedChunks.push(chunk);
-            };
+            await this.openInput();
 
-            // Connect the nodes
-            this.source.connect(this.scriptProcessor);
-            this.scriptProcessor.connect(this.audioContext.destination);
+            // With pre-roll the capture is already running and holds the latest input
+            if (!this.scriptProcessor) {
+                this.startPcmCapture();
+            }
+            const buffered = this.recordedChunks.reduce((total, chunk) => total + chunk.length, 0);
+            this.preRollDuration = buffered / this.audioContext!.sampleRate;
             this.isRecording = true;
 
-            // Start peak monitoring
-            this.startPeakMonitoring();
-
             console.log('✅ [AudioRecorder] Web Audio recording started');
         } catch (error) {
             this.isRecording = false;
@@ -171,13 +280,44 @@ export class UniversalAudioRecorder {
         }
     }
 
+    private startPcmCapture(): void {
+        const bufferSize = 4096;
+        this.scriptProcessor = this.audioContext!.createScriptProcessor(
+            bufferSize,
+            this.config.channelCount!,
+            this.config.channelCount!
+        );
+
+        this.recordedChunks = [];
+        const preRollSamples = (this.config.preRoll ?? 0) * this.audioContext!.sampleRate;
+
+        this.scriptProcessor.onaudioprocess = (e) => {
+            if (!this.isRecording && preRollSamples === 0) return;
+
+            // Store a copy of the first channel
+            const chunk = new Float32Array(e.inputBuffer.getChannelData(0));
+            this.recordedChunks.push(chunk);
+
+            // Before the take only the latest pre-roll is kept
+            if (!this.isRecording) {
+                let buffered = this.recordedChunks.reduce((total, item) => total + item.length, 0);
+                while (buffered - this.recordedChunks[0].length >= preRollSamples) {
+                    buffered -= this.recordedChunks.shift()!.length;
+                }
+            }
+        };
+
+        this.gainNode!.connect(this.scriptProcessor);
+        this.scriptProcessor.connect(this.audioContext!.destination);
+    }
+
     private startPeakMonitoring(): void {
         if (!this.analyser) return;
 
-        const dataArray = new Uint8Array(this.analyser.frequencyBinCount);
+        const dataArray = new Float32Array(this.analyser.fftSize);
 
         const updatePeak = () => {
-            if (!this.isRecording || !this.analyser) {
+            if (!this.analyser) {
                 if (this.peakUpdateInterval !== null) {
                     clearInterval(this.peakUpdateInterval);
                     this.peakUpdateInterval = null;
@@ -185,17 +325,29 @@ export class UniversalAudioRecorder {
                 return;
             }
 
-            this.analyser.getByteTimeDomainData(dataArray);
+            this.analyser.getFloatTimeDomainData(dataArray);
 
             // Match the saved waveform renderer, which uses average absolute amplitude.
             let sum = 0;
+            let peak = 0;
             for (let i = 0; i < dataArray.length; i++) {
-                const amplitude = (dataArray[i] - 128) / 128;
-                sum += Math.abs(amplitude);
+                const amplitude = Math.abs(dataArray[i]);
+                sum += amplitude;
+                peak = Math.max(peak, amplitude);
             }
-            const averageAmplitude = sum / dataArray.length;
 
-            this.config.onPeakUpdate?.(averageAmplitude);
+            if (this.isRecording) {
+                this.config.onPeakUpdate?.(sum / dataArray.length);
+            }
+            this.config.onLevel?.(Math.min(1, peak));
+
+            const voiceEvent = this.voiceDetector?.update(
+                20 * Math.log10(Math.max(peak, 1e-6)),
+                performance.now() / 1000
+            );
+            if (voiceEvent) {
+                this.config.onVoiceActivity?.(voiceEvent);
+            }
         };
 
         this.peakUpdateInterval = window.setInterval(updatePeak, 50);
@@ -229,68 +381,26 @@ export class UniversalAudioRecorder {
             this.scriptProcessor = null;
         }
 
-        // Convert recorded chunks to WAV blob
-        if (this.recordedChunks.length > 0) {
-            const blob = this.exportToWav(this.recordedChunks);
-            this.config.onStop?.(blob);
-        }
-
+        const chunks = this.recordedChunks;
+        const sampleRate = this.audioContext?.sampleRate || this.config.sampleRate || 48000;
         this.cleanup();
-    }
 
-    private exportToWav(chunks: Float32Array[]): Blob {
-        // Calculate total length
-        const totalLength = chunks.reduce((acc, chunk) => acc + chunk.length, 0);
+        if (chunks.length === 0) return;
 
-        // Merge all chunks
-        const merged = new Float32Array(totalLength);
+        // Merge all chunks and compress them in the encoder worker
+        const merged = new Float32Array(chunks.reduce((acc, chunk) => acc + chunk.length, 0));
         let offset = 0;
         for (const chunk of chunks) {
             merged.set(chunk, offset);
             offset += chunk.length;
         }
 
-        // Convert to WAV format
-        const sampleRate = this.audioContext?.sampleRate || this.config.sampleRate || 48000;
-        const wavBuffer = this.encodeWav(merged, sampleRate);
-
-        return new Blob([wavBuffer], { type: 'audio/wav' });
-    }
-
-    private encodeWav(samples: Float32Array, sampleRate: number): ArrayBuffer {
-        const buffer = new ArrayBuffer(44 + samples.length * 2);
-        const view = new DataView(buffer);
-
-        // Write WAV header
-        const writeString = (offset: number, string: string) => {
-            for (let i = 0; i < string.length; i++) {
-                view.setUint8(offset + i, string.charCodeAt(i));
-            }
-        };
-
-        writeString(0, 'RIFF');
-        view.setUint32(4, 36 + samples.length * 2, true);
-        writeString(8, 'WAVE');
-        writeString(12, 'fmt ');
-        view.setUint32(16, 16, true); // PCM chunk size
-        view.setUint16(20, 1, true); // PCM format
-        view.setUint16(22, 1, true); // Mono
-        view.setUint32(24, sampleRate, true);
-        view.setUint32(28, sampleRate * 2, true); // Byte rate
-        view.setUint16(32, 2, true); // Block align
-        view.setUint16(34, 16, true); // Bits per sample
-        writeString(36, 'data');
-        view.setUint32(40, samples.length * 2, true);
-
-        // Write audio data
-        let offset = 44;
-        for (let i = 0; i < samples.length; i++) {
-            const s = Math.max(-1, Math.min(1, samples[i]));
-            view.setInt16(offset, s < 0 ? s * 0x8000 : s * 0x7FFF, true);
-            offset += 2;
-        }
-
-        return buffer;
+        encodeTake(merged, sampleRate)
+            .then((blob) => this.config.onStop?.(blob))
+            .catch((error) => {
+                console.error('Failed to encode recording:', error);
+                this.config.onError?.(error as Error);
+            });
     }
 
     private cleanup(): void {
@@ -306,6 +416,21 @@ export class UniversalAudioRecorder {
             this.analyser = null;
         }
 
+        if (this.gainNode) {
+            this.gainNode.disconnect();
+            this.gainNode = null;
+        }
+
+        if (this.monitorNode) {
+            this.monitorNode.disconnect();
+            this.monitorNode = null;
+        }
+
+        if (this.recordDestination) {
+            this.recordDestination.disconnect();
+            this.recordDestination = null;
+        }
+
         if (this.scriptProcessor) {
             this.scriptProcessor.disconnect();
             this.scriptProcessor = null;
@@ -313,8 +438,8 @@ export class UniversalAudioRecorder {
 
         if (this.audioContext && this.audioContext.state !== 'closed') {
             this.audioContext.close();
-            this.audioContext = null;
         }
+        this.audioContext = null;
 
         this.recordedChunks = [];
     }
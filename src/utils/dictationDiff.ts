@@ -0,0 +1,148 @@
+import { detectLanguage } from "./sentenceBreaker";
+
+export type DictationTokenStatus = "correct" | "missing" | "extra" | "misspelled";
+
+export interface DictationToken {
+  status: DictationTokenStatus;
+  expected?: string; // As written in the transcript
+  actual?: string; // As typed
+}
+
+export interface DictationResult {
+  tokens: DictationToken[];
+  score: number; // 0–100
+  correct: number;
+  missing: number;
+  extra: number;
+  misspelled: number;
+  spaced: boolean; // Whether tokens are shown with spaces between them
+}
+
+interface WordToken {
+  text: string;
+  key: string; // Normalized for comparison
+}
+
+// Kana and CJK ideographs are scored per character since they are written without spaces
+const CJK_SPLIT = /([\u3040-\u30FF\u3400-\u4DBF\u4E00-\u9FFF\uF900-\uFAFF])/;
+const PUNCTUATION = /[\p{P}\p{S}]/gu;
+
+const normalizeWord = (word: string) =>
+  word.normalize("NFKC").toLowerCase().replace(PUNCTUATION, "");
+
+/**
+ * Split text into comparable words. Chinese and Japanese (as detected by the
+ * sentence breaker) are split per character, keeping runs of Latin letters
+ * or digits together; other languages are split on whitespace.
+ */
+export const tokenizeForDictation = (text: string, language = detectLanguage(text)): WordToken[] => {
+  const words = text.normalize("NFKC").split(/\s+/);
+  const pieces =
+    language === "ja" || language === "zh"
+      ? words.flatMap((word) => word.split(CJK_SPLIT))
+      : words;
+
+  return pieces
+    .map((piece) => ({ text: piece, key: normalizeWord(piece) }))
+    .filter((token) => token.key.length > 0);
+};
+
+// Optimal string alignment distance: Levenshtein plus adjacent transpositions
+const editDistance = (a: string, b: string): number => {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d: number[][] = Array.from({ length: rows }, (_, i) =>
+    Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+};
+
+// A typo rather than a different word: about one edit per three letters.
+// Single characters (including every CJK token) must match exactly.
+const isMisspelling = (expected: string, actual: string) => {
+  if (Math.min(expected.length, actual.length) < 2) return false;
+  const allowed = Math.max(1, Math.floor(Math.max(expected.length, actual.length) / 3));
+  return editDistance(expected, actual) <= allowed;
+};
+
+/**
+ * Word-level diff of a typed answer against the transcript text. Words are
+ * aligned by edit distance; a misspelled word costs half a mistake, a missing
+ * or extra word a whole one.
+ */
+export const scoreDictation = (expectedText: string, answerText: string): DictationResult => {
+  const language = detectLanguage(expectedText);
+  const spaced = language !== "ja" && language !== "zh";
+  const expected = tokenizeForDictation(expectedText, language);
+  const actual = tokenizeForDictation(answerText, language);
+  const n = expected.length;
+  const m = actual.length;
+
+  // Substituting an unrelated word costs as much as a deletion plus an insertion
+  const substitutionCost = (i: number, j: number) => {
+    if (expected[i].key === actual[j].key) return 0;
+    return isMisspelling(expected[i].key, actual[j].key) ? 1 : 2;
+  };
+
+  const cost: number[][] = Array.from({ length: n + 1 }, (_, i) =>
+    Array.from({ length: m + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i <= n; i++) {
+    for (let j = 1; j <= m; j++) {
+      cost[i][j] = Math.min(
+        cost[i - 1][j] + 1,
+        cost[i][j - 1] + 1,
+        cost[i - 1][j - 1] + substitutionCost(i - 1, j - 1)
+      );
+    }
+  }
+
+  const tokens: DictationToken[] = [];
+  let i = n;
+  let j = m;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0) {
+      const sub = substitutionCost(i - 1, j - 1);
+      if (sub < 2 && cost[i][j] === cost[i - 1][j - 1] + sub) {
+        tokens.push({
+          status: sub === 0 ? "correct" : "misspelled",
+          expected: expected[i - 1].text,
+          actual: actual[j - 1].text,
+        });
+        i--;
+        j--;
+        continue;
+      }
+    }
+    if (i > 0 && cost[i][j] === cost[i - 1][j] + 1) {
+      tokens.push({ status: "missing", expected: expected[i - 1].text });
+      i--;
+    } else {
+      tokens.push({ status: "extra", actual: actual[j - 1].text });
+      j--;
+    }
+  }
+  tokens.reverse();
+
+  const count = (status: DictationTokenStatus) =>
+    tokens.filter((token) => token.status === status).length;
+  const correct = count("correct");
+  const missing = count("missing");
+  const extra = count("extra");
+  const misspelled = count("misspelled");
+
+  const mistakes = missing + extra + misspelled * 0.5;
+  const score =
+    n === 0 ? (m === 0 ? 100 : 0) : Math.round(Math.max(0, 1 - mistakes / n) * 100);
+
+  return { tokens, score, correct, missing, extra, misspelled, spaced };
+};
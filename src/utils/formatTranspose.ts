@@ -0,0 +1,18 @@
+/**
+ * Split a transpose in semitones into whole semitones and cents
+ */
+export const splitTranspose = (semitones: number) => {
+  const whole = Math.round(semitones);
+  return { semitones: whole, cents: Math.round((semitones - whole) * 100) };
+};
+
+const signed = (value: number) => (value > 0 ? `+${value}` : `${value}`);
+
+/**
+ * Format a transpose as e.g. "0", "+2" or "-1 +25¢"
+ */
+export const formatTranspose = (semitones: number): string => {
+  const split = splitTranspose(semitones);
+  if (split.cents === 0) return signed(split.semitones);
+  return `${signed(split.semitones)} ${signed(split.cents)}¢`;
+};
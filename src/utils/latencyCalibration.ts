@@ -0,0 +1,181 @@
+import { UniversalAudioRecorder } from "./audioRecorder";
+
+type WindowWithWebkitAudioContext = Window & typeof globalThis & {
+  webkitAudioContext?: typeof AudioContext;
+};
+
+const CLICK_COUNT = 8;
+const CLICK_INTERVAL = 0.6; // Longer than the largest latency, so echoes never overlap the next click
+const CLICK_DURATION = 0.01;
+const MAX_LATENCY = 0.5;
+const MIN_CORRELATION = 0.3;
+const MAX_SPREAD = 0.002; // Clicks measured this far from the median are outliers
+
+export interface LatencyMeasurement {
+  latency: number; // Round trip from output to recorded input, in seconds
+  clicks: number; // Clicks heard consistently
+}
+
+/**
+ * Hann-windowed 500 Hz–4 kHz chirp; it has a much sharper correlation peak
+ * than a sine burst, which keeps the estimate within a sample or two.
+ */
+const createClick = (sampleRate: number) => {
+  const length = Math.round(CLICK_DURATION * sampleRate);
+  const click = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    const t = i / sampleRate;
+    const phase = 2 * Math.PI * (500 * t + ((4000 - 500) / (2 * CLICK_DURATION)) * t * t);
+    const window = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (length - 1));
+    click[i] = 0.8 * window * Math.sin(phase);
+  }
+  return click;
+};
+
+const findClickStarts = (reference: Float32Array, sampleRate: number) => {
+  const starts: number[] = [];
+  const minGap = Math.round(CLICK_INTERVAL * 0.5 * sampleRate);
+  for (let i = 0; i < reference.length; i++) {
+    if (Math.abs(reference[i]) > 0.001 && (starts.length === 0 || i - starts[starts.length - 1] > minGap)) {
+      starts.push(i);
+    }
+  }
+  return starts;
+};
+
+/**
+ * Delay in samples of each reference click in the recorded input, found by
+ * normalized cross-correlation; null for clicks that were not heard.
+ */
+export const findClickLags = (
+  reference: Float32Array,
+  recorded: Float32Array,
+  sampleRate: number
+): Array<number | null> => {
+  const clickLength = Math.round(CLICK_DURATION * sampleRate);
+  const maxLag = Math.round(MAX_LATENCY * sampleRate);
+
+  return findClickStarts(reference, sampleRate).map((start) => {
+    let referenceEnergy = 0;
+    for (let i = 0; i < clickLength; i++) {
+      referenceEnergy += reference[start + i] ** 2;
+    }
+
+    // Energy of the recorded window, slid along with the lag
+    let windowEnergy = 0;
+    for (let i = 0; i < clickLength; i++) {
+      windowEnergy += (recorded[start + i] ?? 0) ** 2;
+    }
+
+    let bestLag: number | null = null;
+    let bestCorrelation = MIN_CORRELATION;
+    for (let lag = 0; lag <= maxLag && start + lag + clickLength <= recorded.length; lag++) {
+      if (lag > 0) {
+        windowEnergy += recorded[start + lag + clickLength - 1] ** 2 - recorded[start + lag - 1] ** 2;
+      }
+      if (windowEnergy <= 1e-9) continue;
+
+      let sum = 0;
+      for (let i = 0; i < clickLength; i++) {
+        sum += reference[start + i] * recorded[start + lag + i];
+      }
+      // Speakers may flip polarity, so either sign counts
+      const correlation = Math.abs(sum) / Math.sqrt(referenceEnergy * windowEnergy);
+      if (correlation > bestCorrelation) {
+        bestCorrelation = correlation;
+        bestLag = lag;
+      }
+    }
+    return bestLag;
+  });
+};
+
+/**
+ * Combines per-click lags into one latency, or null when fewer than half of
+ * the clicks agree.
+ */
+export const summarizeClickLags = (lags: Array<number | null>, sampleRate: number): LatencyMeasurement | null => {
+  const heard = lags.filter((lag): lag is number => lag !== null).sort((a, b) => a - b);
+  if (heard.length === 0) return null;
+
+  const median = heard[Math.floor(heard.length / 2)];
+  const consistent = heard.filter((lag) => Math.abs(lag - median) <= MAX_SPREAD * sampleRate);
+  if (consistent.length < Math.ceil(lags.length / 2)) return null;
+
+  const mean = consistent.reduce((sum, lag) => sum + lag, 0) / consistent.length;
+  return { latency: mean / sampleRate, clicks: consistent.length };
+};
+
+/**
+ * Plays a series of clicks and records them back through the microphone.
+ * The clicks are captured alongside the input in one graph, so both sides
+ * share a clock and the offset between them is the output plus input
+ * latency. Browser processing is turned off, as echo cancellation would
+ * remove the clicks.
+ */
+export const measureRoundTripLatency = async (deviceId?: string): Promise<LatencyMeasurement | null> => {
+  const stream = await UniversalAudioRecorder.openStream({
+    deviceId,
+    echoCancellation: false,
+    noiseSuppression: false,
+    autoGainControl: false,
+  });
+  const AudioContextClass = window.AudioContext || (window as WindowWithWebkitAudioContext).webkitAudioContext;
+  if (!AudioContextClass) {
+    stream.getTracks().forEach((track) => track.stop());
+    throw new Error("Web Audio is not supported");
+  }
+  const ctx = new AudioContextClass();
+
+  try {
+    if (ctx.state === "suspended") {
+      await ctx.resume();
+    }
+
+    const clickBuffer = ctx.createBuffer(1, Math.round(CLICK_DURATION * ctx.sampleRate), ctx.sampleRate);
+    clickBuffer.copyToChannel(createClick(ctx.sampleRate), 0);
+
+    // Channel 0 carries the clicks as sent, channel 1 the microphone
+    const merger = ctx.createChannelMerger(2);
+    ctx.createMediaStreamSource(stream).connect(merger, 0, 1);
+
+    const reference: Float32Array[] = [];
+    const recorded: Float32Array[] = [];
+    const processor = ctx.createScriptProcessor(4096, 2, 1);
+    processor.onaudioprocess = (e) => {
+      reference.push(e.inputBuffer.getChannelData(0).slice());
+      recorded.push(e.inputBuffer.getChannelData(1).slice());
+      e.outputBuffer.getChannelData(0).fill(0);
+    };
+    merger.connect(processor);
+    processor.connect(ctx.destination);
+
+    const firstClick = ctx.currentTime + 0.5;
+    for (let i = 0; i < CLICK_COUNT; i++) {
+      const source = ctx.createBufferSource();
+      source.buffer = clickBuffer;
+      source.connect(ctx.destination);
+      source.connect(merger, 0, 0);
+      source.start(firstClick + i * CLICK_INTERVAL);
+    }
+
+    const end = firstClick + CLICK_COUNT * CLICK_INTERVAL + MAX_LATENCY;
+    await new Promise((resolve) => setTimeout(resolve, (end - ctx.currentTime) * 1000));
+    processor.disconnect();
+
+    const join = (chunks: Float32Array[]) => {
+      const joined = new Float32Array(chunks.reduce((length, chunk) => length + chunk.length, 0));
+      let offset = 0;
+      chunks.forEach((chunk) => {
+        joined.set(chunk, offset);
+        offset += chunk.length;
+      });
+      return joined;
+    };
+
+    return summarizeClickLags(findClickLags(join(reference), join(recorded), ctx.sampleRate), ctx.sampleRate);
+  } finally {
+    stream.getTracks().forEach((track) => track.stop());
+    ctx.close();
+  }
+};
@@ -35,6 +35,12 @@ interface StoredTranscript {
   updatedAt: number;
 }
 
+export interface BeatGrid {
+  bpm: number;
+  beats: number[]; // Beat positions in seconds
+  confidence: number; // 0-1, strength of the detected pulse
+}
+
 export interface CachedWaveformData {
   peaks: number[];
   resolution: number;
@@ -42,6 +48,8 @@ export interface CachedWaveformData {
   strategy: "detailed" | "adaptive" | "placeholder";
   status?: "placeholder" | "analyzing" | "ready" | "error";
   progress?: number;
+  beatGrid?: BeatGrid | null; // null when no steady tempo was found
+  loudness?: number | null; // Gated RMS level in dBFS; null for silence
   updatedAt: number;
 }
 
@@ -426,6 +434,46 @@ export const deleteMediaFile = async (id: string): Promise<void> => {
   }
 };
 
+// Delete several media files in one transaction, updating the size metadata once
+export const deleteMediaFiles = async (ids: string[]): Promise<void> => {
+  if (ids.length === 0) return;
+
+  try {
+    const db = await initDB();
+
+    // Each record is read for its size and deleted in the same transaction
+    const sizes: number[] = await new Promise((resolve, reject) => {
+      const transaction = db.transaction([MEDIA_STORE, TRANSCRIPT_STORE], "readwrite");
+      const mediaStore = transaction.objectStore(MEDIA_STORE);
+      const transcriptStore = transaction.objectStore(TRANSCRIPT_STORE);
+      const found: number[] = [];
+
+      transaction.oncomplete = () => resolve(found);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+
+      ids.forEach((id) => {
+        const request = mediaStore.get(id);
+        request.onsuccess = () => {
+          if (!request.result) return;
+          found.push((request.result as StoredMedia).fileSize);
+          mediaStore.delete(id);
+        };
+        transcriptStore.delete(id);
+      });
+    });
+
+    const metadata = await getStorageMetadata();
+    await updateStorageMetadata({
+      ...metadata,
+      totalSize: Math.max(0, metadata.totalSize - sizes.reduce((total, size) => total + size, 0)),
+      lastCleanup: Date.now(),
+    });
+  } catch (error) {
+    console.error("Error deleting media files", error);
+  }
+};
+
 // Clear all media files from storage
 export const clearAllMediaFiles = async (): Promise<void> => {
   try {
@@ -0,0 +1,73 @@
+import * as Tone from "tone";
+
+type BeatListener = (beat: number, isDownbeat: boolean) => void;
+
+/**
+ * Click track shared by the click-along scheduler and loop count-ins.
+ * All times are AudioContext seconds so clicks line up with the loop engine.
+ */
+export class Metronome {
+  private synth: Tone.MembraneSynth | null = null;
+  private output: Tone.Gain | null = null;
+  private volume = 0.7;
+  private listeners = new Set<BeatListener>();
+
+  private async ensureInitialized() {
+    // This must be called in response to a user interaction
+    await Tone.start();
+    if (this.synth) return;
+
+    this.output = new Tone.Gain(this.volume).toDestination();
+    this.synth = new Tone.MembraneSynth({
+      pitchDecay: 0.008,
+      octaves: 2,
+      envelope: { attack: 0.001, decay: 0.08, sustain: 0, release: 0.02 },
+    }).connect(this.output);
+  }
+
+  now(): number {
+    return Tone.getContext().currentTime;
+  }
+
+  setVolume(volume: number): void {
+    this.volume = volume;
+    if (this.output) {
+      this.output.gain.value = volume;
+    }
+  }
+
+  /**
+   * Play a single click at an AudioContext time. Downbeats are higher and louder.
+   */
+  async click(time: number, beat: number, isDownbeat: boolean): Promise<void> {
+    await this.ensureInitialized();
+    if (!this.synth || time < Tone.getContext().currentTime) return;
+
+    this.synth.triggerAttackRelease(isDownbeat ? "C6" : "G5", 0.03, time, isDownbeat ? 1 : 0.6);
+    // Notify the UI when the click is actually heard
+    Tone.getDraw().schedule(() => {
+      this.listeners.forEach((listener) => listener(beat, isDownbeat));
+    }, time);
+  }
+
+  /**
+   * Schedule a count-in that finishes exactly when playback resumes at `resumeAt`.
+   */
+  scheduleCountIn(resumeAt: number, beats: number, beatDuration: number, beatsPerBar: number): void {
+    for (let index = 0; index < beats; index++) {
+      const time = resumeAt - (beats - index) * beatDuration;
+      this.click(time, index % beatsPerBar, index % beatsPerBar === 0).catch((error) => {
+        console.error("Failed to schedule count-in:", error);
+      });
+    }
+  }
+
+  onBeat(listener: BeatListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+export const metronome = new Metronome();
@@ -0,0 +1,163 @@
+// Ogg encapsulation of Opus packets (RFC 7845)
+
+export const OPUS_SAMPLE_RATE = 48000; // Opus granule positions always count 48 kHz samples
+export const OPUS_PRE_SKIP = 312; // libopus encoder lookahead at 48 kHz, for encoders that do not report theirs
+
+const MAX_PAGE_SEGMENTS = 255;
+const PACKETS_PER_PAGE = 50; // About a second of 20 ms packets
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i << 24;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+    }
+    table[i] = crc >>> 0;
+  }
+  return table;
+})();
+
+const oggCrc = (bytes: Uint8Array) => {
+  let crc = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = ((crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ bytes[i]) & 0xff]) >>> 0;
+  }
+  return crc;
+};
+
+/**
+ * Number of 48 kHz samples in an Opus packet, from its TOC byte.
+ */
+export const opusPacketSamples = (packet: Uint8Array): number => {
+  if (packet.length === 0) return 0;
+  const config = packet[0] >> 3;
+  const frameMs =
+    config < 12 ? [10, 20, 40, 60][config % 4] : config < 16 ? [10, 20][config % 2] : [2.5, 5, 10, 20][config % 4];
+  const code = packet[0] & 3;
+  const frames = code === 0 ? 1 : code < 3 ? 2 : (packet[1] ?? 0) & 0x3f;
+  return frames * frameMs * (OPUS_SAMPLE_RATE / 1000);
+};
+
+const writePage = (
+  packets: Uint8Array[],
+  granulePosition: number,
+  serial: number,
+  sequence: number,
+  headerType: number
+) => {
+  const lacing: number[] = [];
+  packets.forEach((packet) => {
+    for (let left = packet.length; ; left -= 255) {
+      lacing.push(Math.min(left, 255));
+      if (left < 255) break;
+    }
+  });
+
+  const bodyLength = packets.reduce((length, packet) => length + packet.length, 0);
+  const page = new Uint8Array(27 + lacing.length + bodyLength);
+  const view = new DataView(page.buffer);
+  page.set([0x4f, 0x67, 0x67, 0x53]); // "OggS"
+  page[5] = headerType;
+  // Granule position is a 64-bit integer; takes never need the high word's full range
+  view.setUint32(6, granulePosition % 0x100000000, true);
+  view.setUint32(10, Math.floor(granulePosition / 0x100000000), true);
+  view.setUint32(14, serial, true);
+  view.setUint32(18, sequence, true);
+  page[26] = lacing.length;
+  page.set(lacing, 27);
+
+  let offset = 27 + lacing.length;
+  packets.forEach((packet) => {
+    page.set(packet, offset);
+    offset += packet.length;
+  });
+
+  view.setUint32(22, oggCrc(page), true);
+  return page;
+};
+
+const opusHead = (channels: number, inputSampleRate: number, preSkip: number) => {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(new TextEncoder().encode("OpusHead"));
+  head[8] = 1; // Version
+  head[9] = channels;
+  view.setUint16(10, preSkip, true);
+  view.setUint32(12, inputSampleRate, true);
+  view.setInt16(16, 0, true); // Output gain
+  head[18] = 0; // Mapping family: mono or stereo
+  return head;
+};
+
+const opusTags = () => {
+  const vendor = new TextEncoder().encode("LoopMate");
+  const tags = new Uint8Array(8 + 4 + vendor.length + 4);
+  const view = new DataView(tags.buffer);
+  tags.set(new TextEncoder().encode("OpusTags"));
+  view.setUint32(8, vendor.length, true);
+  tags.set(vendor, 12);
+  view.setUint32(12 + vendor.length, 0, true); // No user comments
+  return tags;
+};
+
+/**
+ * Pre-skip of an OpusHead, such as the one a WebCodecs encoder gives as its
+ * decoder description, or null when `head` is not one.
+ */
+export const readOpusPreSkip = (head: Uint8Array): number | null => {
+  if (head.length < 19 || new TextDecoder().decode(head.subarray(0, 8)) !== "OpusHead") return null;
+  return new DataView(head.buffer, head.byteOffset, head.byteLength).getUint16(10, true);
+};
+
+/**
+ * Ogg Opus file of encoded packets. `totalSamples` is the source length at
+ * 48 kHz, so decoders drop the encoder's padding after the last sample.
+ * `preSkip` is the encoder's lookahead at 48 kHz, which decoders drop from
+ * the start.
+ */
+export const muxOggOpus = (
+  packets: Uint8Array[],
+  {
+    channels,
+    inputSampleRate,
+    totalSamples,
+    preSkip = OPUS_PRE_SKIP,
+  }: { channels: number; inputSampleRate: number; totalSamples: number; preSkip?: number }
+): Uint8Array => {
+  const serial = Math.floor(Math.random() * 0xffffffff) >>> 0;
+  const pages: Uint8Array[] = [
+    writePage([opusHead(channels, inputSampleRate, preSkip)], 0, serial, 0, 0x02),
+    writePage([opusTags()], 0, serial, 1, 0),
+  ];
+
+  let granulePosition = 0;
+  let pagePackets: Uint8Array[] = [];
+  let pageSegments = 0;
+  const flush = (isLast: boolean) => {
+    const granule = isLast ? Math.min(granulePosition, preSkip + totalSamples) : granulePosition;
+    pages.push(writePage(pagePackets, granule, serial, pages.length, isLast ? 0x04 : 0));
+    pagePackets = [];
+    pageSegments = 0;
+  };
+
+  packets.forEach((packet, index) => {
+    const segments = Math.floor(packet.length / 255) + 1;
+    if (pagePackets.length >= PACKETS_PER_PAGE || pageSegments + segments > MAX_PAGE_SEGMENTS) {
+      flush(false);
+    }
+    pagePackets.push(packet);
+    pageSegments += segments;
+    granulePosition += opusPacketSamples(packet);
+    if (index === packets.length - 1) flush(true);
+  });
+  if (packets.length === 0) flush(true);
+
+  const file = new Uint8Array(pages.reduce((length, page) => length + page.length, 0));
+  let offset = 0;
+  pages.forEach((page) => {
+    file.set(page, offset);
+    offset += page.length;
+  });
+  return file;
+};
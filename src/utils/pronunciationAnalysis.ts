@@ -0,0 +1,422 @@
+// Features are computed on audio decimated to about this rate
+const TARGET_RATE = 11025;
+const FRAME_SIZE = 512; // Samples at the decimated rate, ~46 ms
+const HOP_SECONDS = 0.02;
+const BAND_COUNT = 16;
+const LOWEST_BAND_HZ = 80;
+const HIGHEST_BAND_HZ = 5000;
+const MIN_PITCH_HZ = 70;
+const MAX_PITCH_HZ = 400;
+const VOICING_THRESHOLD = 0.5; // Normalized autocorrelation needed to call a frame voiced
+const PEAK_RATIO = 0.9;
+const SILENCE_RANGE_DB = 35; // Frames this far below the loudest one count as silence
+const MAX_ANALYSIS_SECONDS = 60;
+// Keeps the warping path within this share of the longer clip around the diagonal
+const DTW_BAND_RATIO = 0.25;
+const ENERGY_WEIGHT = 0.5;
+const PITCH_WEIGHT = 1;
+const VOICING_MISMATCH_COST = 0.3;
+const MIN_VOICED_PAIRS = 10;
+const REGION_SECONDS = 1;
+
+// Deviations beyond these are flagged in the overlay
+export const TIMING_TOLERANCE = 0.25; // Seconds
+export const PITCH_TOLERANCE = 2; // Semitones
+
+export interface PronunciationRegion {
+  start: number; // Media time
+  end: number;
+  timingOffset: number; // Seconds behind (+) or ahead of (-) the take's usual lag
+  pitchDeviation: number | null; // Mean intonation difference in semitones, null when unvoiced
+}
+
+export interface PronunciationAnalysis {
+  score: number; // 0–100
+  // Components, 0–1
+  spectral: number;
+  rhythm: number;
+  intonation: number | null;
+  timing: number;
+  lag: number; // Typical delay of the take behind the original, seconds
+  regions: PronunciationRegion[];
+  analyzedAt: number;
+}
+
+interface FrameFeatures {
+  count: number;
+  hop: number; // Seconds between frames
+  offset: number; // First frame kept after trimming silence
+  energy: Float32Array; // z-scored log energy
+  pitch: Float32Array; // Semitones from the clip's median, NaN when unvoiced
+  bands: Float32Array[]; // Log band energies with the clip mean removed
+}
+
+const round = (value: number, digits = 3) => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+const median = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const pearson = (a: number[], b: number[]) => {
+  const n = a.length;
+  if (n < 2) return 0;
+  const meanA = a.reduce((sum, v) => sum + v, 0) / n;
+  const meanB = b.reduce((sum, v) => sum + v, 0) / n;
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (a[i] - meanA) * (b[i] - meanB);
+    varianceA += (a[i] - meanA) ** 2;
+    varianceB += (b[i] - meanB) ** 2;
+  }
+  return varianceA > 0 && varianceB > 0 ? covariance / Math.sqrt(varianceA * varianceB) : 0;
+};
+
+/**
+ * Mono mix of part of a decoded buffer, in seconds.
+ */
+export const extractMono = (buffer: AudioBuffer, start: number, end: number): Float32Array => {
+  const from = Math.max(0, Math.floor(start * buffer.sampleRate));
+  const to = Math.min(buffer.length, Math.floor(end * buffer.sampleRate));
+  const mono = new Float32Array(Math.max(0, to - from));
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < mono.length; i++) {
+      mono[i] += data[from + i] / buffer.numberOfChannels;
+    }
+  }
+  return mono;
+};
+
+// Box-filter decimation; crude, but the features only look below 5 kHz
+const decimate = (samples: Float32Array, sampleRate: number) => {
+  const factor = Math.max(1, Math.floor(sampleRate / TARGET_RATE));
+  if (factor === 1) return { data: samples, rate: sampleRate };
+  const data = new Float32Array(Math.floor(samples.length / factor));
+  for (let i = 0; i < data.length; i++) {
+    let sum = 0;
+    for (let k = 0; k < factor; k++) sum += samples[i * factor + k];
+    data[i] = sum / factor;
+  }
+  return { data, rate: sampleRate / factor };
+};
+
+// In-place radix-2 FFT
+const fft = (re: Float32Array, im: Float32Array) => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(angle * k);
+        const sin = Math.sin(angle * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tre = re[b] * cos - im[b] * sin;
+        const tim = re[b] * sin + im[b] * cos;
+        re[b] = re[a] - tre;
+        im[b] = im[a] - tim;
+        re[a] += tre;
+        im[a] += tim;
+      }
+    }
+  }
+};
+
+// Autocorrelation pitch in semitones above 55 Hz, or NaN when the frame is unvoiced
+const detectPitch = (frame: Float32Array, rate: number) => {
+  const minLag = Math.floor(rate / MAX_PITCH_HZ);
+  const maxLag = Math.min(frame.length - 1, Math.ceil(rate / MIN_PITCH_HZ));
+  const squares = new Float32Array(frame.length + 1);
+  for (let i = 0; i < frame.length; i++) squares[i + 1] = squares[i] + frame[i] * frame[i];
+
+  const correlations = new Float32Array(maxLag + 2);
+  let strongest = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let sum = 0;
+    for (let i = 0; i + lag < frame.length; i++) sum += frame[i] * frame[i + lag];
+    const norm = Math.sqrt(squares[frame.length - lag] * (squares[frame.length] - squares[lag]));
+    correlations[lag] = norm > 0 ? sum / norm : 0;
+    strongest = Math.max(strongest, correlations[lag]);
+  }
+
+  // The first peak close to the strongest avoids locking onto multiples of the period
+  let bestLag = 0;
+  let bestCorrelation = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    const correlation = correlations[lag];
+    if (
+      correlation >= PEAK_RATIO * strongest &&
+      correlation >= correlations[lag - 1] &&
+      correlation >= correlations[lag + 1]
+    ) {
+      bestLag = lag;
+      bestCorrelation = correlation;
+      break;
+    }
+  }
+  if (bestCorrelation < VOICING_THRESHOLD || bestLag === 0) return NaN;
+  return 12 * Math.log2(rate / bestLag / 55);
+};
+
+const computeFeatures = (samples: Float32Array, sampleRate: number): FrameFeatures | null => {
+  const { data, rate } = decimate(
+    samples.subarray(0, Math.floor(MAX_ANALYSIS_SECONDS * sampleRate)),
+    sampleRate
+  );
+  const hopSize = Math.max(1, Math.round(HOP_SECONDS * rate));
+  const frameCount = Math.floor((data.length - FRAME_SIZE) / hopSize) + 1;
+  if (frameCount < 2) return null;
+
+  const window = Float32Array.from({ length: FRAME_SIZE }, (_, i) =>
+    0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (FRAME_SIZE - 1))
+  );
+  const highest = Math.min(HIGHEST_BAND_HZ, rate / 2);
+  const bandEdges = Array.from(
+    { length: BAND_COUNT + 1 },
+    (_, b) => LOWEST_BAND_HZ * (highest / LOWEST_BAND_HZ) ** (b / BAND_COUNT)
+  );
+  const binHz = rate / FRAME_SIZE;
+
+  const rawEnergy = new Float32Array(frameCount);
+  const rawPitch = new Float32Array(frameCount);
+  const rawBands = Array.from({ length: frameCount }, () => new Float32Array(BAND_COUNT));
+  const re = new Float32Array(FRAME_SIZE);
+  const im = new Float32Array(FRAME_SIZE);
+
+  for (let f = 0; f < frameCount; f++) {
+    const frame = data.subarray(f * hopSize, f * hopSize + FRAME_SIZE);
+    let power = 0;
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      power += frame[i] * frame[i];
+      re[i] = frame[i] * window[i];
+      im[i] = 0;
+    }
+    rawEnergy[f] = 10 * Math.log10(power / FRAME_SIZE + 1e-10);
+    rawPitch[f] = detectPitch(frame, rate);
+
+    fft(re, im);
+    for (let b = 0; b < BAND_COUNT; b++) {
+      const from = Math.max(1, Math.floor(bandEdges[b] / binHz));
+      const to = Math.max(from + 1, Math.ceil(bandEdges[b + 1] / binHz));
+      let bandPower = 0;
+      for (let k = from; k < to && k < FRAME_SIZE / 2; k++) {
+        bandPower += re[k] * re[k] + im[k] * im[k];
+      }
+      rawBands[f][b] = Math.log10(bandPower / (to - from) + 1e-10);
+    }
+  }
+
+  // Trim leading and trailing silence so a late start does not count against the take
+  const loudest = Math.max(...rawEnergy);
+  const isActive = (f: number) => rawEnergy[f] > loudest - SILENCE_RANGE_DB;
+  let first = 0;
+  while (first < frameCount && !isActive(first)) first++;
+  let last = frameCount - 1;
+  while (last > first && !isActive(last)) last--;
+  const count = last - first + 1;
+  if (count < 2) return null;
+
+  const energy = rawEnergy.slice(first, last + 1);
+  const energyMean = energy.reduce((sum, v) => sum + v, 0) / count;
+  const energyDeviation =
+    Math.sqrt(energy.reduce((sum, v) => sum + (v - energyMean) ** 2, 0) / count) || 1;
+  for (let f = 0; f < count; f++) energy[f] = (energy[f] - energyMean) / energyDeviation;
+
+  // Compare intonation shape rather than register, so different voices can match
+  const pitch = rawPitch.slice(first, last + 1);
+  for (let f = 0; f < count; f++) {
+    if (!isActive(first + f)) pitch[f] = NaN;
+  }
+  const pitchCenter = median(Array.from(pitch).filter((p) => !Number.isNaN(p)));
+  for (let f = 0; f < count; f++) pitch[f] -= pitchCenter;
+
+  // Removing the mean spectrum cancels out microphone and room coloring
+  const bands = rawBands.slice(first, last + 1);
+  for (let b = 0; b < BAND_COUNT; b++) {
+    const mean = bands.reduce((sum, frame) => sum + frame[b], 0) / count;
+    for (const frame of bands) frame[b] -= mean;
+  }
+
+  return { count, hop: hopSize / rate, offset: first, energy, pitch, bands };
+};
+
+const frameDistance = (a: FrameFeatures, i: number, b: FrameFeatures, j: number) => {
+  let spectral = 0;
+  for (let k = 0; k < BAND_COUNT; k++) spectral += (a.bands[i][k] - b.bands[j][k]) ** 2;
+  let cost = Math.sqrt(spectral / BAND_COUNT) + ENERGY_WEIGHT * Math.abs(a.energy[i] - b.energy[j]);
+
+  const pitchA = a.pitch[i];
+  const pitchB = b.pitch[j];
+  if (!Number.isNaN(pitchA) && !Number.isNaN(pitchB)) {
+    cost += (PITCH_WEIGHT * Math.min(12, Math.abs(pitchA - pitchB))) / 12;
+  } else if (Number.isNaN(pitchA) !== Number.isNaN(pitchB)) {
+    cost += VOICING_MISMATCH_COST;
+  }
+  return cost;
+};
+
+// Dynamic time warping within a band around the diagonal; returns the aligned frame pairs
+const alignFrames = (a: FrameFeatures, b: FrameFeatures): Array<[number, number]> => {
+  const n = a.count;
+  const m = b.count;
+  const band = Math.max(Math.abs(n - m), Math.ceil(DTW_BAND_RATIO * Math.max(n, m)));
+  const cost = new Float32Array(n * m).fill(Infinity);
+
+  for (let i = 0; i < n; i++) {
+    const center = Math.round((i * (m - 1)) / Math.max(1, n - 1));
+    const from = Math.max(0, center - band);
+    const to = Math.min(m - 1, center + band);
+    for (let j = from; j <= to; j++) {
+      const previous =
+        i === 0 && j === 0
+          ? 0
+          : Math.min(
+              i > 0 ? cost[(i - 1) * m + j] : Infinity,
+              j > 0 ? cost[i * m + j - 1] : Infinity,
+              i > 0 && j > 0 ? cost[(i - 1) * m + j - 1] : Infinity
+            );
+      cost[i * m + j] = previous + frameDistance(a, i, b, j);
+    }
+  }
+
+  const path: Array<[number, number]> = [[n - 1, m - 1]];
+  let i = n - 1;
+  let j = m - 1;
+  while (i > 0 || j > 0) {
+    const diagonal = i > 0 && j > 0 ? cost[(i - 1) * m + j - 1] : Infinity;
+    const up = i > 0 ? cost[(i - 1) * m + j] : Infinity;
+    const left = j > 0 ? cost[i * m + j - 1] : Infinity;
+    if (diagonal <= up && diagonal <= left) {
+      i--;
+      j--;
+    } else if (up <= left) {
+      i--;
+    } else {
+      j--;
+    }
+    path.push([i, j]);
+  }
+  return path.reverse();
+};
+
+/**
+ * Compares a shadowing take with the original audio it was recorded over.
+ * Both are aligned with dynamic time warping over spectral, energy and pitch
+ * features; the score weighs how alike the aligned sounds, rhythm and
+ * intonation are and how steadily the take follows. Regions cover the
+ * original in one-second steps from `startTime` (media time).
+ * Returns null when either clip is silent or too short.
+ */
+export const analyzePronunciation = (
+  original: Float32Array,
+  originalRate: number,
+  take: Float32Array,
+  takeRate: number,
+  startTime: number
+): PronunciationAnalysis | null => {
+  const a = computeFeatures(original, originalRate);
+  const b = computeFeatures(take, takeRate);
+  if (!a || !b) return null;
+
+  const path = alignFrames(a, b);
+
+  const cosines: number[] = [];
+  const energyA: number[] = [];
+  const energyB: number[] = [];
+  const pitchA: number[] = [];
+  const pitchB: number[] = [];
+  const lags: number[] = [];
+  const regionLags = new Map<number, number[]>();
+  const regionPitch = new Map<number, number[]>();
+
+  for (const [i, j] of path) {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let k = 0; k < BAND_COUNT; k++) {
+      dot += a.bands[i][k] * b.bands[j][k];
+      normA += a.bands[i][k] ** 2;
+      normB += b.bands[j][k] ** 2;
+    }
+    cosines.push(normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0);
+    energyA.push(a.energy[i]);
+    energyB.push(b.energy[j]);
+
+    const originalTime = (a.offset + i) * a.hop;
+    const lag = (b.offset + j) * b.hop - originalTime;
+    lags.push(lag);
+    const region = Math.floor(originalTime / REGION_SECONDS);
+    regionLags.set(region, [...(regionLags.get(region) ?? []), lag]);
+
+    if (!Number.isNaN(a.pitch[i]) && !Number.isNaN(b.pitch[j])) {
+      pitchA.push(a.pitch[i]);
+      pitchB.push(b.pitch[j]);
+      regionPitch.set(region, [...(regionPitch.get(region) ?? []), Math.abs(a.pitch[i] - b.pitch[j])]);
+    }
+  }
+
+  const lag = median(lags);
+  const lagSpread = Math.sqrt(lags.reduce((sum, l) => sum + (l - lag) ** 2, 0) / lags.length);
+
+  const spectral = clamp01(cosines.reduce((sum, c) => sum + c, 0) / cosines.length);
+  const rhythm = clamp01(pearson(energyA, energyB));
+  const intonation = pitchA.length >= MIN_VOICED_PAIRS ? clamp01(pearson(pitchA, pitchB)) : null;
+  const timing = 1 / (1 + (lagSpread / TIMING_TOLERANCE) ** 2);
+
+  const weighted: Array<[number, number]> = [
+    [spectral, 0.4],
+    [rhythm, 0.2],
+    [timing, 0.2],
+    ...(intonation !== null ? [[intonation, 0.2] as [number, number]] : []),
+  ];
+  const totalWeight = weighted.reduce((sum, [, weight]) => sum + weight, 0);
+  const score = Math.round(
+    (100 * weighted.reduce((sum, [value, weight]) => sum + value * weight, 0)) / totalWeight
+  );
+
+  const clipEnd = startTime + original.length / originalRate;
+  const regions: PronunciationRegion[] = Array.from(regionLags.entries())
+    .sort(([x], [y]) => x - y)
+    .map(([region, values]) => {
+      const deviations = regionPitch.get(region);
+      const start = startTime + region * REGION_SECONDS;
+      return {
+        start: round(start),
+        end: round(Math.min(clipEnd, start + REGION_SECONDS)),
+        timingOffset: round(values.reduce((sum, v) => sum + v, 0) / values.length - lag),
+        pitchDeviation: deviations
+          ? round(deviations.reduce((sum, v) => sum + v, 0) / deviations.length, 2)
+          : null,
+      };
+    });
+
+  return {
+    score,
+    spectral: round(spectral),
+    rhythm: round(rhythm),
+    intonation: intonation === null ? null : round(intonation),
+    timing: round(timing),
+    lag: round(lag),
+    regions,
+    analyzedAt: Date.now(),
+  };
+};
@@ -62,7 +62,7 @@ export function breakIntoSentences(
 /**
  * Detect the language of the text
  */
-function detectLanguage(text: string): string {
+export function detectLanguage(text: string): string {
   // Simple language detection based on character patterns
   const japanesePattern = /[\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FAF]/;
   const chinesePattern = /[\u4E00-\u9FAF]/;
@@ -0,0 +1,96 @@
+import { encodeWAV } from "./wavEncoder";
+
+// mix: original and voice together; stereo: original left, voice right;
+// voice: the takes alone, silent between them
+export type ShadowingExportMode = "mix" | "stereo" | "voice";
+
+export interface ExportTake {
+  buffer: AudioBuffer;
+  startTime: number;
+  duration: number;
+  fileOffset: number;
+}
+
+const EXPORT_SAMPLE_RATE = 48000;
+const PEAK_CEILING = 0.98;
+
+// Bounds the rendered range and the WAV built from it; longer sessions are
+// exported a loop at a time. The original is still decoded whole, since
+// compressed media cannot be decoded from the middle.
+export const MAX_EXPORT_DURATION = 10 * 60;
+
+/**
+ * Renders a range of the session offline. The original is required for
+ * "mix" and "stereo"; takes are placed on the media timeline and clipped to
+ * the range.
+ */
+export const renderShadowingSession = async (
+  original: AudioBuffer | null,
+  takes: ExportTake[],
+  start: number,
+  end: number,
+  mode: ShadowingExportMode
+): Promise<AudioBuffer> => {
+  if (mode !== "voice" && !original) {
+    throw new Error("The original audio is needed for this export");
+  }
+
+  const sampleRate = original?.sampleRate ?? EXPORT_SAMPLE_RATE;
+  const channels = mode === "voice" ? 1 : 2;
+  const ctx = new OfflineAudioContext(channels, Math.max(1, Math.ceil((end - start) * sampleRate)), sampleRate);
+
+  // In the stereo export each side is a mono mix: inputs of a merger are downmixed
+  const merger = mode === "stereo" ? ctx.createChannelMerger(2) : null;
+  merger?.connect(ctx.destination);
+
+  if (original && mode !== "voice") {
+    const source = ctx.createBufferSource();
+    source.buffer = original;
+    if (merger) {
+      source.connect(merger, 0, 0);
+    } else {
+      source.connect(ctx.destination);
+    }
+    source.start(0, start, end - start);
+  }
+
+  takes.forEach((take) => {
+    const from = Math.max(start, take.startTime);
+    const to = Math.min(end, take.startTime + take.duration);
+    if (to <= from) return;
+
+    const source = ctx.createBufferSource();
+    source.buffer = take.buffer;
+    if (merger) {
+      source.connect(merger, 0, 1);
+    } else {
+      source.connect(ctx.destination);
+    }
+    source.start(from - start, take.fileOffset + (from - take.startTime), to - from);
+  });
+
+  return ctx.startRendering();
+};
+
+/**
+ * WAV file of a rendered buffer. A mix that clips is scaled down to just
+ * below full scale rather than distorted.
+ */
+export const audioBufferToWav = (buffer: AudioBuffer): Blob => {
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, channel) => buffer.getChannelData(channel));
+  let peak = 0;
+  channels.forEach((data) => {
+    for (let i = 0; i < data.length; i++) {
+      peak = Math.max(peak, Math.abs(data[i]));
+    }
+  });
+  const scale = peak > 1 ? PEAK_CEILING / peak : 1;
+
+  const interleaved = new Float32Array(buffer.length * channels.length);
+  for (let i = 0; i < buffer.length; i++) {
+    for (let channel = 0; channel < channels.length; channel++) {
+      interleaved[i * channels.length + channel] = channels[channel][i] * scale;
+    }
+  }
+  return encodeWAV(interleaved, buffer.sampleRate, channels.length);
+};
@@ -0,0 +1,32 @@
+import type { TranscriptSegment } from "../stores/playerStore";
+
+export interface ShadowingTakeReference {
+  anchorId: string; // Transcript segment the take is shown with
+  text: string;
+}
+
+/**
+ * Transcript text a shadowing take covers: the segments it overlaps for at
+ * least half their length, or every segment it touches when none is covered
+ * that far. The take is anchored to the first of them.
+ */
+export const findTakeReference = (
+  startTime: number,
+  endTime: number,
+  transcript: TranscriptSegment[]
+): ShadowingTakeReference | null => {
+  const overlapping = transcript.filter(
+    (segment) => segment.startTime < endTime && segment.endTime > startTime
+  );
+  const covered = overlapping.filter((segment) => {
+    const overlap = Math.min(endTime, segment.endTime) - Math.max(startTime, segment.startTime);
+    return overlap >= (segment.endTime - segment.startTime) / 2;
+  });
+  const reference = covered.length > 0 ? covered : overlapping;
+  if (reference.length === 0) return null;
+
+  return {
+    anchorId: reference[0].id,
+    text: reference.map((segment) => segment.text.trim()).join(" "),
+  };
+};
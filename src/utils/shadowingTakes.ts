@@ -0,0 +1,131 @@
+export interface TakeRange {
+  id: string;
+  startTime: number;
+  duration: number;
+  starred?: boolean;
+}
+
+const overlaps = (a: TakeRange, b: TakeRange) =>
+  a.startTime < b.startTime + b.duration && b.startTime < a.startTime + a.duration;
+
+/**
+ * Lane of each take, in recording order: a take goes to the first lane where
+ * it does not overlap an earlier take, so re-recording a range stacks a new
+ * lane below the previous attempts.
+ */
+export const assignTakeLanes = (takes: TakeRange[]): Map<string, number> => {
+  const lanes: TakeRange[][] = [];
+  const assigned = new Map<string, number>();
+
+  takes.forEach((take) => {
+    let lane = lanes.findIndex((laneTakes) => !laneTakes.some((other) => overlaps(other, take)));
+    if (lane === -1) {
+      lane = lanes.length;
+      lanes.push([]);
+    }
+    lanes[lane].push(take);
+    assigned.set(take.id, lane);
+  });
+
+  return assigned;
+};
+
+/**
+ * Takes heard during playback when none is being auditioned. Where takes
+ * overlap, the starred one wins, otherwise the latest recording; a take that
+ * loses anywhere in its range stays silent for all of it.
+ */
+export const selectAudibleTakes = <T extends TakeRange>(takes: T[]): T[] => {
+  const byPriority = takes
+    .map((take, order) => ({ take, order }))
+    .sort((a, b) => Number(!!b.take.starred) - Number(!!a.take.starred) || b.order - a.order);
+
+  const audible: T[] = [];
+  byPriority.forEach(({ take }) => {
+    if (!audible.some((other) => overlaps(other, take))) {
+      audible.push(take);
+    }
+  });
+  return audible;
+};
+
+/**
+ * Takes heard right now: the auditioned take alone, or none while it is
+ * compared with the original; otherwise the audible takes.
+ */
+export const selectHeardTakes = <T extends TakeRange>(
+  takes: T[],
+  auditionTakeId: string | null,
+  auditionSource: "take" | "original"
+): T[] => {
+  if (auditionTakeId) {
+    return auditionSource === "take" ? takes.filter((take) => take.id === auditionTakeId) : [];
+  }
+  return selectAudibleTakes(takes);
+};
+
+export interface PlacedTake {
+  startTime: number;
+  duration: number;
+  fileOffset?: number;
+  peaks?: number[];
+  peakTimes?: number[];
+}
+
+/**
+ * Moves a take by `shift` seconds. A take moved before the start of the media
+ * loses its head instead: the skipped part of the file goes to `fileOffset`,
+ * along with the live peaks recorded for it.
+ */
+export const shiftTake = <T extends PlacedTake>(take: T, shift: number): T => {
+  const startTime = take.startTime + shift;
+  if (startTime >= 0) {
+    return { ...take, startTime };
+  }
+
+  const cut = Math.min(-startTime, take.duration);
+  const fileOffset = (take.fileOffset || 0) + cut;
+  const kept = take.peakTimes?.map((time) => time >= cut) ?? [];
+  return {
+    ...take,
+    startTime: 0,
+    duration: take.duration - cut,
+    fileOffset,
+    ...(take.peaks && take.peakTimes?.length === take.peaks.length
+      ? {
+          peaks: take.peaks.filter((_, i) => kept[i]),
+          // Peak times count from the start of the take, which is now `cut` later
+          peakTimes: take.peakTimes.filter((_, i) => kept[i]).map((time) => time - cut),
+        }
+      : {}),
+  };
+};
+
+// Position in the take's file that plays at `mediaTime`, or null outside the take
+export const takeFileTime = (take: PlacedTake, mediaTime: number): number | null => {
+  const elapsed = mediaTime - take.startTime;
+  if (elapsed < 0 || elapsed > take.duration) return null;
+  return (take.fileOffset || 0) + elapsed;
+};
+
+const PEAK_INTERVAL = 0.05; // Seconds, as often as the recorder reports live peaks
+
+/**
+ * Peaks of a take made elsewhere, in the form the recorder saves live: mean
+ * absolute amplitude per interval, timed from the start of the file.
+ */
+export const computeTakePeaks = (samples: Float32Array, sampleRate: number) => {
+  const frame = Math.max(1, Math.round(PEAK_INTERVAL * sampleRate));
+  const peaks: number[] = [];
+  const peakTimes: number[] = [];
+  for (let start = 0; start < samples.length; start += frame) {
+    const end = Math.min(start + frame, samples.length);
+    let sum = 0;
+    for (let i = start; i < end; i++) {
+      sum += Math.abs(samples[i]);
+    }
+    peaks.push(sum / (end - start));
+    peakTimes.push(end / sampleRate);
+  }
+  return { peaks, peakTimes };
+};
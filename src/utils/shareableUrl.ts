@@ -9,8 +9,9 @@ export function generateShareableUrl(params: {
   youtubeId?: string;
   bookmark?: LoopBookmark | null;
   playbackRate?: number;
+  transpose?: number;
 }): string {
-  const { loopStart, loopEnd, youtubeId, bookmark, playbackRate } = params;
+  const { loopStart, loopEnd, youtubeId, bookmark, playbackRate, transpose } = params;
   const urlParams = new URLSearchParams();
   
   // Add YouTube ID if present
@@ -31,6 +32,11 @@ export function generateShareableUrl(params: {
   if (playbackRate && playbackRate !== 1) {
     urlParams.set('rate', playbackRate.toString());
   }
+
+  // Add transpose (semitones) if present
+  if (transpose) {
+    urlParams.set('pitch', transpose.toString());
+  }
   
   // Add bookmark data if present
   if (bookmark) {
@@ -40,6 +46,7 @@ export function generateShareableUrl(params: {
       start: bookmark.start,
       end: bookmark.end,
       playbackRate: bookmark.playbackRate,
+      transpose: bookmark.transpose,
       annotation: bookmark.annotation,
     };
     
@@ -59,6 +66,7 @@ export function parseShareableUrl(url: string): {
   youtubeId?: string;
   bookmark?: Partial<LoopBookmark>;
   playbackRate?: number;
+  transpose?: number;
 } {
   const parsedUrl = new URL(url);
   const params = new URLSearchParams(parsedUrl.search);
@@ -68,6 +76,7 @@ export function parseShareableUrl(url: string): {
     youtubeId?: string;
     bookmark?: Partial<LoopBookmark>;
     playbackRate?: number;
+    transpose?: number;
   } = {};
   
   // Extract YouTube ID
@@ -102,6 +111,15 @@ export function parseShareableUrl(url: string): {
     }
   }
   
+  // Extract transpose
+  const pitchParam = params.get('pitch');
+  if (pitchParam) {
+    const transpose = parseFloat(pitchParam);
+    if (!isNaN(transpose)) {
+      result.transpose = transpose;
+    }
+  }
+  
   // Extract bookmark data
   const bookmarkParam = params.get('bm');
   if (bookmarkParam) {
@@ -0,0 +1,57 @@
+// SM-2 recall quality: 0-2 means the loop was not recalled, 3-5 that it was
+export type ReviewGrade = 0 | 1 | 2 | 3 | 4 | 5;
+
+export interface ReviewSchedule {
+  ease: number; // Interval multiplier, adjusted by every grade
+  interval: number; // Days until the next review
+  repetitions: number; // Successful reviews in a row
+  due: number; // Timestamp the bookmark becomes due again
+  lastReviewed: number;
+}
+
+export const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Grades offered in the review view, from forgotten to effortless
+export const REVIEW_GRADES = [
+  { key: "again", grade: 1 },
+  { key: "hard", grade: 3 },
+  { key: "good", grade: 4 },
+  { key: "easy", grade: 5 },
+] as const;
+
+/**
+ * Next SM-2 schedule after a review. Bookmarks that were never reviewed start
+ * with the default ease; a failed recall restarts the interval at one day.
+ */
+export const scheduleReview = (
+  previous: ReviewSchedule | undefined,
+  grade: ReviewGrade,
+  now = Date.now()
+): ReviewSchedule => {
+  const ease = previous?.ease ?? DEFAULT_EASE;
+  const repetitions = previous?.repetitions ?? 0;
+
+  let interval = 1;
+  if (grade >= 3) {
+    if (repetitions === 1) {
+      interval = 6;
+    } else if (repetitions > 1) {
+      interval = Math.round((previous?.interval ?? 1) * ease);
+    }
+  }
+
+  const penalty = 5 - grade;
+  return {
+    ease: Math.max(MIN_EASE, ease + 0.1 - penalty * (0.08 + penalty * 0.02)),
+    interval,
+    repetitions: grade >= 3 ? repetitions + 1 : 0,
+    due: now + interval * DAY_MS,
+    lastReviewed: now,
+  };
+};
+
+// Bookmarks without a schedule are new and due straight away
+export const isReviewDue = (review: ReviewSchedule | undefined, now = Date.now()) =>
+  !review || review.due <= now;
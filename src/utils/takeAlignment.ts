@@ -0,0 +1,80 @@
+export const MAX_ALIGNMENT_SHIFT = 0.5; // Seconds a take may be moved either way
+export const IMPORT_ALIGNMENT_SHIFT = 3; // Imported takes are dropped by hand, so they may be further off
+const HOP = 0.01;
+const MIN_CORRELATION = 0.3;
+const SILENCE_DB = -60;
+
+// Log RMS energy per 10 ms, the envelope speech from different voices shares
+const energyEnvelope = (samples: Float32Array, sampleRate: number) => {
+  const hop = Math.max(1, Math.round(HOP * sampleRate));
+  const envelope = new Float32Array(Math.floor(samples.length / hop));
+  for (let frame = 0; frame < envelope.length; frame++) {
+    let sum = 0;
+    for (let i = frame * hop; i < (frame + 1) * hop; i++) {
+      sum += samples[i] * samples[i];
+    }
+    envelope[frame] = Math.max(SILENCE_DB, 10 * Math.log10(sum / hop + 1e-12));
+  }
+  return envelope;
+};
+
+const pearson = (a: Float32Array, b: Float32Array, offset: number) => {
+  let meanA = 0;
+  let meanB = 0;
+  for (let i = 0; i < a.length; i++) {
+    meanA += a[i];
+    meanB += b[offset + i];
+  }
+  meanA /= a.length;
+  meanB /= a.length;
+
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  for (let i = 0; i < a.length; i++) {
+    const da = a[i] - meanA;
+    const db = b[offset + i] - meanB;
+    covariance += da * db;
+    varianceA += da * da;
+    varianceB += db * db;
+  }
+  return varianceA > 0 && varianceB > 0 ? covariance / Math.sqrt(varianceA * varianceB) : 0;
+};
+
+/**
+ * Shift in seconds that best lines a take up with the original, by
+ * correlating their energy envelopes. `original` must start `maxShift`
+ * before the take's current position (or at the start of the media, given by
+ * `originalLead`) and run as far past its end. Returns null when no shift
+ * matches convincingly.
+ */
+export const findAlignmentShift = (
+  original: Float32Array,
+  originalRate: number,
+  take: Float32Array,
+  takeRate: number,
+  originalLead: number,
+  maxShift = MAX_ALIGNMENT_SHIFT
+): number | null => {
+  const originalEnvelope = energyEnvelope(original, originalRate);
+  const takeEnvelope = energyEnvelope(take, takeRate);
+  if (takeEnvelope.length < 20) return null;
+
+  const leadFrames = Math.round(originalLead / HOP);
+  const maxFrames = Math.round(maxShift / HOP);
+
+  let bestShift: number | null = null;
+  let bestCorrelation = MIN_CORRELATION;
+  for (let shift = -maxFrames; shift <= maxFrames; shift++) {
+    const offset = leadFrames + shift;
+    if (offset < 0 || offset + takeEnvelope.length > originalEnvelope.length) continue;
+
+    const correlation = pearson(takeEnvelope, originalEnvelope, offset);
+    if (correlation > bestCorrelation) {
+      bestCorrelation = correlation;
+      bestShift = shift;
+    }
+  }
+
+  return bestShift === null ? null : bestShift * HOP;
+};
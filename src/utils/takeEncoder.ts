@@ -0,0 +1,125 @@
+import { encodeTakeAudio } from "./takeEncoding";
+import { storeMediaFile } from "./mediaStorage";
+import type { TakeEncoderRequest, TakeEncoderResponse } from "./takeEncoder.worker";
+
+interface PendingEncode {
+  samples: Float32Array;
+  sampleRate: number;
+  resolve: (blob: Blob) => void;
+  reject: (error: Error) => void;
+}
+
+const pending = new Map<number, PendingEncode>();
+let worker: Worker | null = null;
+let workerFailed = false;
+let nextRequestId = 0;
+
+// Finish requests on the main thread when the worker cannot run
+const encodeInline = ({ samples, sampleRate, resolve, reject }: PendingEncode) => {
+  encodeTakeAudio(samples, sampleRate).then(resolve, reject);
+};
+
+const getWorker = () => {
+  if (worker || workerFailed) return worker;
+  if (typeof Worker === "undefined") {
+    workerFailed = true;
+    return null;
+  }
+
+  try {
+    worker = new Worker(new URL("./takeEncoder.worker.ts", import.meta.url), { type: "module" });
+  } catch (error) {
+    console.warn("Take encoder worker unavailable, encoding on the main thread:", error);
+    workerFailed = true;
+    return null;
+  }
+
+  worker.onmessage = (event: MessageEvent<TakeEncoderResponse>) => {
+    const request = pending.get(event.data.id);
+    if (!request) return;
+    pending.delete(event.data.id);
+    if ("blob" in event.data) {
+      request.resolve(event.data.blob);
+    } else {
+      request.reject(new Error(event.data.error));
+    }
+  };
+  worker.onerror = (event) => {
+    console.warn("Take encoder worker failed, encoding on the main thread:", event.message);
+    worker?.terminate();
+    worker = null;
+    workerFailed = true;
+    pending.forEach(encodeInline);
+    pending.clear();
+  };
+  return worker;
+};
+
+/**
+ * Compresses a mono take to Opus off the main thread, falling back to
+ * 16 kHz WAV only if no Opus encoder works (see encodeTakeAudio).
+ */
+export const encodeTake = (samples: Float32Array, sampleRate: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const request: PendingEncode = { samples, sampleRate, resolve, reject };
+    const encoderWorker = getWorker();
+    if (!encoderWorker) {
+      encodeInline(request);
+      return;
+    }
+
+    const id = nextRequestId++;
+    pending.set(id, request);
+    // Copied rather than transferred, so the main thread can still take over
+    encoderWorker.postMessage({ id, samples, sampleRate } satisfies TakeEncoderRequest);
+  });
+
+export const takeFileExtension = (type: string) =>
+  type.includes("ogg") ? "ogg" : type.includes("wav") ? "wav" : type.includes("mp4") ? "m4a" : "webm";
+
+const isWavFile = (file: File) => file.type.includes("wav") || /\.wav$/i.test(file.name);
+
+// Sample rate from the WAV header; takes already at speech rate are left alone
+const wavSampleRate = async (file: File) => new DataView(await file.slice(24, 28).arrayBuffer()).getUint32(0, true);
+
+const checkedStorageIds = new Set<string>();
+let migrationQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Re-encodes a take that earlier versions stored as full-rate WAV, once it
+ * has been decoded for playback. Runs one take at a time and only keeps the
+ * new file if it is clearly smaller and decodes in this browser to the same
+ * length, so the take's timing is unchanged. Resolves to the new storage id,
+ * or null when the take was left as it was.
+ */
+export const compressWavTake = (storageId: string, file: File, buffer: AudioBuffer): Promise<string | null> => {
+  if (checkedStorageIds.has(storageId) || !isWavFile(file)) return Promise.resolve(null);
+  checkedStorageIds.add(storageId);
+
+  const migration = migrationQueue.then(async () => {
+    if ((await wavSampleRate(file)) <= 16000) return null;
+
+    const samples = new Float32Array(buffer.length);
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      const data = buffer.getChannelData(channel);
+      for (let i = 0; i < samples.length; i++) {
+        samples[i] += data[i] / buffer.numberOfChannels;
+      }
+    }
+
+    const blob = await encodeTake(samples, buffer.sampleRate);
+    if (blob.size > file.size * 0.8) return null;
+
+    const decoded = await new OfflineAudioContext(1, 1, buffer.sampleRate).decodeAudioData(await blob.arrayBuffer());
+    if (Math.abs(decoded.duration - buffer.duration) > 0.05) return null;
+
+    const name = file.name.replace(/\.wav$/i, "") + `.${takeFileExtension(blob.type)}`;
+    return storeMediaFile(new File([blob], name, { type: blob.type }));
+  });
+
+  migrationQueue = migration.catch(() => undefined);
+  return migration.catch((error) => {
+    console.error("Failed to compress shadowing take:", error);
+    return null;
+  });
+};
@@ -0,0 +1,20 @@
+import { encodeTakeAudio } from "./takeEncoding";
+
+export interface TakeEncoderRequest {
+  id: number;
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+export type TakeEncoderResponse = { id: number; blob: Blob } | { id: number; error: string };
+
+self.addEventListener("message", async (event: MessageEvent<TakeEncoderRequest>) => {
+  const { id, samples, sampleRate } = event.data;
+  let response: TakeEncoderResponse;
+  try {
+    response = { id, blob: await encodeTakeAudio(samples, sampleRate) };
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : String(error) };
+  }
+  self.postMessage(response);
+});
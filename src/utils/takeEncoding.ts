@@ -0,0 +1,156 @@
+import { encodeWAV } from "./wavEncoder";
+import { muxOggOpus, OPUS_SAMPLE_RATE, readOpusPreSkip } from "./oggOpus";
+
+export const TAKE_BITRATE = 48000; // Opus bitrate for takes; plenty for a single voice
+export const OGG_OPUS_TYPE = "audio/ogg; codecs=opus";
+const SPEECH_SAMPLE_RATE = 16000; // Rate of the uncompressed fallback
+const BLOCK_FRAMES = OPUS_SAMPLE_RATE; // Samples per AudioData handed to the encoder
+const WASM_FRAME_SIZE = 960; // 20 ms packets from the WebAssembly encoder
+
+const OPUS_CONFIG: AudioEncoderConfig = {
+  codec: "opus",
+  sampleRate: OPUS_SAMPLE_RATE,
+  numberOfChannels: 1,
+  bitrate: TAKE_BITRATE,
+};
+
+// Linear interpolation; going down, each output sample averages the input it
+// covers, which keeps most aliasing out of speech
+export const resample = (samples: Float32Array, fromRate: number, toRate: number): Float32Array => {
+  if (fromRate === toRate) return samples;
+  const ratio = fromRate / toRate;
+  const resampled = new Float32Array(Math.floor(samples.length / ratio));
+  for (let i = 0; i < resampled.length; i++) {
+    if (ratio > 1) {
+      const from = Math.floor(i * ratio);
+      const to = Math.min(samples.length, Math.max(from + 1, Math.floor((i + 1) * ratio)));
+      let sum = 0;
+      for (let j = from; j < to; j++) sum += samples[j];
+      resampled[i] = sum / (to - from);
+      continue;
+    }
+    const position = i * ratio;
+    const index = Math.floor(position);
+    const next = samples[Math.min(index + 1, samples.length - 1)];
+    resampled[i] = samples[index] + (next - samples[index]) * (position - index);
+  }
+  return resampled;
+};
+
+const supportsOpusEncoding = async () => {
+  if (typeof AudioEncoder === "undefined" || typeof AudioData === "undefined") return false;
+  try {
+    return !!(await AudioEncoder.isConfigSupported(OPUS_CONFIG)).supported;
+  } catch {
+    return false;
+  }
+};
+
+const encodeOggOpus = async (samples: Float32Array, sampleRate: number) => {
+  const pcm = resample(samples, sampleRate, OPUS_SAMPLE_RATE);
+  const packets: Uint8Array[] = [];
+  let failure: Error | null = null;
+  // The encoder's own OpusHead, when it gives one, says how much lookahead it adds
+  let preSkip: number | undefined;
+
+  const encoder = new AudioEncoder({
+    output: (chunk, metadata) => {
+      const packet = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(packet);
+      packets.push(packet);
+      const description = metadata?.decoderConfig?.description;
+      if (description) {
+        const head = ArrayBuffer.isView(description)
+          ? new Uint8Array(description.buffer, description.byteOffset, description.byteLength)
+          : new Uint8Array(description);
+        preSkip = readOpusPreSkip(head) ?? preSkip;
+      }
+    },
+    error: (error) => {
+      failure = error;
+    },
+  });
+  encoder.configure(OPUS_CONFIG);
+
+  for (let offset = 0; offset < pcm.length; offset += BLOCK_FRAMES) {
+    const block = pcm.slice(offset, offset + BLOCK_FRAMES);
+    const frame = new AudioData({
+      format: "f32",
+      sampleRate: OPUS_SAMPLE_RATE,
+      numberOfFrames: block.length,
+      numberOfChannels: 1,
+      timestamp: Math.round((offset / OPUS_SAMPLE_RATE) * 1e6),
+      data: block,
+    });
+    encoder.encode(frame);
+    frame.close();
+  }
+  await encoder.flush();
+  encoder.close();
+  if (failure) throw failure;
+
+  const file = muxOggOpus(packets, {
+    channels: 1,
+    inputSampleRate: sampleRate,
+    totalSamples: pcm.length,
+    preSkip,
+  });
+  return new Blob([file], { type: OGG_OPUS_TYPE });
+};
+
+// libopus built to WebAssembly, for browsers without a WebCodecs Opus encoder.
+// Loaded on first use, as it is a few hundred kB.
+const encodeOggOpusWasm = async (samples: Float32Array, sampleRate: number) => {
+  const { createEncoder } = await import("libopus-wasm");
+  const pcm = resample(samples, sampleRate, OPUS_SAMPLE_RATE);
+
+  const encoder = await createEncoder({
+    channels: 1,
+    sampleRate: OPUS_SAMPLE_RATE,
+    bitrate: TAKE_BITRATE,
+    frameSize: WASM_FRAME_SIZE,
+  });
+  const preSkip = encoder.getLookahead();
+  // Padded to whole packets, with room for the encoder's lookahead to come out
+  const padded = new Float32Array(Math.ceil((pcm.length + preSkip) / WASM_FRAME_SIZE) * WASM_FRAME_SIZE);
+  padded.set(pcm);
+  const packets: Uint8Array[] = [];
+  try {
+    for (let offset = 0; offset < padded.length; offset += WASM_FRAME_SIZE) {
+      packets.push(encoder.encodeFloat(padded.subarray(offset, offset + WASM_FRAME_SIZE)));
+    }
+  } finally {
+    encoder.free();
+  }
+
+  const file = muxOggOpus(packets, {
+    channels: 1,
+    inputSampleRate: sampleRate,
+    totalSamples: pcm.length,
+    preSkip,
+  });
+  return new Blob([file], { type: OGG_OPUS_TYPE });
+};
+
+/**
+ * Compresses a mono take to Opus in Ogg, with WebCodecs where it can encode
+ * Opus and the WebAssembly encoder otherwise. Only if both fail is it stored
+ * as 16 kHz WAV, a third of the size of a 48 kHz recording and enough for
+ * speech. Works both in a worker and on the main thread.
+ */
+export const encodeTakeAudio = async (samples: Float32Array, sampleRate: number): Promise<Blob> => {
+  if (await supportsOpusEncoding()) {
+    try {
+      return await encodeOggOpus(samples, sampleRate);
+    } catch (error) {
+      console.warn("WebCodecs Opus encoding failed, trying the WebAssembly encoder:", error);
+    }
+  }
+  try {
+    return await encodeOggOpusWasm(samples, sampleRate);
+  } catch (error) {
+    console.warn("Opus encoding failed, storing the take as WAV:", error);
+  }
+  const rate = Math.min(sampleRate, SPEECH_SAMPLE_RATE);
+  return encodeWAV(resample(samples, sampleRate, rate), rate);
+};
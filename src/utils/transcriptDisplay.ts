@@ -0,0 +1,78 @@
+import { detectLanguage } from "./sentenceBreaker";
+
+export type TranscriptDisplayMode = "full" | "hidden" | "blur" | "cloze";
+export type ClozeSource = "interval" | "keyWords";
+
+export interface TranscriptDisplaySettings {
+  mode: TranscriptDisplayMode;
+  revealAfterPlays: number; // Hidden text reveals itself after this many plays; 0 = only on click
+  clozeSource: ClozeSource;
+  clozeInterval: number; // Blank every Nth word
+}
+
+export interface ClozePart {
+  text: string;
+  blank: boolean;
+}
+
+export const TRANSCRIPT_DISPLAY_MODES: TranscriptDisplayMode[] = ["full", "hidden", "blur", "cloze"];
+
+export const DEFAULT_TRANSCRIPT_DISPLAY: TranscriptDisplaySettings = {
+  mode: "full",
+  revealAfterPlays: 0,
+  clozeSource: "interval",
+  clozeInterval: 4,
+};
+
+const CJK = "\\u3040-\\u30FF\\u3400-\\u4DBF\\u4E00-\\u9FFF\\uF900-\\uFAFF";
+// Chinese and Japanese count each character as a word, other scripts whole words
+const CJK_WORD = new RegExp(`[${CJK}]|(?:(?![${CJK}])[\\p{L}\\p{N}])+`, "gu");
+const WORD = /[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const isCjk = (text: string) => {
+  const language = detectLanguage(text);
+  return language === "ja" || language === "zh";
+};
+
+// Split text into alternating kept and blanked parts at the given matches
+const splitAtMatches = (text: string, matches: Iterable<RegExpMatchArray>, isBlank: (index: number) => boolean) => {
+  const parts: ClozePart[] = [];
+  let position = 0;
+  let index = 0;
+  for (const match of matches) {
+    const start = match.index ?? 0;
+    if (isBlank(index++)) {
+      if (start > position) parts.push({ text: text.slice(position, start), blank: false });
+      parts.push({ text: match[0], blank: true });
+      position = start + match[0].length;
+    }
+  }
+  if (position < text.length) parts.push({ text: text.slice(position), blank: false });
+  return parts;
+};
+
+/**
+ * Cloze deletions for a transcript segment: every `interval`th word, or each
+ * occurrence of the given key words when there are any. Punctuation and
+ * spacing are kept as they are.
+ */
+export const buildCloze = (text: string, interval: number, keyWords: string[] = []): ClozePart[] => {
+  const words = keyWords.map((word) => word.trim()).filter(Boolean);
+  if (words.length > 0) {
+    const alternatives = words
+      .sort((a, b) => b.length - a.length)
+      .map(escapeRegExp)
+      .join("|");
+    // Outside Chinese and Japanese, only match whole words
+    const pattern = isCjk(text)
+      ? `(?:${alternatives})`
+      : `(?<![\\p{L}\\p{N}])(?:${alternatives})(?![\\p{L}\\p{N}])`;
+    return splitAtMatches(text, text.matchAll(new RegExp(pattern, "giu")), () => true);
+  }
+
+  const step = Math.max(2, Math.round(interval));
+  const matches = text.matchAll(isCjk(text) ? CJK_WORD : WORD);
+  return splitAtMatches(text, matches, (index) => index % step === step - 1);
+};
@@ -0,0 +1,63 @@
+// Camera recordings of shadowing takes. The take's audio is recorded and
+// stored as before; the video is a separate, silent file next to it.
+
+const VIDEO_MIME_TYPES = ["video/webm;codecs=vp9", "video/webm;codecs=vp8", "video/webm", "video/mp4"];
+const VIDEO_BITRATE = 1_000_000; // Enough to see the mouth or the hands at 640×480
+
+const CAMERA_CONSTRAINTS: MediaTrackConstraints = {
+  facingMode: "user",
+  width: { ideal: 640 },
+  height: { ideal: 480 },
+  frameRate: { ideal: 30 },
+};
+
+export const supportsVideoCapture = () =>
+  typeof MediaRecorder !== "undefined" && !!navigator.mediaDevices?.getUserMedia;
+
+export const openCamera = () => navigator.mediaDevices.getUserMedia({ video: CAMERA_CONSTRAINTS, audio: false });
+
+export const videoFileExtension = (type: string) => (type.includes("mp4") ? "mp4" : "webm");
+
+export interface VideoCapture {
+  // Resolves to the recording, or null when nothing was captured
+  stop: () => Promise<Blob | null>;
+}
+
+/**
+ * Records the camera for one take. Runs alongside the audio recorder and is
+ * stopped with it.
+ */
+export const startVideoCapture = (stream: MediaStream): VideoCapture => {
+  const mimeType = VIDEO_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+  const recorder = new MediaRecorder(stream, {
+    ...(mimeType ? { mimeType } : {}),
+    videoBitsPerSecond: VIDEO_BITRATE,
+  });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  recorder.start(1000);
+
+  let stopped: Promise<Blob | null> | null = null;
+  const collect = () =>
+    chunks.length > 0 ? new Blob(chunks, { type: recorder.mimeType || mimeType || "video/webm" }) : null;
+
+  return {
+    stop: () => {
+      stopped ??= new Promise((resolve) => {
+        if (recorder.state === "inactive") {
+          resolve(collect());
+          return;
+        }
+        recorder.onstop = () => resolve(collect());
+        recorder.onerror = (event) => {
+          console.error("Camera recording failed:", event);
+          resolve(null);
+        };
+        recorder.stop();
+      });
+      return stopped;
+    },
+  };
+};
@@ -0,0 +1,70 @@
+// Hands-free takes: a take starts when the learner starts speaking and stops
+// after a pause, instead of following play/pause of the media
+export interface VoiceActivitySettings {
+  threshold: number; // Input peak in dBFS that counts as speech
+  minSpeech: number; // Seconds of speech before a take starts, so clicks and bumps are ignored
+  silence: number; // Seconds of silence that end a take
+}
+
+export const DEFAULT_VOICE_ACTIVITY: VoiceActivitySettings = {
+  threshold: -36,
+  minSpeech: 0.15,
+  silence: 1.2,
+};
+
+export type VoiceActivityEvent = "start" | "stop";
+
+// Lead-in kept before the speech the detector waited for, which also covers
+// the time a take takes to start once it fires
+const VOICE_LEAD_IN = 0.3;
+
+// Seconds of input a voice-triggered take keeps from before it started
+export const getVoicePreRoll = (settings: VoiceActivitySettings) => settings.minSpeech + VOICE_LEAD_IN;
+
+// Once speaking, the input has to drop this far below the threshold to count
+// as silence, so a voice hovering around the threshold does not end the take
+const RELEASE_DB = 6;
+
+export interface VoiceActivityDetector {
+  update: (levelDb: number, time: number) => VoiceActivityEvent | null;
+  isActive: () => boolean;
+}
+
+/**
+ * Turns input levels into speech start and stop events. `update` takes the
+ * input peak in dBFS and the time in seconds, and returns an event when the
+ * learner starts or stops speaking.
+ */
+export const createVoiceActivityDetector = (settings: VoiceActivitySettings): VoiceActivityDetector => {
+  let active = false;
+  let speechSince: number | null = null;
+  let silenceSince: number | null = null;
+
+  const update = (levelDb: number, time: number): VoiceActivityEvent | null => {
+    if (!active) {
+      if (levelDb < settings.threshold) {
+        speechSince = null;
+        return null;
+      }
+      speechSince ??= time;
+      if (time - speechSince < settings.minSpeech) return null;
+
+      active = true;
+      silenceSince = null;
+      return "start";
+    }
+
+    if (levelDb >= settings.threshold - RELEASE_DB) {
+      silenceSince = null;
+      return null;
+    }
+    silenceSince ??= time;
+    if (time - silenceSince < settings.silence) return null;
+
+    active = false;
+    speechSince = null;
+    return "stop";
+  };
+
+  return { update, isActive: () => active };
+};
@@ -13,7 +13,8 @@ const floatTo16BitPCM = (output: DataView, offset: number, input: Float32Array)
     }
 };
 
-export const encodeWAV = (samples: Float32Array, sampleRate: number = 44100) => {
+// Samples are interleaved when there is more than one channel
+export const encodeWAV = (samples: Float32Array, sampleRate: number = 44100, channels: number = 1) => {
     const buffer = new ArrayBuffer(44 + samples.length * 2);
     const view = new DataView(buffer);
 
@@ -29,14 +30,14 @@ export const encodeWAV = (samples: Float32Array, sampleRate: number = 44100) =>
     view.setUint32(16, 16, true);
     // sample format (raw)
     view.setUint16(20, 1, true);
-    // channel count (1 for mono)
-    view.setUint16(22, 1, true);
+    // channel count
+    view.setUint16(22, channels, true);
     // sample rate
     view.setUint32(24, sampleRate, true);
     // byte rate (sample rate * block align)
-    view.setUint32(28, sampleRate * 2, true);
+    view.setUint32(28, sampleRate * channels * 2, true);
     // block align (channel count * bytes per sample)
-    view.setUint16(32, 2, true);
+    view.setUint16(32, channels * 2, true);
     // bits per sample
     view.setUint16(34, 16, true);
     // data chunk identifier
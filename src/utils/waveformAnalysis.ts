@@ -1,8 +1,23 @@
-import { CachedWaveformData } from "./mediaStorage";
+import { BeatGrid, CachedWaveformData } from "./mediaStorage";
 
 const DETAILED_FILE_LIMIT = 20 * 1024 * 1024;
 const ADAPTIVE_FILE_LIMIT = 80 * 1024 * 1024;
 
+// Beat detection works on an onset envelope with one frame per hop
+const BEAT_HOP_SIZE = 512;
+const MIN_BPM = 60;
+const MAX_BPM = 200;
+const PREFERRED_BPM = 120;
+// How strongly the beat tracker resists tempo drift between beats
+const BEAT_TIGHTNESS = 100;
+const MIN_BEAT_CONFIDENCE = 0.1;
+const MIN_BEAT_ANALYSIS_SECONDS = 5;
+
+// Loudness is the mean power of 400ms blocks, ignoring silence and quiet passages
+const LOUDNESS_BLOCK_SECONDS = 0.4;
+const LOUDNESS_ABSOLUTE_GATE_DB = -70;
+const LOUDNESS_RELATIVE_GATE_DB = -10;
+
 type WaveformAnalysisProgress = {
   progress: number;
   status: NonNullable<CachedWaveformData["status"]>;
@@ -84,6 +99,220 @@ const downsampleChannelData = (
   return result;
 };
 
+// Mono onset strength: rectified rise in log energy, with the local average removed
+const computeOnsetEnvelope = (buffer: AudioBuffer) => {
+  const frameCount = Math.floor(buffer.length / BEAT_HOP_SIZE);
+  const energies = new Float32Array(frameCount);
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, index) =>
+    buffer.getChannelData(index)
+  );
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    const start = frame * BEAT_HOP_SIZE;
+    let energy = 0;
+    for (let cursor = start; cursor < start + BEAT_HOP_SIZE; cursor++) {
+      let sample = 0;
+      for (const channel of channels) {
+        sample += channel[cursor];
+      }
+      energy += sample * sample;
+    }
+    energies[frame] = Math.log(1e-6 + energy / BEAT_HOP_SIZE);
+  }
+
+  const onsets = new Float32Array(frameCount);
+  for (let frame = 1; frame < frameCount; frame++) {
+    onsets[frame] = Math.max(0, energies[frame] - energies[frame - 1]);
+  }
+
+  // Remove the slowly varying part so only sharp attacks remain
+  const frameRate = buffer.sampleRate / BEAT_HOP_SIZE;
+  const radius = Math.max(1, Math.round(frameRate * 0.25));
+  const envelope = new Float32Array(frameCount);
+  let windowSum = 0;
+  for (let frame = 0; frame < Math.min(frameCount, radius); frame++) {
+    windowSum += onsets[frame];
+  }
+  for (let frame = 0; frame < frameCount; frame++) {
+    if (frame + radius < frameCount) windowSum += onsets[frame + radius];
+    if (frame - radius - 1 >= 0) windowSum -= onsets[frame - radius - 1];
+    const windowLength = Math.min(frameCount, frame + radius + 1) - Math.max(0, frame - radius);
+    envelope[frame] = Math.max(0, onsets[frame] - windowSum / windowLength);
+  }
+
+  // Normalize so the tracker's tightness works the same for any loudness
+  let variance = 0;
+  for (let frame = 0; frame < frameCount; frame++) {
+    variance += envelope[frame] * envelope[frame];
+  }
+  const deviation = Math.sqrt(variance / Math.max(1, frameCount)) || 1;
+  for (let frame = 0; frame < frameCount; frame++) {
+    envelope[frame] /= deviation;
+  }
+
+  return { envelope, frameRate };
+};
+
+// Autocorrelate the onset envelope, favouring tempos near PREFERRED_BPM to avoid octave errors
+const estimateBeatPeriod = (envelope: Float32Array, frameRate: number) => {
+  const minLag = Math.max(1, Math.floor((60 * frameRate) / MAX_BPM));
+  const maxLag = Math.ceil((60 * frameRate) / MIN_BPM);
+  const preferredLag = (60 * frameRate) / PREFERRED_BPM;
+
+  const autocorrelation = (lag: number) => {
+    let sum = 0;
+    for (let frame = lag; frame < envelope.length; frame++) {
+      sum += envelope[frame] * envelope[frame - lag];
+    }
+    return sum / (envelope.length - lag);
+  };
+
+  const zeroLag = autocorrelation(0);
+  if (zeroLag <= 0) return null;
+
+  const scores = new Float32Array(maxLag + 2);
+  let bestLag = 0;
+  let bestWeighted = 0;
+  for (let lag = minLag; lag <= maxLag + 1; lag++) {
+    scores[lag] = autocorrelation(lag);
+    if (lag > maxLag) break;
+    const octaves = Math.log2(lag / preferredLag);
+    const weighted = scores[lag] * Math.exp(-0.5 * octaves * octaves);
+    if (weighted > bestWeighted) {
+      bestWeighted = weighted;
+      bestLag = lag;
+    }
+  }
+  if (!bestLag) return null;
+
+  // Parabolic interpolation for a sub-frame period
+  let period = bestLag;
+  if (bestLag > minLag) {
+    const left = scores[bestLag - 1];
+    const center = scores[bestLag];
+    const right = scores[bestLag + 1];
+    const curvature = left - 2 * center + right;
+    if (curvature < 0) {
+      period += (0.5 * (left - right)) / curvature;
+    }
+  }
+
+  return { period, confidence: Math.max(0, Math.min(1, scores[bestLag] / zeroLag)) };
+};
+
+// Dynamic programming beat tracker: beats sit on strong onsets about one period apart
+const trackBeats = (envelope: Float32Array, period: number) => {
+  const scores = new Float32Array(envelope.length);
+  const previous = new Int32Array(envelope.length).fill(-1);
+  const minGap = Math.max(1, Math.round(period / 2));
+  const maxGap = Math.round(period * 2);
+
+  for (let frame = 0; frame < envelope.length; frame++) {
+    let best = 0;
+    for (let gap = minGap; gap <= maxGap && frame - gap >= 0; gap++) {
+      const drift = Math.log(gap / period);
+      const candidate = scores[frame - gap] - BEAT_TIGHTNESS * drift * drift;
+      if (previous[frame] === -1 || candidate > best) {
+        best = candidate;
+        previous[frame] = frame - gap;
+      }
+    }
+    scores[frame] = envelope[frame] + Math.max(0, best);
+    if (best <= 0) previous[frame] = -1;
+  }
+
+  // Start from the best-scoring beat in the final period and walk back
+  let frame = envelope.length - 1;
+  for (let cursor = Math.max(0, envelope.length - Math.round(period)); cursor < envelope.length; cursor++) {
+    if (scores[cursor] > scores[frame]) frame = cursor;
+  }
+  const beats: number[] = [];
+  while (frame >= 0) {
+    beats.push(frame);
+    frame = previous[frame];
+  }
+  return beats.reverse();
+};
+
+/**
+ * Index of the beat closest to `time` in a sorted beat list, or -1 when empty.
+ */
+export const findNearestBeatIndex = (beats: number[], time: number) => {
+  if (beats.length === 0) return -1;
+
+  let low = 0;
+  let high = beats.length - 1;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (beats[middle] < time) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low > 0 && time - beats[low - 1] < beats[low] - time ? low - 1 : low;
+};
+
+/**
+ * Estimate tempo and beat positions from a decoded buffer.
+ * Returns null for short files or material without a steady pulse.
+ */
+export const detectBeatGrid = (buffer: AudioBuffer): BeatGrid | null => {
+  if (buffer.duration < MIN_BEAT_ANALYSIS_SECONDS) return null;
+
+  const { envelope, frameRate } = computeOnsetEnvelope(buffer);
+  const estimate = estimateBeatPeriod(envelope, frameRate);
+  if (!estimate || estimate.confidence < MIN_BEAT_CONFIDENCE) return null;
+
+  const frames = trackBeats(envelope, estimate.period);
+  if (frames.length < 4) return null;
+
+  // Report the tempo the beats actually follow, not just the autocorrelation peak
+  const intervals = frames.slice(1).map((frame, index) => frame - frames[index]);
+  const median = intervals.slice().sort((a, b) => a - b)[Math.floor(intervals.length / 2)];
+  const steady = intervals.filter((interval) => Math.abs(interval - median) <= median * 0.2);
+  const meanInterval = steady.reduce((sum, interval) => sum + interval, 0) / steady.length;
+  const bpm = Math.round(((60 * frameRate) / meanInterval) * 10) / 10;
+
+  return {
+    bpm,
+    beats: frames.map((frame) => Math.round((frame / frameRate) * 1000) / 1000),
+    confidence: Math.round(estimate.confidence * 100) / 100,
+  };
+};
+
+const powerToDb = (power: number) => 10 * Math.log10(power);
+
+/**
+ * Gated RMS level of a decoded buffer in dBFS, used to normalize playback.
+ * Returns null for silent material.
+ */
+export const measureLoudness = (buffer: AudioBuffer): number | null => {
+  const blockSize = Math.max(1, Math.round(LOUDNESS_BLOCK_SECONDS * buffer.sampleRate));
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, index) =>
+    buffer.getChannelData(index)
+  );
+
+  const powers: number[] = [];
+  for (let start = 0; start + blockSize <= buffer.length; start += blockSize) {
+    let sum = 0;
+    for (const data of channels) {
+      for (let index = start; index < start + blockSize; index++) {
+        sum += data[index] * data[index];
+      }
+    }
+    powers.push(sum / (blockSize * channels.length));
+  }
+
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+  const audible = powers.filter((power) => power > 0 && powerToDb(power) > LOUDNESS_ABSOLUTE_GATE_DB);
+  if (audible.length === 0) return null;
+
+  const relativeGate = powerToDb(mean(audible)) + LOUDNESS_RELATIVE_GATE_DB;
+  const gated = audible.filter((power) => powerToDb(power) > relativeGate);
+  return Math.round(powerToDb(mean(gated.length > 0 ? gated : audible)) * 10) / 10;
+};
+
 export const analyzeAudioFileWaveform = async (
   file: File,
   onProgress?: (update: WaveformAnalysisProgress) => void
@@ -114,6 +343,9 @@ export const analyzeAudioFileWaveform = async (
     const resolution = shouldUseDetailedWaveform(file) ? 2000 : 1000;
     reportProgress(85, "analyzing");
     const peaks = downsampleChannelData(decoded.getChannelData(0), resolution);
+    reportProgress(90, "analyzing");
+    const beatGrid = detectBeatGrid(decoded);
+    const loudness = measureLoudness(decoded);
     reportProgress(100, "ready");
 
     return {
@@ -123,6 +355,8 @@ export const analyzeAudioFileWaveform = async (
       strategy: shouldUseDetailedWaveform(file) ? "detailed" : "adaptive",
       status: "ready",
       progress: 100,
+      beatGrid,
+      loudness,
       updatedAt: Date.now(),
     };
   } finally {
@@ -12,6 +12,10 @@ export default defineConfig({
     sourcemap: true,
     emptyOutDir: true
   },
+  worker: {
+    // The take encoder worker is a module worker that loads its Opus encoder on demand
+    format: 'es',
+  },
   resolve: {
     alias: {
       '@': path.resolve(__dirname, './src'),